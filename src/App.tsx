@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   Container,
   Grid,
@@ -17,7 +17,10 @@ import {
   LinearProgress,
   Autocomplete,
   TextField,
-  IconButton
+  IconButton,
+  Chip,
+  MenuItem,
+  Tooltip
 } from '@mui/material';
 import FolderOpenIcon from '@mui/icons-material/FolderOpen';
 import SaveIcon from '@mui/icons-material/Save';
@@ -25,6 +28,17 @@ import NavigateNextIcon from '@mui/icons-material/NavigateNext';
 import NavigateBeforeIcon from '@mui/icons-material/NavigateBefore';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
 import DeleteIcon from '@mui/icons-material/Delete';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import KeyboardIcon from '@mui/icons-material/Keyboard';
+import TransformIcon from '@mui/icons-material/Transform';
+import AssignmentLateIcon from '@mui/icons-material/AssignmentLate';
+import CheckIcon from '@mui/icons-material/Check';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import SettingsIcon from '@mui/icons-material/Settings';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import CommentIcon from '@mui/icons-material/Comment';
+import ViewListIcon from '@mui/icons-material/ViewList';
 import { motion } from 'framer-motion';
 import { useSnackbar } from 'notistack';
 
@@ -32,26 +46,83 @@ import WaveformComponent from './components/WaveformComponent.tsx';
 import ConversationLogViewer from './components/ConversationLogViewer.tsx';
 import AnnotationProgressBar from './components/AnnotationProgress.tsx';
 import SlotIntentEditor from './components/SlotIntentEditor.tsx';
+import KeyboardShortcutHelp from './components/KeyboardShortcutHelp.tsx';
+import PreprocessDialog, { PreprocessResult } from './components/PreprocessDialog.tsx';
+import ScanReportDialog from './components/ScanReportDialog.tsx';
+import DirectoryLayoutDialog from './components/DirectoryLayoutDialog.tsx';
+import ProjectSettingsDialog from './components/ProjectSettingsDialog.tsx';
+import LogAlignmentDialog from './components/LogAlignmentDialog.tsx';
+import DialogueStateTimeline from './components/DialogueStateTimeline.tsx';
+import DialogueActEditor from './components/DialogueActEditor.tsx';
+import ConversationLabelsPanel from './components/ConversationLabelsPanel.tsx';
+import ReviewNotesEditor from './components/ReviewNotesEditor.tsx';
+import ConversationBrowser from './components/ConversationBrowser.tsx';
 import {
   ConversationData,
+  ConversationLabelValue,
   ConversationLog,
+  DialogueAct,
   DialogueAnnotation,
+  DialogueStateOperation,
+  DirectoryLayout,
   Segment,
+  SlotSpan,
   SlotValue,
-  AnnotationProgress
+  Turn,
+  AnnotationProgress,
+  AudioSource,
+  ProjectConfig,
+  ReviewFlag,
+  ScanIssue,
+  ScanResult,
+  UserSettings
 } from './types/index.ts';
 import {
   scanDirectory,
   loadAudioFile,
+  loadProcessedAudioFile,
+  hasProcessedAudio,
   loadConversationLogFile,
   readConversationLog,
   readTextFile,
   exportAnnotations,
   saveAnnotation,
   loadAnnotation,
+  loadProjectConfig,
+  resolveAudioOffset,
+  saveProjectConfig,
   clearCache
 } from './utils/fileUtils.ts';
 import SlotIntentContainer from './components/SlotIntentContainer.tsx';
+import TranscriptEditor from './components/TranscriptEditor.tsx';
+import { useAnnotationHistory } from './hooks/useAnnotationHistory.ts';
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts.ts';
+import { loadUserSettings, saveUserSettings } from './utils/settingsUtils.ts';
+import { DEFAULT_SPEAKER_ROLES, getSpeakerColor, resolveSpeakerRole } from './utils/speakerUtils.ts';
+import { AlignedRow } from './utils/alignmentUtils.ts';
+import { DEFAULT_DIRECTORY_LAYOUT } from './utils/layoutUtils.ts';
+import { getTurnIntents, withTurnIntents } from './utils/intentUtils.ts';
+import { LOG_ROW_DRAG_TYPE, getLogRowSpans, getLogRowTurnMap, getLogTimeBase, setLogRowLink } from './utils/transcriptUtils.ts';
+import { createPlaybackSync } from './utils/playbackUtils.ts';
+import { findOverlappingSpanSlot, getLogRowRanges, relocateSlotSpans } from './utils/spanUtils.ts';
+import { deriveDialogueStates, setStateOperation } from './utils/dialogueStateUtils.ts';
+import { getDialogueActDefinitions } from './utils/dialogueActUtils.ts';
+import { getConversationLabelDefinitions, setConversationLabel } from './utils/conversationLabelUtils.ts';
+import { validateSlotValue } from './utils/slotUtils.ts';
+import { REVIEW_FLAGS, getAnnotationFlags, getReviewFlagDefinition, setReviewNotes } from './utils/reviewUtils.ts';
+import { findConversationAnnotation } from './utils/conversationBrowserUtils.ts';
+import { matchTurnsToSegments } from './utils/turnUtils.ts';
+import {
+  DEFAULT_EXPORT_FILE_NAME,
+  findMissingRequiredFields,
+  findMissingRequiredSlotsByIntent,
+  getIntentDefinition,
+  getIntentNames,
+  getSlotKeys,
+  isAnnotationCompleted,
+  mergeIntentDefinitions,
+  sortSlotKeysForIntent
+} from './utils/projectUtils.ts';
 
 const App: React.FC = () => {
   const { enqueueSnackbar } = useSnackbar();
@@ -61,26 +132,92 @@ const App: React.FC = () => {
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const [conversationLogs, setConversationLogs] = useState<ConversationLog[]>([]);
   const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [audioSource, setAudioSource] = useState<AudioSource>('processed');
+  const [projectConfig, setProjectConfig] = useState<ProjectConfig>({});
   const [directoryHandle, setDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
 
   // State for annotation data
   const [annotations, setAnnotations] = useState<DialogueAnnotation[]>([]);
-  const [currentAnnotation, setCurrentAnnotation] = useState<DialogueAnnotation | null>(null);
+  // 前後の移動で対象にする会話の印（空文字は絞り込まない）
+  const [flagFilter, setFlagFilter] = useState<ReviewFlag | ''>('');
+  const [showConversationBrowser, setShowConversationBrowser] = useState(true);
+  const {
+    currentAnnotation,
+    setCurrentAnnotation,
+    resetCurrentAnnotation,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    clearHistory
+  } = useAnnotationHistory();
   const [currentTurnIndex, setCurrentTurnIndex] = useState<number>(0);
+  // 対話ログの行番号から紐付いているターンの番号
+  const logRowTurns = useMemo(
+    () => getLogRowTurnMap(currentAnnotation?.turns || []),
+    [currentAnnotation]
+  );
+  const logRowSpans = useMemo(
+    () => getLogRowSpans(conversationLogs, currentAnnotation?.turns || [], {
+      timestampSource: getLogTimeBase(projectConfig),
+      audioSource: currentAnnotation?.audioSource || 'processed',
+      audioOffset: currentAnnotation?.audioOffset ?? 0
+    }),
+    [conversationLogs, currentAnnotation, projectConfig]
+  );
+  // ターンごとの累積の対話状態
+  const dialogueStates = useMemo(
+    () => deriveDialogueStates(currentAnnotation?.turns || []),
+    [currentAnnotation]
+  );
+  // 波形の再生位置を対話ログと共有する
+  const playbackSync = useMemo(createPlaybackSync, []);
 
   // State for UI
-  const [predefinedIntents, setPredefinedIntents] = useState<string[]>([]);
-  const [predefinedSlotKeys, setPredefinedSlotKeys] = useState<string[]>([]);
+  // 旧形式のintent.txt・slot.txt・speakers.txtから読み込んだ場合のファイル名
+  const [legacyProjectFiles, setLegacyProjectFiles] = useState<string[]>([]);
+  // project.jsonを読み取れなかった場合の内容（壊れたファイルを上書きしないよう保存を止める）
+  const [projectConfigError, setProjectConfigError] = useState<string | null>(null);
+  const predefinedIntents = useMemo(() => getIntentNames(projectConfig), [projectConfig]);
+  const predefinedSlotKeys = useMemo(() => getSlotKeys(projectConfig), [projectConfig]);
+  const dialogueActDefinitions = useMemo(() => getDialogueActDefinitions(projectConfig), [projectConfig]);
+  const conversationLabelDefinitions = useMemo(() => getConversationLabelDefinitions(projectConfig), [projectConfig]);
+  const intentOptions = useMemo(() => projectConfig.intents || [], [projectConfig]);
+  const speakerRoles = useMemo(
+    () => (projectConfig.speakers && projectConfig.speakers.length > 0 ? projectConfig.speakers : DEFAULT_SPEAKER_ROLES),
+    [projectConfig]
+  );
   const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [showShortcutHelp, setShowShortcutHelp] = useState(false);
+  const [showPreprocessDialog, setShowPreprocessDialog] = useState(false);
+  const [scanIssues, setScanIssues] = useState<ScanIssue[]>([]);
+  const [showScanReport, setShowScanReport] = useState(false);
+  const [showLayoutDialog, setShowLayoutDialog] = useState(false);
+  const [showProjectSettings, setShowProjectSettings] = useState(false);
+  const [showLogAlignment, setShowLogAlignment] = useState(false);
+
+  // ユーザー設定（キーバインドなど）
+  const [userSettings, setUserSettings] = useState<UserSettings>(loadUserSettings);
+
+  const handleUserSettingsChange = (settings: UserSettings) => {
+    setUserSettings(settings);
+    saveUserSettings(settings);
+
+    // ステレオ表示の切り替えで表示する音声を読み込み直す
+    const conversation = conversations[currentIndex];
+    if (settings.stereoView !== userSettings.stereoView && conversation && currentAnnotation) {
+      const source = getAudioSource(conversation, currentAnnotation, settings.stereoView);
+      if (source !== audioSource) {
+        loadAudioSource(conversation, source);
+        resetCurrentAnnotation({ ...currentAnnotation, audioSource: source });
+      }
+    }
+  };
 
   // Progress tracking
   const progress: AnnotationProgress = {
     total: conversations.length,
-    completed: annotations.filter(annotation =>
-      // インテントが設定されているか、ターンにインテントが設定されているものをカウント
-      annotation.intent ||
-      annotation.turns.some(turn => turn.intent)
-    ).length
+    completed: annotations.filter(annotation => isAnnotationCompleted(annotation, projectConfig.required)).length
   };
 
   const theme = useTheme();
@@ -88,59 +225,161 @@ const App: React.FC = () => {
   const isMediumScreen = useMediaQuery(theme.breakpoints.up('lg'));
 
   // Handle directory selection
+  // project.jsonで省略した項目は従来の構成を使う
+  const directoryLayout = useMemo<DirectoryLayout>(
+    () => ({ ...DEFAULT_DIRECTORY_LAYOUT, ...projectConfig.layout }),
+    [projectConfig]
+  );
+
+  // スキャン結果の会話と保存済みのアノテーションを読み込む
+  const applyScanResult = async (
+    dirHandle: FileSystemDirectoryHandle,
+    { conversations: conversationData, issues }: ScanResult,
+    config: ProjectConfig
+  ) => {
+    clearHistory();
+    setConversations(conversationData);
+    setScanIssues(issues);
+    if (issues.length > 0) {
+      enqueueSnackbar(`ディレクトリの読み込みで${issues.length}件の問題が見つかりました（スキャンレポートを確認してください）`, {
+        variant: 'warning',
+        autoHideDuration: 4000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+    }
+
+    // 既存のアノテーションを読み込む
+    const loadedAnnotations: DialogueAnnotation[] = [];
+    for (const conversation of conversationData) {
+      const savedAnnotation = await loadAnnotation(
+        conversation.customerId,
+        conversation.conversationId,
+        dirHandle
+      );
+      if (savedAnnotation) {
+        loadedAnnotations.push(savedAnnotation);
+      }
+    }
+    setAnnotations(loadedAnnotations);
+
+    if (conversationData.length > 0) {
+      setCurrentIndex(0);
+      await loadConversation(conversationData[0], config, loadedAnnotations);
+    }
+  };
+
   const handleDirectorySelect = async () => {
     try {
       const dirHandle = await (window as any).showDirectoryPicker();
       setDirectoryHandle(dirHandle);
-      const conversationData = await scanDirectory(dirHandle);
-      setConversations(conversationData);
-
-      // intent.txtとslot.txtの読み込み
-      try {
-        const intentFileHandle = await dirHandle.getFileHandle('intent.txt');
-        const slotFileHandle = await dirHandle.getFileHandle('slot.txt');
 
-        const intentFile = await intentFileHandle.getFile();
-        const slotFile = await slotFileHandle.getFile();
+      // ディレクトリ構成・インテント・スロット・話者ロールはproject.jsonで指定する（旧形式のファイルも読み込む）
+      const { config, legacyFiles, error } = await loadProjectConfig(dirHandle);
+      setProjectConfig(config);
+      setLegacyProjectFiles(legacyFiles);
+      setProjectConfigError(error || null);
+      if (error) {
+        enqueueSnackbar(`${error}。既定の設定で読み込みます`, {
+          variant: 'error',
+          autoHideDuration: 6000,
+          anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+        });
+      }
+      const scanResult = await scanDirectory(dirHandle, { ...DEFAULT_DIRECTORY_LAYOUT, ...config.layout });
 
-        const intents = await readTextFile(intentFile);
-        const slots = await readTextFile(slotFile);
+      await applyScanResult(dirHandle, scanResult, config);
+    } catch (error) {
+      console.error('Error selecting directory:', error);
+    }
+  };
 
-        setPredefinedIntents(intents);
-        setPredefinedSlotKeys(slots);
+  // ディレクトリ構成ダイアログでプレビューした結果で読み込み直す
+  const handleLayoutApply = async (layout: DirectoryLayout, scanResult: ScanResult, saveToProject: boolean) => {
+    if (!directoryHandle) return;
+    const config = { ...projectConfig, layout };
+    setProjectConfig(config);
+    if (saveToProject && projectConfigError) {
+      enqueueSnackbar('project.jsonを読み取れなかったため保存しません（ファイルを修正してください）', {
+        variant: 'error',
+        autoHideDuration: 4000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+    } else if (saveToProject) {
+      try {
+        await saveProjectConfig(directoryHandle, config);
+        setLegacyProjectFiles([]);
       } catch (error) {
-        console.log('intent.txt or slot.txt not found in directory');
-      }
-
-      // 既存のアノテーションを読み込む
-      const loadedAnnotations: DialogueAnnotation[] = [];
-      for (const conversation of conversationData) {
-        const savedAnnotation = await loadAnnotation(
-          conversation.customerId,
-          conversation.conversationId,
-          dirHandle
-        );
-        if (savedAnnotation) {
-          loadedAnnotations.push(savedAnnotation);
-        }
+        console.error('Failed to save project.json:', error);
+        enqueueSnackbar('project.jsonを保存できませんでした', {
+          variant: 'error',
+          autoHideDuration: 3000,
+          anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+        });
       }
-      setAnnotations(loadedAnnotations);
+    }
+    await applyScanResult(directoryHandle, scanResult, config);
+  };
 
-      if (conversationData.length > 0) {
-        setCurrentIndex(0);
-        await loadConversation(conversationData[0]);
-      }
+  const handleProjectConfigSave = async (config: ProjectConfig) => {
+    setProjectConfig(config);
+    if (!directoryHandle || projectConfigError) return;
+    try {
+      await saveProjectConfig(directoryHandle, config);
+      setLegacyProjectFiles([]);
+      enqueueSnackbar('project.jsonを保存しました', {
+        variant: 'success',
+        autoHideDuration: 2000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
     } catch (error) {
-      console.error('Error selecting directory:', error);
+      console.error('Failed to save project.json:', error);
+      enqueueSnackbar('project.jsonを保存できませんでした', {
+        variant: 'error',
+        autoHideDuration: 3000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
     }
   };
 
   // Load conversation data
-  const loadConversation = async (conversation: ConversationData) => {
+  // 会話で表示する音声を決める
+  // 区間の時刻は読み込んだ音声を基準にしているため、ターンがある会話は保存時の音声に固定する
+  const getAudioSource = (
+    conversation: ConversationData,
+    annotation: DialogueAnnotation | undefined,
+    stereoView: boolean
+  ): AudioSource => {
+    if (!conversation.originalAudioFileHandle) return 'processed';
+    if (!hasProcessedAudio(conversation)) return 'original';
+    if (annotation && annotation.turns.length > 0) return annotation.audioSource || 'processed';
+    return stereoView ? 'original' : 'processed';
+  };
+
+  const loadAudioSource = async (conversation: ConversationData, source: AudioSource) => {
+    const audioFile = source === 'original' && conversation.originalAudioFileHandle
+      ? await loadAudioFile(conversation.originalAudioFileHandle)
+      : await loadProcessedAudioFile(conversation);
+    setAudioFile(audioFile);
+    setAudioSource(source);
+  };
+
+  // ディレクトリを読み込んだ直後はステートがまだ更新されていないため、読み込んだ設定とアノテーションを渡す
+  const loadConversation = async (
+    conversation: ConversationData,
+    config: ProjectConfig = projectConfig,
+    knownAnnotations: DialogueAnnotation[] = annotations
+  ) => {
     try {
+      const existingAnnotation = knownAnnotations.find(
+        a => a.customerId === conversation.customerId &&
+          a.conversationId === conversation.conversationId
+      );
+
       // Load audio file
-      const audioFile = await loadAudioFile(conversation.audioFileHandle);
-      setAudioFile(audioFile);
+      const source = getAudioSource(conversation, existingAnnotation, userSettings.stereoView);
+      await loadAudioSource(conversation, source);
+
+      const audioOffset = await resolveAudioOffset(conversation, existingAnnotation, config);
 
       // Load conversation log
       const logFile = await loadConversationLogFile(conversation.conversationLogHandle);
@@ -148,20 +387,17 @@ const App: React.FC = () => {
       setConversationLogs(logs);
 
       // Initialize or load annotation
-      const existingAnnotation = annotations.find(
-        a => a.customerId === conversation.customerId &&
-          a.conversationId === conversation.conversationId
-      );
-
       if (existingAnnotation) {
-        setCurrentAnnotation(existingAnnotation);
+        resetCurrentAnnotation({ ...existingAnnotation, audioSource: source, audioOffset });
         setCurrentTurnIndex(0);
       } else {
-        setCurrentAnnotation({
+        resetCurrentAnnotation({
           customerId: conversation.customerId,
           conversationId: conversation.conversationId,
           turns: [],
-          dialogueSlots: []
+          dialogueSlots: [],
+          audioSource: source,
+          audioOffset
         });
       }
     } catch (error) {
@@ -169,12 +405,50 @@ const App: React.FC = () => {
     }
   };
 
+  // 処理済み音声が無く、ブラウザ上での前処理が必要な会話
+  const preprocessTargets = useMemo(
+    () => conversations.filter(conversation => !hasProcessedAudio(conversation)),
+    [conversations]
+  );
+
+  // 前処理した音声を会話に反映し、表示中の会話であれば読み込み直す
+  const handlePreprocessComplete = async (results: PreprocessResult[]) => {
+    const isSameConversation = (a: ConversationData, b: ConversationData) =>
+      a.customerId === b.customerId && a.conversationId === b.conversationId;
+
+    const updatedConversations = conversations.map(conversation => {
+      const result = results.find(r => isSameConversation(r.conversation, conversation));
+      if (!result) return conversation;
+      return result.fileHandle
+        ? { ...conversation, audioFileHandle: result.fileHandle, processedAudioFile: undefined }
+        : { ...conversation, processedAudioFile: result.file };
+    });
+    setConversations(updatedConversations);
+
+    enqueueSnackbar(`${results.length}件の音声を前処理しました`, {
+      variant: 'success',
+      autoHideDuration: 2000,
+      anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+    });
+
+    const conversation = updatedConversations[currentIndex];
+    if (!conversation || !currentAnnotation || !results.some(r => isSameConversation(r.conversation, conversation))) {
+      return;
+    }
+    const source = getAudioSource(conversation, currentAnnotation, userSettings.stereoView);
+    if (source !== audioSource) {
+      await loadAudioSource(conversation, source);
+    }
+    const audioOffset = await resolveAudioOffset(conversation, currentAnnotation, projectConfig);
+    resetCurrentAnnotation({ ...currentAnnotation, audioSource: source, audioOffset });
+  };
+
   // Handle intent/slot list file upload
   const handleIntentFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       const intents = await readTextFile(file);
-      setPredefinedIntents(intents);
+      setProjectConfig(prev => ({ ...prev, intents: intents.map(name => ({ name })) }));
     }
   };
 
@@ -182,56 +456,85 @@ const App: React.FC = () => {
     const file = event.target.files?.[0];
     if (file) {
       const slotKeys = await readTextFile(file);
-      setPredefinedSlotKeys(slotKeys);
+      setProjectConfig(prev => ({ ...prev, slots: slotKeys.map(key => ({ key })) }));
     }
   };
 
+  // 保存済みのアノテーションに編集中の内容を重ねたもの（更新日時は最後に保存した日時のままにする）
+  const latestAnnotations = useMemo(() => {
+    if (!currentAnnotation) return annotations;
+    const saved = annotations.find(a =>
+      a.customerId === currentAnnotation.customerId && a.conversationId === currentAnnotation.conversationId
+    );
+    const current = saved?.updatedAt ? { ...currentAnnotation, updatedAt: saved.updatedAt } : currentAnnotation;
+    return saved ? annotations.map(a => (a === saved ? current : a)) : [...annotations, current];
+  }, [annotations, currentAnnotation]);
+
+  // 印で絞り込んでいる場合は、その印が付いた会話だけを前後の移動の対象にする
+  const findNavigableIndex = (direction: 'prev' | 'next') => {
+    const step = direction === 'next' ? 1 : -1;
+    for (let index = currentIndex + step; index >= 0 && index < conversations.length; index += step) {
+      if (!flagFilter) return index;
+      const annotation = findConversationAnnotation(latestAnnotations, conversations[index]);
+      if (getAnnotationFlags(annotation).includes(flagFilter)) return index;
+    }
+    return -1;
+  };
+
+  // 会話一覧から会話を開く（開いている会話は先に保存する）
+  const handleConversationSelect = async (index: number) => {
+    if (index === currentIndex || !conversations[index]) return;
+    await autoSaveAnnotation();
+    setCurrentIndex(index);
+    await loadConversation(conversations[index]);
+  };
+
   // Navigation handlers
   const handleNext = async () => {
-    if (currentIndex < conversations.length - 1) {
+    const nextIndex = findNavigableIndex('next');
+    if (nextIndex >= 0) {
       // 現在のアノテーションを保存
       await autoSaveAnnotation();
       // 次の会話へ移動
-      setCurrentIndex(currentIndex + 1);
+      setCurrentIndex(nextIndex);
       // 次の会話データを読み込む
-      await loadConversation(conversations[currentIndex + 1]);
+      await loadConversation(conversations[nextIndex]);
     }
   };
 
   const handlePrevious = async () => {
-    if (currentIndex > 0) {
+    const previousIndex = findNavigableIndex('prev');
+    if (previousIndex >= 0) {
       // 現在のアノテーションを保存
       await autoSaveAnnotation();
       // 前の会話へ移動
-      setCurrentIndex(currentIndex - 1);
+      setCurrentIndex(previousIndex);
       // 前の会話データを読み込む
-      await loadConversation(conversations[currentIndex - 1]);
+      await loadConversation(conversations[previousIndex]);
     }
   };
   // Annotation handlers
-  const handleMarkerSet = (segments: Segment[]) => {
+  const handleMarkerSet = (turnSegments: Segment[][], asDraft: boolean = false) => {
     if (!currentAnnotation) return;
 
-    // 既存のターンを保持
-    const existingTurns = currentAnnotation.turns.map(turn => ({
-      ...turn,
-      segments: [{ start: turn.segments[0].start, end: turn.segments[0].end }]
-    }));
+    // 新しいセグメントに既存のターンを対応付ける（インテントやスロットを引き継ぐ）
+    const matchedTurns = matchTurnsToSegments(currentAnnotation.turns, turnSegments);
+    const newTurns: Turn[] = turnSegments.map((segments, index) => {
+      // ステレオ表示でレーンを指定した区間は、チャンネルに対応する話者ロールを設定する
+      const channel = segments.find(segment => segment.channel !== undefined)?.channel;
+      const impliedSpeaker = channel !== undefined ? speakerRoles[channel] : undefined;
 
-    // 新しいセグメントに基づいてターンを更新
-    const newTurns = segments.map((segment, index) => {
-      const existingTurn = existingTurns[index] || {
+      const existingTurn = matchedTurns[index] || {
         segments: [],
         intent: '',
-        slots: []
+        slots: [],
+        ...(asDraft ? { isDraft: true } : {})
       };
 
       return {
         ...existingTurn,
-        segments: [{
-          start: segment.start,
-          end: segment.end
-        }]
+        ...(impliedSpeaker && !existingTurn.speaker ? { speaker: impliedSpeaker } : {}),
+        segments: segments.map(segment => ({ ...segment }))
       };
     });
 
@@ -262,7 +565,222 @@ const App: React.FC = () => {
         turns: newTurns
       };
     });
-  }, []);
+  }, [currentAnnotation, setCurrentAnnotation]);
+
+  const handleSpeakerChange = (speaker: string, turnIndex: number) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const newTurns = [...prev.turns];
+      newTurns[turnIndex] = {
+        ...newTurns[turnIndex],
+        speaker: speaker || undefined
+      };
+      return {
+        ...prev,
+        turns: newTurns
+      };
+    });
+  };
+
+  // 書き起こしを編集したら、スロットの範囲を新しい書き起こしに合わせる
+  const handleTranscriptChange = (transcript: string, turnIndex: number) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const newTurns = [...prev.turns];
+      const turn = newTurns[turnIndex];
+      newTurns[turnIndex] = {
+        ...turn,
+        transcript,
+        slots: relocateSlotSpans(
+          turn.slots,
+          transcript,
+          getLogRowRanges(transcript, conversationLogs, turn.logRows || [])
+        )
+      };
+      return {
+        ...prev,
+        turns: newTurns
+      };
+    });
+  };
+
+  // ターンのインテントで割り当てられるスロット名（想定しているものを先頭に並べる）
+  const getSpanSlotKeys = (turn: Turn) => {
+    const intentDefinition = mergeIntentDefinitions(
+      getTurnIntents(turn).map(name => getIntentDefinition(projectConfig.intents, name))
+    );
+    const keys = Array.from(new Set([...predefinedSlotKeys, ...turn.slots.map(slot => slot.key)]));
+    return sortSlotKeysForIntent(keys, intentDefinition, projectConfig.slotConstraintPolicy);
+  };
+
+  // 書き起こしの範囲をスロットに割り当てる（範囲の文字列をスロットの値にし、既にあるスロットは値と範囲を置き換える）
+  const handleSlotSpanAssign = (key: string, span: SlotSpan, turnIndex: number) => {
+    const turn = currentAnnotation?.turns[turnIndex];
+    if (!turn) return;
+    const value = (turn.transcript || '').slice(span.start, span.end);
+
+    const overlapping = findOverlappingSpanSlot(turn.slots, span, key);
+    if (overlapping) {
+      enqueueSnackbar(`スロット${overlapping.key}の範囲と重なっています`, {
+        variant: 'warning',
+        autoHideDuration: 3000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+      return;
+    }
+
+    const definition = projectConfig.slots?.find(slot => slot.key === key);
+    const result = validateSlotValue(definition, value, currentAnnotation?.referenceDate || undefined);
+    if (result.error) {
+      enqueueSnackbar(`${key}: ${result.error}`, {
+        variant: 'error',
+        autoHideDuration: 3000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+      return;
+    }
+
+    const existing = turn.slots.find(slot => slot.key === key);
+    const { normalized: _normalized, ...rest } = existing || { key };
+    const newSlot: SlotValue = {
+      ...rest,
+      value,
+      ...(result.normalized ? { normalized: result.normalized } : {}),
+      span
+    };
+    handleTurnSlotsChange(
+      existing ? turn.slots.map(slot => (slot === existing ? newSlot : slot)) : [...turn.slots, newSlot],
+      turnIndex
+    );
+  };
+
+  // スロットの範囲だけを外す（値は残す）
+  const handleSlotSpanRemove = (key: string, turnIndex: number) => {
+    const turn = currentAnnotation?.turns[turnIndex];
+    if (!turn) return;
+    handleTurnSlotsChange(
+      turn.slots.map(slot => {
+        if (slot.key !== key) return slot;
+        const { span: _span, ...rest } = slot;
+        return rest;
+      }),
+      turnIndex
+    );
+  };
+
+  const handleConversationIntentChange = (intent: string | undefined) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const { intent: _previous, ...rest } = prev;
+      return intent ? { ...rest, intent } : rest;
+    });
+  };
+
+  const handleConversationLabelChange = (key: string, value: ConversationLabelValue | undefined) => {
+    setCurrentAnnotation(prev => prev && setConversationLabel(prev, key, value));
+  };
+
+  const handleTurnReviewNotesChange = (notes: { comment?: string; flags?: ReviewFlag[] }, turnIndex: number) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const newTurns = [...prev.turns];
+      newTurns[turnIndex] = setReviewNotes(newTurns[turnIndex], notes);
+      return {
+        ...prev,
+        turns: newTurns
+      };
+    });
+  };
+
+  const handleConversationReviewNotesChange = (notes: { comment?: string; flags?: ReviewFlag[] }) => {
+    setCurrentAnnotation(prev => prev && setReviewNotes(prev, notes));
+  };
+
+  const handleDialogueActsChange = (acts: DialogueAct[], turnIndex: number) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const newTurns = [...prev.turns];
+      const { acts: _previous, ...rest } = newTurns[turnIndex];
+      newTurns[turnIndex] = acts.length > 0 ? { ...rest, acts } : rest;
+      return {
+        ...prev,
+        turns: newTurns
+      };
+    });
+  };
+
+  // 対話状態の補正を設定する（operationがnullの場合は取り消す）
+  const handleStateOperationChange = (turnIndex: number, key: string, operation: DialogueStateOperation | null) => {
+    setCurrentAnnotation(prev => {
+      if (!prev) return prev;
+      const newTurns = [...prev.turns];
+      newTurns[turnIndex] = setStateOperation(newTurns[turnIndex], key, operation);
+      return {
+        ...prev,
+        turns: newTurns
+      };
+    });
+  };
+
+  // 対話ログの行をターンに紐付ける（turnIndexがnullの場合は解除）
+  const handleLogRowLink = (row: number, turnIndex: number | null) => {
+    setCurrentAnnotation(prev => prev && {
+      ...prev,
+      turns: setLogRowLink(prev.turns, row, turnIndex, conversationLogs)
+    });
+  };
+
+  // 対話ログの行の紐付けボタンで、選択中のターンへの紐付けを切り替える
+  const handleLogRowLinkToggle = (row: number) => {
+    if (!currentAnnotation || currentAnnotation.turns.length === 0) {
+      enqueueSnackbar('紐付けるターンがありません。先に波形上でターンを作成してください', {
+        variant: 'info',
+        autoHideDuration: 3000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+      return;
+    }
+    handleLogRowLink(row, logRowTurns.get(row) === currentTurnIndex ? null : currentTurnIndex);
+  };
+
+  // 対話ログの行のクリックで、紐付いているターンを選択し、その行の位置へ移動する
+  const handleLogRowSelect = (row: number) => {
+    const turnIndex = logRowTurns.get(row);
+    if (turnIndex !== undefined) {
+      setCurrentTurnIndex(turnIndex);
+    }
+    const span = logRowSpans[row];
+    if (span) {
+      playbackSync.requestSeek(span.start);
+    }
+  };
+
+  // 対話ログの行から作ったターンを下書きとして追加し、既存のターンと合わせて時間順に並べる
+  const handleLogAlignmentApply = (rows: AlignedRow[]) => {
+    if (!currentAnnotation) return;
+    const newTurns: Turn[] = rows.map(row => {
+      const speaker = resolveSpeakerRole(row.speaker, speakerRoles);
+      return {
+        segments: [row.segment],
+        intent: '',
+        slots: [],
+        isDraft: true,
+        ...(speaker ? { speaker } : {}),
+        transcript: row.text,
+        logRows: [row.row]
+      };
+    });
+    setCurrentAnnotation({
+      ...currentAnnotation,
+      turns: [...currentAnnotation.turns, ...newTurns].sort((a, b) => (a.segments[0]?.start ?? 0) - (b.segments[0]?.start ?? 0))
+    });
+    setShowLogAlignment(false);
+    enqueueSnackbar(`${newTurns.length}個の下書きターンを追加しました`, {
+      variant: 'success',
+      autoHideDuration: 3000,
+      anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+    });
+  };
 
   const handleTurnSlotsChange = (slots: SlotValue[], turnIndex: number) => {
     if (!currentAnnotation) return;
@@ -274,8 +792,8 @@ const App: React.FC = () => {
       slots
     };
 
-    // 対話全体のスロットを更新（ターンのスロットと同期を保つ）
-    const allTurnSlots = newTurns.flatMap(turn => turn.slots);
+    // 対話全体のスロットを更新（ターンのスロットと同期を保つ、書き起こし上の範囲はターンごとのものなので含めない）
+    const allTurnSlots = newTurns.flatMap(turn => turn.slots.map(({ span: _span, ...slot }) => slot));
     const uniqueDialogueSlots = allTurnSlots.filter((slot, index, self) =>
       index === self.findIndex(s => s.key === slot.key && s.value === slot.value)
     );
@@ -301,7 +819,7 @@ const App: React.FC = () => {
     if (!currentAnnotation) return;
 
     // 現在のアノテーションを保存
-    await saveCurrentAnnotation();
+    const savedAnnotation = await saveCurrentAnnotation() || currentAnnotation;
 
     // annotationsステートを更新
     const newAnnotations = [...annotations];
@@ -311,21 +829,66 @@ const App: React.FC = () => {
     );
 
     if (index >= 0) {
-      newAnnotations[index] = currentAnnotation;
+      newAnnotations[index] = savedAnnotation;
     } else {
-      newAnnotations.push(currentAnnotation);
+      newAnnotations.push(savedAnnotation);
     }
     setAnnotations(newAnnotations);
     setShowSaveDialog(true);
+
+    const missingFields = findMissingRequiredFields(currentAnnotation, projectConfig.required);
+    if (missingFields.length > 0) {
+      enqueueSnackbar(`必須項目が未入力です: ${missingFields.slice(0, 3).join('、')}${missingFields.length > 3 ? ` ほか${missingFields.length - 3}件` : ''}`, {
+        variant: 'warning',
+        autoHideDuration: 4000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+    }
   };
 
-  const handleExport = () => {
-    const csv = exportAnnotations(annotations);
+  // インテントで必須のスロットのうち、ターンで入力されていないもの
+  const getMissingRequiredSlots = (turn: Turn) =>
+    Array.from(new Set(
+      findMissingRequiredSlotsByIntent(projectConfig.intents, getTurnIntents(turn), turn.slots).map(({ key }) => key)
+    ));
+
+  // project.jsonでタイムスタンプの基準を指定している場合はユーザー設定より優先する
+  const exportTimeBase = projectConfig.export?.timeBase || userSettings.exportTimeBase;
+
+  const handleExport = async () => {
+    // 開いていない会話は音声オフセットが保存されていない場合があるため、会話ごとに決める
+    const resolvedAnnotations: DialogueAnnotation[] = [];
+    for (const annotation of annotations) {
+      const conversation = conversations.find(
+        c => c.customerId === annotation.customerId && c.conversationId === annotation.conversationId
+      );
+      const audioOffset = conversation
+        ? await resolveAudioOffset(conversation, annotation, projectConfig)
+        : annotation.audioOffset;
+      resolvedAnnotations.push(audioOffset !== undefined ? { ...annotation, audioOffset } : annotation);
+    }
+
+    let csv: string;
+    try {
+      csv = exportAnnotations(resolvedAnnotations, exportTimeBase, {
+        intentLabel: projectConfig.export?.intentLabel,
+        multiIntent: projectConfig.export?.multiIntent,
+        bioTags: projectConfig.export?.bioTags
+      }, projectConfig);
+    } catch (error) {
+      console.error('Failed to export annotations:', error);
+      enqueueSnackbar(error instanceof Error ? error.message : 'エクスポートに失敗しました', {
+        variant: 'error',
+        autoHideDuration: 5000,
+        anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+      });
+      return;
+    }
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'annotations.csv';
+    a.download = projectConfig.export?.fileName || DEFAULT_EXPORT_FILE_NAME;
     a.click();
     URL.revokeObjectURL(url);
   };
@@ -335,6 +898,7 @@ const App: React.FC = () => {
     if (!currentAnnotation || !directoryHandle) return;
 
     const annotationData: DialogueAnnotation = {
+      ...currentAnnotation,
       customerId: currentAnnotation.customerId,
       conversationId: currentAnnotation.conversationId,
       turns: currentAnnotation.turns,
@@ -342,59 +906,12 @@ const App: React.FC = () => {
     };
 
     try {
-      await saveAnnotation(currentAnnotation.customerId, currentAnnotation.conversationId, annotationData, directoryHandle);
+      const savedAnnotation = await saveAnnotation(currentAnnotation.customerId, currentAnnotation.conversationId, annotationData, directoryHandle);
       console.log('Annotation saved successfully');
+      return savedAnnotation;
     } catch (error) {
       console.error('Failed to save annotation:', error);
-    }
-  };
-
-  // 会話を切り替える際の処理を更新
-  const handleNavigateConversation = async (direction: 'prev' | 'next') => {
-    if (!directoryHandle) return;
-
-    if (currentAnnotation) {
-      // 現在のアノテーションを保存
-      await saveCurrentAnnotation();
-
-      // annotationsステートを更新
-      const newAnnotations = [...annotations];
-      const index = newAnnotations.findIndex(
-        a => a.customerId === currentAnnotation.customerId &&
-          a.conversationId === currentAnnotation.conversationId
-      );
-      if (index >= 0) {
-        newAnnotations[index] = currentAnnotation;
-      } else {
-        newAnnotations.push(currentAnnotation);
-      }
-      setAnnotations(newAnnotations);
-    }
-
-    // インデックスを更新
-    const newIndex = direction === 'next' ? currentIndex + 1 : currentIndex - 1;
-
-    if (newIndex >= 0 && newIndex < conversations.length) {
-      setCurrentIndex(newIndex);
-      await loadConversation(conversations[newIndex]);
-
-      // 新しいファイルのアノテーションを読み込む
-      const savedAnnotation = await loadAnnotation(
-        conversations[newIndex].customerId,
-        conversations[newIndex].conversationId,
-        directoryHandle
-      );
-      if (savedAnnotation) {
-        setCurrentAnnotation(savedAnnotation);
-        setCurrentTurnIndex(0);
-      } else {
-        setCurrentAnnotation({
-          customerId: conversations[newIndex].customerId,
-          conversationId: conversations[newIndex].conversationId,
-          turns: [],
-          dialogueSlots: []
-        });
-      }
+      return undefined;
     }
   };
 
@@ -419,6 +936,100 @@ const App: React.FC = () => {
     }
   };
 
+  // ターンから区間を1つ削除（最後の区間の場合はターンごと削除）
+  const handleDeleteSegment = (turnIndex: number, segmentIndex: number) => {
+    if (!currentAnnotation) return;
+
+    const turn = currentAnnotation.turns[turnIndex];
+    if (turn.segments.length <= 1) {
+      handleDeleteTurn(turnIndex);
+      return;
+    }
+
+    const newTurns = [...currentAnnotation.turns];
+    newTurns[turnIndex] = {
+      ...turn,
+      segments: turn.segments.filter((_, i) => i !== segmentIndex)
+    };
+
+    setCurrentAnnotation({
+      ...currentAnnotation,
+      turns: newTurns
+    });
+  };
+
+  // 会話の移動・元に戻す・やり直しのキーボードショートカット
+  // （再生やマーカー操作のショートカットはWaveformComponent側で登録）
+  useKeyboardShortcuts(userSettings.keyBindings, {
+    previousConversation: handlePrevious,
+    nextConversation: handleNext,
+    undo,
+    redo,
+    showShortcutHelp: () => setShowShortcutHelp(true)
+  }, !showShortcutHelp);
+
+  // 元に戻した結果ターン数が減った場合は選択中のターンを範囲内に収める
+  useEffect(() => {
+    if (!currentAnnotation) return;
+    if (currentTurnIndex >= currentAnnotation.turns.length) {
+      setCurrentTurnIndex(Math.max(0, currentAnnotation.turns.length - 1));
+    }
+  }, [currentAnnotation, currentTurnIndex]);
+
+  // 下書きターン（自動区間検出の提案）を承認
+  const handleAcceptDraftTurn = (index: number) => {
+    if (!currentAnnotation) return;
+
+    const newTurns = [...currentAnnotation.turns];
+    const { isDraft, ...acceptedTurn } = newTurns[index];
+    newTurns[index] = acceptedTurn;
+
+    setCurrentAnnotation({
+      ...currentAnnotation,
+      turns: newTurns
+    });
+  };
+
+  const handleAcceptAllDraftTurns = () => {
+    if (!currentAnnotation) return;
+
+    setCurrentAnnotation({
+      ...currentAnnotation,
+      turns: currentAnnotation.turns.map(({ isDraft, ...turn }) => turn)
+    });
+  };
+
+  const handleDiscardAllDraftTurns = () => {
+    if (!currentAnnotation) return;
+
+    setCurrentAnnotation({
+      ...currentAnnotation,
+      turns: currentAnnotation.turns.filter(turn => !turn.isDraft)
+    });
+    setCurrentTurnIndex(0);
+  };
+
+  // 波形に渡すセグメントと下書きターンの位置（毎レンダーで配列を作り直すと波形が再生成されるためメモ化）
+  const waveformSegments = useMemo(
+    () => currentAnnotation?.turns.map(turn => turn.segments) || [],
+    [currentAnnotation]
+  );
+  const existingTurnSegments = useMemo(() => waveformSegments.flat(), [waveformSegments]);
+  const turnColors = useMemo(
+    () => currentAnnotation?.turns.map(turn => getSpeakerColor(turn.speaker, speakerRoles)) || [],
+    [currentAnnotation, speakerRoles]
+  );
+  const turnFlags = useMemo(
+    () => currentAnnotation?.turns.map(turn => turn.flags) || [],
+    [currentAnnotation]
+  );
+  const draftSegmentIndices = useMemo(
+    () => (currentAnnotation?.turns || [])
+      .map((turn, index) => (turn.isDraft ? index : -1))
+      .filter(index => index >= 0),
+    [currentAnnotation]
+  );
+
   // ターン一覧のUIコンポーネント
   const TurnList: React.FC = () => {
     if (!currentAnnotation) return null;
@@ -434,9 +1045,32 @@ const App: React.FC = () => {
         display: 'flex',
         flexDirection: 'column'
       }}>
-        <Typography variant="h6" gutterBottom sx={{ fontSize: '1.5rem', mb: 2 }}>
-          ターン一覧: {currentAnnotation.turns.length}個
-        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+          <Typography variant="h6" sx={{ fontSize: '1.5rem', flex: 1 }}>
+            ターン一覧: {currentAnnotation.turns.length}個
+            {draftSegmentIndices.length > 0 && `（下書き ${draftSegmentIndices.length}個）`}
+          </Typography>
+          {draftSegmentIndices.length > 0 && (
+            <>
+              <Button
+                variant="outlined"
+                color="success"
+                startIcon={<CheckIcon />}
+                onClick={handleAcceptAllDraftTurns}
+              >
+                下書きをすべて承認
+              </Button>
+              <Button
+                variant="outlined"
+                color="warning"
+                startIcon={<DeleteIcon />}
+                onClick={handleDiscardAllDraftTurns}
+              >
+                下書きをすべて破棄
+              </Button>
+            </>
+          )}
+        </Box>
 
         <Box sx={{ flex: 1, overflow: 'auto' }}>
           <Stack spacing={2}>
@@ -444,6 +1078,18 @@ const App: React.FC = () => {
               <Paper
                 key={index}
                 elevation={1}
+                // 対話ログの行をドロップして紐付ける
+                onDragOver={(e) => {
+                  if (e.dataTransfer.types.includes(LOG_ROW_DRAG_TYPE)) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  const row = e.dataTransfer.getData(LOG_ROW_DRAG_TYPE);
+                  if (row) {
+                    e.preventDefault();
+                    handleLogRowLink(Number(row), index);
+                    setCurrentTurnIndex(index);
+                  }
+                }}
                 sx={{
                   bgcolor: index === currentTurnIndex ? 'rgba(25, 118, 210, 0.08)' : 'background.paper',
                   '&:hover': {
@@ -468,71 +1114,158 @@ const App: React.FC = () => {
                     <Typography variant="h6" sx={{ fontSize: '1.4rem', fontWeight: 'bold', minWidth: '120px' }}>
                       ターン {index + 1}
                     </Typography>
+                    {turn.isDraft && (
+                      <Chip label="下書き" color="warning" size="small" />
+                    )}
+                    {(turn.flags || []).map(flag => (
+                      <Chip
+                        key={flag}
+                        label={getReviewFlagDefinition(flag).label}
+                        size="small"
+                        sx={{ bgcolor: getReviewFlagDefinition(flag).color, color: '#fff' }}
+                      />
+                    ))}
+                    {turn.comment && (
+                      <Tooltip title={turn.comment}>
+                        <CommentIcon color="action" fontSize="small" />
+                      </Tooltip>
+                    )}
+                    <TextField
+                      select
+                      size="small"
+                      label="話者"
+                      value={turn.speaker || ''}
+                      onChange={(e) => handleSpeakerChange(e.target.value, index)}
+                      onClick={(e) => e.stopPropagation()}
+                      sx={{
+                        minWidth: '140px',
+                        '& .MuiSelect-select': { color: getSpeakerColor(turn.speaker, speakerRoles) }
+                      }}
+                    >
+                      <MenuItem value="">
+                        <em>未設定</em>
+                      </MenuItem>
+                      {/* speakers.txtに無いロールが保存されている場合もそのまま表示する */}
+                      {[...speakerRoles, ...(turn.speaker && !speakerRoles.includes(turn.speaker) ? [turn.speaker] : [])].map(role => (
+                        <MenuItem key={role} value={role} sx={{ color: getSpeakerColor(role, speakerRoles) }}>
+                          {role}
+                        </MenuItem>
+                      ))}
+                    </TextField>
                     <Typography color="success.main" sx={{ fontSize: '1.1rem', minWidth: '150px' }}>
-                      開始: {turn.segments[0].start.toFixed(2)}秒
+                      開始: {turn.segments.length > 0 ? `${turn.segments[0].start.toFixed(2)}秒` : '-'}
                     </Typography>
                     <Typography color="error.main" sx={{ fontSize: '1.1rem', minWidth: '150px' }}>
-                      終了: {turn.segments[0].end.toFixed(2)}秒
+                      終了: {turn.segments.length > 0 ? `${turn.segments[turn.segments.length - 1].end.toFixed(2)}秒` : '-'}
                     </Typography>
+                    {turn.segments.length > 1 && (
+                      <Chip label={`${turn.segments.length}区間`} size="small" variant="outlined" />
+                    )}
+                    {getMissingRequiredSlots(turn).length > 0 && (
+                      <Chip
+                        label={`必須スロット未入力: ${getMissingRequiredSlots(turn).join('、')}`}
+                        color="warning"
+                        size="small"
+                      />
+                    )}
                   </Stack>
-                  <IconButton
-                    size="medium"
-                    color="error"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleDeleteTurn(index);
-                    }}
-                    sx={{
-                      '&:hover': {
-                        bgcolor: 'error.light'
-                      }
-                    }}
-                  >
-                    <DeleteIcon />
-                  </IconButton>
+                  <Box>
+                    {turn.isDraft && (
+                      <IconButton
+                        size="medium"
+                        color="success"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleAcceptDraftTurn(index);
+                        }}
+                      >
+                        <CheckIcon />
+                      </IconButton>
+                    )}
+                    <IconButton
+                      size="medium"
+                      color="error"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteTurn(index);
+                      }}
+                      sx={{
+                        '&:hover': {
+                          bgcolor: 'error.light'
+                        }
+                      }}
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  </Box>
                 </Box>
 
+                {/* 複数区間を持つターンの区間一覧 */}
+                {turn.segments.length > 1 && (
+                  <Box sx={{ px: 2, py: 1, borderBottom: 1, borderColor: 'divider' }}>
+                    <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                      {turn.segments.map((segment, segmentIndex) => (
+                        <Chip
+                          key={segmentIndex}
+                          label={`区間 ${segmentIndex + 1}: ${segment.start.toFixed(2)}秒 - ${segment.end.toFixed(2)}秒`}
+                          size="small"
+                          onDelete={() => handleDeleteSegment(index, segmentIndex)}
+                        />
+                      ))}
+                    </Stack>
+                  </Box>
+                )}
+
                 {/* アノテーション部分 */}
                 <Box sx={{ p: 2, bgcolor: 'rgba(25, 118, 210, 0.02)' }}>
                   <Stack spacing={2}>
+                    <TranscriptEditor
+                      transcript={turn.transcript}
+                      logRows={turn.logRows}
+                      logs={conversationLogs}
+                      onTranscriptChange={(transcript) => handleTranscriptChange(transcript, index)}
+                      onUnlinkRow={(row) => handleLogRowLink(row, null)}
+                      slots={turn.slots}
+                      slotKeys={getSpanSlotKeys(turn)}
+                      onSlotSpanAssign={(key, span) => handleSlotSpanAssign(key, span, index)}
+                      onSlotSpanRemove={(key) => handleSlotSpanRemove(key, index)}
+                    />
                     {/* インテントとスロットの編集 */}
                     <SlotIntentContainer
                       predefinedSlotKeys={predefinedSlotKeys}
                       predefinedIntents={predefinedIntents}
+                      slotDefinitions={projectConfig.slots}
+                      referenceDate={currentAnnotation.referenceDate}
+                      intentDefinitions={projectConfig.intents}
+                      slotConstraintPolicy={projectConfig.slotConstraintPolicy}
                       initialSlots={turn.slots}
                       initialIntent={turn.intent}
-                      onSlotsUpdate={(newSlots) => {
-                        // ターンのスロットを更新
-                        const newTurns = [...currentAnnotation.turns];
-                        newTurns[index] = {
-                          ...newTurns[index],
-                          slots: newSlots
-                        };
-
-                        // 対話レベルのスロットも更新
-                        const allTurnSlots = newTurns.flatMap(turn => turn.slots);
-                        const uniqueDialogueSlots = allTurnSlots.filter((slot, idx, self) =>
-                          idx === self.findIndex(s => s.key === slot.key && s.value === slot.value)
-                        );
-
-                        setCurrentAnnotation({
-                          ...currentAnnotation,
-                          turns: newTurns,
-                          dialogueSlots: uniqueDialogueSlots
-                        });
-                      }}
-                      onIntentUpdate={(newIntent) => {
+                      initialIntents={turn.intents}
+                      onSlotsUpdate={(newSlots) => handleTurnSlotsChange(newSlots, index)}
+                      onIntentsUpdate={(newIntents, primary) => {
                         const newTurns = [...currentAnnotation.turns];
-                        newTurns[index] = {
-                          ...newTurns[index],
-                          intent: newIntent
-                        };
+                        newTurns[index] = withTurnIntents(newTurns[index], newIntents, primary);
                         setCurrentAnnotation({
                           ...currentAnnotation,
                           turns: newTurns
                         });
                       }}
                     />
+                    {/* オペレーター（システム）側の対話行為 */}
+                    <DialogueActEditor
+                      acts={turn.acts}
+                      definitions={dialogueActDefinitions}
+                      slotKeys={predefinedSlotKeys}
+                      state={dialogueStates[index]?.state}
+                      onChange={(acts) => handleDialogueActsChange(acts, index)}
+                    />
+                    {/* 判断に迷った箇所の印とコメント */}
+                    <ReviewNotesEditor
+                      comment={turn.comment}
+                      flags={turn.flags}
+                      onCommentChange={(comment) => handleTurnReviewNotesChange({ comment }, index)}
+                      onFlagsChange={(flags) => handleTurnReviewNotesChange({ flags }, index)}
+                    />
                   </Stack>
                 </Box>
               </Paper>
@@ -547,7 +1280,7 @@ const App: React.FC = () => {
   const autoSaveAnnotation = async () => {
     if (currentAnnotation && directoryHandle) {
       try {
-        await saveAnnotation(
+        const savedAnnotation = await saveAnnotation(
           currentAnnotation.customerId,
           currentAnnotation.conversationId,
           currentAnnotation,
@@ -564,11 +1297,11 @@ const App: React.FC = () => {
           if (index >= 0) {
             // 既存のアノテーションを更新
             const newAnnotations = [...prevAnnotations];
-            newAnnotations[index] = currentAnnotation;
+            newAnnotations[index] = savedAnnotation;
             return newAnnotations;
           } else {
             // 新しいアノテーションを追加
-            return [...prevAnnotations, currentAnnotation];
+            return [...prevAnnotations, savedAnnotation];
           }
         });
 
@@ -631,6 +1364,80 @@ const App: React.FC = () => {
           >
             ディレクトリを選択
           </Button>
+          <Button
+            variant="outlined"
+            size="large"
+            startIcon={<AccountTreeIcon />}
+            onClick={() => setShowLayoutDialog(true)}
+            disabled={!directoryHandle}
+            sx={{
+              py: 2,
+              px: 3,
+              fontSize: '1.2rem'
+            }}
+          >
+            ディレクトリ構成
+          </Button>
+          <Button
+            variant="outlined"
+            size="large"
+            startIcon={<SettingsIcon />}
+            onClick={() => setShowProjectSettings(true)}
+            disabled={!directoryHandle}
+            sx={{
+              py: 2,
+              px: 3,
+              fontSize: '1.2rem'
+            }}
+          >
+            プロジェクト設定
+          </Button>
+          <Button
+            variant={showConversationBrowser ? 'contained' : 'outlined'}
+            size="large"
+            startIcon={<ViewListIcon />}
+            onClick={() => setShowConversationBrowser(prev => !prev)}
+            disabled={conversations.length === 0}
+            sx={{
+              py: 2,
+              px: 3,
+              fontSize: '1.2rem'
+            }}
+          >
+            会話一覧
+          </Button>
+          {scanIssues.length > 0 && (
+            <Button
+              variant="outlined"
+              size="large"
+              color="error"
+              startIcon={<AssignmentLateIcon />}
+              onClick={() => setShowScanReport(true)}
+              sx={{
+                py: 2,
+                px: 3,
+                fontSize: '1.2rem'
+              }}
+            >
+              {`スキャンレポート（${scanIssues.length}件）`}
+            </Button>
+          )}
+          {preprocessTargets.length > 0 && (
+            <Button
+              variant="outlined"
+              size="large"
+              color="warning"
+              startIcon={<TransformIcon />}
+              onClick={() => setShowPreprocessDialog(true)}
+              sx={{
+                py: 2,
+                px: 3,
+                fontSize: '1.2rem'
+              }}
+            >
+              {`音声の前処理（${preprocessTargets.length}件）`}
+            </Button>
+          )}
 
           {/* Progress */}
           <Box sx={{
@@ -682,12 +1489,26 @@ const App: React.FC = () => {
                 </Typography>
               </Box>
               <Box sx={{ p: 2, overflow: 'auto' }}>
+                <TextField
+                  type="date"
+                  size="small"
+                  label="基準日"
+                  value={currentAnnotation.referenceDate || ''}
+                  onChange={(e) => setCurrentAnnotation({
+                    ...currentAnnotation,
+                    referenceDate: e.target.value || undefined
+                  })}
+                  InputLabelProps={{ shrink: true }}
+                  helperText="「明日」などの日付を正規化する基準（未設定の場合は今日）"
+                  sx={{ mb: 1 }}
+                />
                 <SlotIntentContainer
                   isDialogueLevel={true}
                   predefinedSlotKeys={predefinedSlotKeys}
                   predefinedIntents={predefinedIntents}
+                  slotDefinitions={projectConfig.slots}
+                  referenceDate={currentAnnotation.referenceDate}
                   initialSlots={currentAnnotation.dialogueSlots}
-                  initialIntent={currentAnnotation.intent || ''}
                   onSlotsUpdate={(newSlots) => {
                     if (currentAnnotation) {
                       setCurrentAnnotation({
@@ -696,14 +1517,6 @@ const App: React.FC = () => {
                       });
                     }
                   }}
-                  onIntentUpdate={(newIntent) => {
-                    if (currentAnnotation) {
-                      setCurrentAnnotation({
-                        ...currentAnnotation,
-                        intent: newIntent
-                      });
-                    }
-                  }}
                 />
               </Box>
             </Box>
@@ -727,6 +1540,33 @@ const App: React.FC = () => {
             gap: 2,
             overflow: 'hidden',
           }}>
+            {/* 会話一覧 */}
+            {showConversationBrowser && conversations.length > 0 && (
+              <Box sx={{
+                width: 320,
+                flexShrink: 0,
+                bgcolor: 'background.paper',
+                borderRadius: 2,
+                boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+                p: 2,
+                overflow: 'hidden',
+                display: 'flex',
+                flexDirection: 'column'
+              }}>
+                <Typography variant="h6" sx={{ fontSize: '1.2rem', mb: 1 }}>
+                  会話一覧
+                </Typography>
+                <Box sx={{ flex: 1, minHeight: 0 }}>
+                  <ConversationBrowser
+                    conversations={conversations}
+                    annotations={latestAnnotations}
+                    currentIndex={currentIndex}
+                    required={projectConfig.required}
+                    onSelect={handleConversationSelect}
+                  />
+                </Box>
+              </Box>
+            )}
             {/* Left Column - Waveform and Turn List */}
             <Box sx={{
               flex: '2 1 0',
@@ -748,19 +1588,115 @@ const App: React.FC = () => {
                     onMarkerSet={handleMarkerSet}
                     onMarkerSelect={handleMarkerSelect}
                     selectedTurnIndex={currentTurnIndex}
-                    segments={currentAnnotation?.turns.map(turn => turn.segments[0]) || []}
+                    turnSegments={waveformSegments}
+                    draftSegmentIndices={draftSegmentIndices}
+                    turnColors={turnColors}
+                    turnFlags={turnFlags}
+                    splitChannels={audioSource === 'original'}
+                    channelLabels={speakerRoles}
+                    stereoAvailable={
+                      !!conversations[currentIndex]?.originalAudioFileHandle &&
+                      hasProcessedAudio(conversations[currentIndex])
+                    }
+                    stereoLocked={(currentAnnotation?.turns.length || 0) > 0}
+                    settings={userSettings}
+                    onSettingsChange={handleUserSettingsChange}
+                    shortcutsEnabled={!showShortcutHelp && !showSaveDialog}
+                    playbackSync={playbackSync}
                   />
                 )}
               </Box>
 
-              {/* Turn List - 残りの空間を全て使用 */}
+              {/* Turn List - 残りの空間を全て使用し、右に対話状態を並べる */}
               <Box sx={{
                 flex: 1,
                 overflow: 'hidden',
                 display: 'flex',
-                flexDirection: 'column'
+                gap: 2
               }}>
-                <TurnList />
+                <Box sx={{
+                  flex: 1,
+                  overflow: 'hidden',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  minWidth: 0
+                }}>
+                  <TurnList />
+                </Box>
+                {/* 会話全体の属性と対話状態 */}
+                {currentAnnotation && (
+                  <Box sx={{
+                    width: 300,
+                    flexShrink: 0,
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 2,
+                    overflow: 'hidden'
+                  }}>
+                    <Box sx={{
+                      flex: currentAnnotation.turns.length > 0 ? '0 1 auto' : 1,
+                      maxHeight: currentAnnotation.turns.length > 0 ? '50%' : undefined,
+                      bgcolor: 'background.paper',
+                      borderRadius: 2,
+                      boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+                      p: 2,
+                      overflow: 'auto'
+                    }}>
+                      <Typography variant="h6" sx={{ fontSize: '1.2rem', mb: 1 }}>
+                        会話の属性
+                      </Typography>
+                      <ConversationLabelsPanel
+                        intent={currentAnnotation.intent}
+                        labels={currentAnnotation.labels}
+                        definitions={conversationLabelDefinitions}
+                        intentOptions={intentOptions}
+                        intentRequired={!!projectConfig.required?.dialogueIntent}
+                        requiredKeys={projectConfig.required?.conversationLabels}
+                        onIntentChange={handleConversationIntentChange}
+                        onLabelChange={handleConversationLabelChange}
+                      />
+                      <Typography variant="body2" sx={{ fontWeight: 'bold', mt: 1.5, mb: 0.5 }}>
+                        印・コメント
+                      </Typography>
+                      <ReviewNotesEditor
+                        comment={currentAnnotation.comment}
+                        flags={currentAnnotation.flags}
+                        onCommentChange={(comment) => handleConversationReviewNotesChange({ comment })}
+                        onFlagsChange={(flags) => handleConversationReviewNotesChange({ flags })}
+                      />
+                    </Box>
+                    {currentAnnotation.turns.length > 0 && (
+                      <Box sx={{
+                        flex: 1,
+                        minHeight: 0,
+                        bgcolor: 'background.paper',
+                        borderRadius: 2,
+                        boxShadow: '0 4px 20px rgba(0, 0, 0, 0.1)',
+                        p: 2,
+                        overflow: 'hidden',
+                        display: 'flex',
+                        flexDirection: 'column'
+                      }}>
+                        <Typography variant="h6" sx={{ fontSize: '1.2rem' }}>
+                          対話状態
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary" sx={{ mb: 1 }}>
+                          ターンまでのスロットの累積。値をクリックすると修正・削除できます
+                        </Typography>
+                        <Box sx={{ flex: 1, overflow: 'auto' }}>
+                          <DialogueStateTimeline
+                            turns={currentAnnotation.turns}
+                            states={dialogueStates}
+                            selectedTurnIndex={currentTurnIndex}
+                            slotKeys={predefinedSlotKeys}
+                            onTurnSelect={setCurrentTurnIndex}
+                            onOperationChange={handleStateOperationChange}
+                          />
+                        </Box>
+                      </Box>
+                    )}
+                  </Box>
+                )}
               </Box>
             </Box>
 
@@ -778,18 +1714,45 @@ const App: React.FC = () => {
               <Box sx={{
                 p: 1.5,
                 background: `linear-gradient(45deg, ${theme.palette.secondary.main} 30%, ${theme.palette.secondary.dark} 90%)`,
-                color: 'white'
+                color: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1
               }}>
-                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
-                  対話ログ
-                </Typography>
+                <Box sx={{ flex: 1 }}>
+                  <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                    対話ログ
+                  </Typography>
+                  <Typography variant="caption">
+                    行をクリックするとその位置へ移動します。紐付けボタンかターンへのドラッグで選択中のターンに紐付けます
+                  </Typography>
+                </Box>
+                <Button
+                  variant="outlined"
+                  color="inherit"
+                  size="small"
+                  startIcon={<PlaylistAddIcon />}
+                  onClick={() => setShowLogAlignment(true)}
+                  disabled={!currentAnnotation || !audioFile || conversationLogs.length === 0}
+                  sx={{ flexShrink: 0 }}
+                >
+                  ターンを作成
+                </Button>
               </Box>
               <Box sx={{
                 flex: 1,
                 overflow: 'auto',
                 p: 2
               }}>
-                <ConversationLogViewer logs={conversationLogs} />
+                <ConversationLogViewer
+                  logs={conversationLogs}
+                  rowTurns={logRowTurns}
+                  selectedTurnIndex={currentTurnIndex}
+                  rowSpans={logRowSpans}
+                  playbackSync={playbackSync}
+                  onRowClick={handleLogRowSelect}
+                  onRowLink={currentAnnotation ? handleLogRowLinkToggle : undefined}
+                />
               </Box>
             </Box>
           </Box>
@@ -827,7 +1790,7 @@ const App: React.FC = () => {
               variant="outlined"
               startIcon={<NavigateBeforeIcon />}
               onClick={handlePrevious}
-              disabled={currentIndex <= 0}
+              disabled={findNavigableIndex('prev') < 0}
             >
               前へ
             </Button>
@@ -835,52 +1798,153 @@ const App: React.FC = () => {
               variant="outlined"
               endIcon={<NavigateNextIcon />}
               onClick={handleNext}
-              disabled={currentIndex >= conversations.length - 1}
+              disabled={findNavigableIndex('next') < 0}
             >
               次へ
             </Button>
+            <TextField
+              select
+              size="small"
+              label="印で絞り込み"
+              value={flagFilter}
+              onChange={(e) => setFlagFilter(e.target.value as ReviewFlag | '')}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value="">
+                <em>すべての会話</em>
+              </MenuItem>
+              {REVIEW_FLAGS.map(item => (
+                <MenuItem key={item.flag} value={item.flag}>{item.label}</MenuItem>
+              ))}
+            </TextField>
           </Box>
 
-          {/* 中央の保存ボタン */}
-          <Button
-            variant="contained"
-            color="primary"
-            startIcon={<SaveIcon />}
-            onClick={() => setShowSaveDialog(true)}
-            disabled={!currentAnnotation}
-          >
-            保存
-          </Button>
+          {/* 中央の元に戻す・やり直し・保存ボタン */}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<UndoIcon />}
+              onClick={undo}
+              disabled={!canUndo}
+            >
+              元に戻す
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<RedoIcon />}
+              onClick={redo}
+              disabled={!canRedo}
+            >
+              やり直し
+            </Button>
+            <Button
+              variant="contained"
+              color="primary"
+              startIcon={<SaveIcon />}
+              onClick={() => setShowSaveDialog(true)}
+              disabled={!currentAnnotation}
+            >
+              保存
+            </Button>
+          </Box>
 
-          {/* 右側のキャッシュクリアボタン */}
-          <Button
-            variant="outlined"
-            color="warning"
-            onClick={async () => {
-              if (!directoryHandle) return;
-
-              const result = await clearCache(directoryHandle);
-              if (result) {
-                enqueueSnackbar('キャッシュを削除しました', {
-                  variant: 'success',
-                  autoHideDuration: 2000,
-                  anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
-                });
-              } else {
-                enqueueSnackbar('キャッシュの削除に失敗しました', {
-                  variant: 'error',
-                  autoHideDuration: 2000,
-                  anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
-                });
-              }
-            }}
-            disabled={!directoryHandle}
-          >
-            キャッシュクリア
-          </Button>
+          {/* 右側のショートカット一覧・キャッシュクリアボタン */}
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button
+              variant="outlined"
+              startIcon={<KeyboardIcon />}
+              onClick={() => setShowShortcutHelp(true)}
+            >
+              ショートカット
+            </Button>
+            <Button
+              variant="outlined"
+              color="warning"
+              onClick={async () => {
+                if (!directoryHandle) return;
+
+                const result = await clearCache(directoryHandle);
+                if (result) {
+                  enqueueSnackbar('キャッシュを削除しました', {
+                    variant: 'success',
+                    autoHideDuration: 2000,
+                    anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+                  });
+                } else {
+                  enqueueSnackbar('キャッシュの削除に失敗しました', {
+                    variant: 'error',
+                    autoHideDuration: 2000,
+                    anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+                  });
+                }
+              }}
+              disabled={!directoryHandle}
+            >
+              キャッシュクリア
+            </Button>
+          </Box>
         </Box>
       </Box>
 
+      {/* Keyboard Shortcut Help */}
+      <KeyboardShortcutHelp
+        open={showShortcutHelp}
+        onClose={() => setShowShortcutHelp(false)}
+        settings={userSettings}
+        onSettingsChange={handleUserSettingsChange}
+      />
+
+      {/* Scan Report */}
+      <ScanReportDialog
+        open={showScanReport}
+        onClose={() => setShowScanReport(false)}
+        issues={scanIssues}
+        conversationCount={conversations.length}
+      />
+
+      {/* Directory Layout */}
+      <DirectoryLayoutDialog
+        open={showLayoutDialog}
+        onClose={() => setShowLayoutDialog(false)}
+        directoryHandle={directoryHandle}
+        layout={directoryLayout}
+        onApply={handleLayoutApply}
+      />
+
+      {/* Conversation Log Alignment */}
+      <LogAlignmentDialog
+        open={showLogAlignment}
+        onClose={() => setShowLogAlignment(false)}
+        logs={conversationLogs}
+        audioFile={audioFile}
+        audioSource={currentAnnotation?.audioSource || 'processed'}
+        audioOffset={currentAnnotation?.audioOffset ?? 0}
+        defaultTimestampSource={getLogTimeBase(projectConfig)}
+        vadParams={userSettings.vad}
+        existingSegments={existingTurnSegments}
+        linkedRows={logRowTurns}
+        onApply={handleLogAlignmentApply}
+      />
+
+      {/* Project Settings */}
+      <ProjectSettingsDialog
+        open={showProjectSettings}
+        onClose={() => setShowProjectSettings(false)}
+        config={projectConfig}
+        legacyFiles={legacyProjectFiles}
+        loadError={projectConfigError}
+        onSave={handleProjectConfigSave}
+      />
+
+      {/* Preprocess Dialog */}
+      <PreprocessDialog
+        open={showPreprocessDialog}
+        onClose={() => setShowPreprocessDialog(false)}
+        conversations={preprocessTargets}
+        onComplete={handlePreprocessComplete}
+        processedFileName={`${directoryLayout.processedAudioName}.wav`}
+      />
+
       {/* Save Dialog */}
       <Dialog
         open={showSaveDialog}
@@ -908,6 +1972,24 @@ const App: React.FC = () => {
           }}>
             アノテーションを保存しました。エクスポートしますか？
           </Typography>
+          <TextField
+            select
+            size="small"
+            label="タイムスタンプの基準"
+            value={exportTimeBase}
+            onChange={(e) => handleUserSettingsChange({
+              ...userSettings,
+              exportTimeBase: e.target.value as AudioSource
+            })}
+            disabled={!!projectConfig.export?.timeBase}
+            helperText={projectConfig.export?.timeBase
+              ? 'プロジェクト設定で指定されています'
+              : '元音声を基準にすると、処理済み音声で切り落とした時間（音声オフセット）を加えて出力します'}
+            sx={{ mt: 3, minWidth: '240px' }}
+          >
+            <MenuItem value="processed">処理済み音声（audio_processed.wav）</MenuItem>
+            <MenuItem value="original">元音声（audio.wav）</MenuItem>
+          </TextField>
         </DialogContent>
         <DialogActions sx={{ p: 3, gap: 2 }}>
           <Button
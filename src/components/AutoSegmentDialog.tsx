@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import {
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Slider,
+    Stack,
+    Typography
+} from '@mui/material';
+import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
+import { Segment, VadParams } from '../types';
+import { getMonoSamples } from '../utils/audioUtils.ts';
+import {
+    computeFrameFeatures,
+    detectSpeechSegments,
+    excludeOverlappingSegments,
+    DEFAULT_VAD_PARAMS
+} from '../utils/vadUtils.ts';
+
+interface AutoSegmentDialogProps {
+    open: boolean;
+    onClose: () => void;
+    audioBuffer: AudioBuffer | null;
+    existingSegments: Segment[];
+    params: VadParams;
+    onParamsChange: (params: VadParams) => void;
+    onApply: (segments: Segment[]) => void;
+}
+
+interface ParamSliderDefinition {
+    key: keyof VadParams;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    unit: string;
+}
+
+const PARAM_SLIDERS: ParamSliderDefinition[] = [
+    { key: 'energyThresholdDb', label: 'エネルギー閾値', min: -70, max: -5, step: 1, unit: 'dB' },
+    { key: 'zcrThreshold', label: 'ゼロ交差率閾値（無声子音）', min: 0, max: 0.5, step: 0.01, unit: '' },
+    { key: 'minSpeechMs', label: '最小発話長', min: 50, max: 2000, step: 10, unit: 'ms' },
+    { key: 'minSilenceMs', label: '最小無音長', min: 50, max: 2000, step: 10, unit: 'ms' },
+    { key: 'paddingMs', label: '前後の余白', min: 0, max: 500, step: 10, unit: 'ms' },
+    { key: 'frameMs', label: 'フレーム長', min: 10, max: 50, step: 5, unit: 'ms' }
+];
+
+const PREVIEW_WIDTH = 800;
+const PREVIEW_HEIGHT = 160;
+// プレビューに表示するエネルギーの下限
+const PREVIEW_MIN_DB = -80;
+
+const AutoSegmentDialog: React.FC<AutoSegmentDialogProps> = ({
+    open,
+    onClose,
+    audioBuffer,
+    existingSegments,
+    params,
+    onParamsChange,
+    onApply
+}) => {
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    const samples = useMemo(() => (audioBuffer && open ? getMonoSamples(audioBuffer) : null), [audioBuffer, open]);
+
+    const features = useMemo(() => {
+        if (!samples || !audioBuffer) return null;
+        return computeFrameFeatures(samples, audioBuffer.sampleRate, params.frameMs);
+    }, [samples, audioBuffer, params.frameMs]);
+
+    // パラメータ変更のたびに候補区間を再計算（既存ターンと重なる候補は除外）
+    const proposals = useMemo(() => {
+        if (!features) return [];
+        return excludeOverlappingSegments(detectSpeechSegments(features, params), existingSegments);
+    }, [features, params, existingSegments]);
+
+    // エネルギー包絡・閾値・候補区間のプレビューを描画
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context || !features) return;
+
+        const { energyDb, frameDuration } = features;
+        const duration = energyDb.length * frameDuration;
+        const toX = (time: number) => (time / duration) * PREVIEW_WIDTH;
+        const toY = (db: number) =>
+            PREVIEW_HEIGHT * (Math.max(PREVIEW_MIN_DB, Math.min(0, db)) / PREVIEW_MIN_DB);
+
+        context.clearRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT);
+
+        // 既存のターン
+        context.fillStyle = 'rgba(120, 120, 120, 0.25)';
+        existingSegments.forEach(segment => {
+            context.fillRect(toX(segment.start), 0, toX(segment.end) - toX(segment.start), PREVIEW_HEIGHT);
+        });
+
+        // 提案区間
+        context.fillStyle = 'rgba(255, 152, 0, 0.35)';
+        proposals.forEach(segment => {
+            context.fillRect(toX(segment.start), 0, Math.max(1, toX(segment.end) - toX(segment.start)), PREVIEW_HEIGHT);
+        });
+
+        // エネルギー包絡（1pxあたりの最大値）
+        context.strokeStyle = '#4a90e2';
+        context.beginPath();
+        const framesPerPixel = energyDb.length / PREVIEW_WIDTH;
+        for (let x = 0; x < PREVIEW_WIDTH; x++) {
+            const start = Math.floor(x * framesPerPixel);
+            const end = Math.max(start + 1, Math.floor((x + 1) * framesPerPixel));
+            let max = -Infinity;
+            for (let frame = start; frame < end && frame < energyDb.length; frame++) {
+                max = Math.max(max, energyDb[frame]);
+            }
+            if (x === 0) {
+                context.moveTo(x, toY(max));
+            } else {
+                context.lineTo(x, toY(max));
+            }
+        }
+        context.stroke();
+
+        // 閾値
+        context.strokeStyle = '#f44336';
+        context.setLineDash([4, 4]);
+        context.beginPath();
+        context.moveTo(0, toY(params.energyThresholdDb));
+        context.lineTo(PREVIEW_WIDTH, toY(params.energyThresholdDb));
+        context.stroke();
+        context.setLineDash([]);
+    }, [features, proposals, existingSegments, params.energyThresholdDb]);
+
+    const totalSpeech = proposals.reduce((sum, segment) => sum + segment.end - segment.start, 0);
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <AutoFixHighIcon />
+                自動区間検出
+            </DialogTitle>
+            <DialogContent dividers>
+                <Box sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 1, mb: 1 }}>
+                    <canvas
+                        ref={canvasRef}
+                        width={PREVIEW_WIDTH}
+                        height={PREVIEW_HEIGHT}
+                        style={{ width: '100%', height: PREVIEW_HEIGHT, display: 'block' }}
+                    />
+                </Box>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {`候補: ${proposals.length}区間（合計 ${totalSpeech.toFixed(1)}秒）`}
+                    {existingSegments.length > 0 && ' ※既存のターンと重なる区間は除外されます'}
+                </Typography>
+                <Stack spacing={1}>
+                    {PARAM_SLIDERS.map(definition => (
+                        <Box key={definition.key}>
+                            <Typography variant="body2">
+                                {`${definition.label}: ${params[definition.key]}${definition.unit}`}
+                            </Typography>
+                            <Slider
+                                size="small"
+                                value={params[definition.key]}
+                                min={definition.min}
+                                max={definition.max}
+                                step={definition.step}
+                                onChange={(_, value) => onParamsChange({ ...params, [definition.key]: value as number })}
+                            />
+                        </Box>
+                    ))}
+                </Stack>
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                <Box sx={{ flex: 1 }}>
+                    <Button color="warning" onClick={() => onParamsChange(DEFAULT_VAD_PARAMS)}>
+                        初期設定に戻す
+                    </Button>
+                </Box>
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button
+                    variant="contained"
+                    onClick={() => onApply(proposals)}
+                    disabled={proposals.length === 0}
+                >
+                    下書きターンとして追加
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default AutoSegmentDialog;
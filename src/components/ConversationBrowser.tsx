@@ -0,0 +1,221 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    Box,
+    Chip,
+    InputAdornment,
+    List,
+    ListItemButton,
+    ListSubheader,
+    MenuItem,
+    TextField,
+    Typography
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import { ConversationData, ConversationStatus, DialogueAnnotation, RequiredFields, ReviewFlag } from '../types';
+import {
+    CONVERSATION_STATUS_COLORS,
+    CONVERSATION_STATUS_LABELS,
+    ConversationFilter,
+    EMPTY_CONVERSATION_FILTER,
+    findConversationAnnotation,
+    formatDuration,
+    getAnnotationIntents,
+    getAnnotationSlotKeys,
+    getConversationStatus,
+    groupConversationsByCustomer,
+    matchesConversationFilter
+} from '../utils/conversationBrowserUtils.ts';
+import { REVIEW_FLAGS, getAnnotationFlags, getReviewFlagDefinition } from '../utils/reviewUtils.ts';
+
+interface ConversationBrowserProps {
+    conversations: ConversationData[];
+    // 保存済みのアノテーション（開いている会話は編集中の内容）
+    annotations: DialogueAnnotation[];
+    currentIndex: number;
+    required?: RequiredFields;
+    onSelect: (index: number) => void;
+}
+
+const formatUpdatedAt = (updatedAt: string) =>
+    new Date(updatedAt).toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * 顧客IDごとにまとめた会話の一覧。作業状況・ターン数・再生時間・更新日時を表示し、
+ * ID・会話ログ・書き起こし・ラベルのテキスト検索と、インテント・スロット・印・作業状況で絞り込む。
+ */
+const ConversationBrowser: React.FC<ConversationBrowserProps> = ({
+    conversations,
+    annotations,
+    currentIndex,
+    required,
+    onSelect
+}) => {
+    const [filter, setFilter] = useState<ConversationFilter>(EMPTY_CONVERSATION_FILTER);
+    const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+    // 開いている会話を表示範囲に入れる
+    useEffect(() => {
+        itemRefs.current[currentIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [currentIndex]);
+
+    const entries = useMemo(
+        () => conversations.map((conversation, index) => ({
+            conversation,
+            index,
+            annotation: findConversationAnnotation(annotations, conversation)
+        })),
+        [conversations, annotations]
+    );
+
+    // 絞り込みの選択肢は入力済みのインテント・スロットから作る
+    const intentOptions = useMemo(
+        () => Array.from(new Set(entries.flatMap(({ annotation }) => getAnnotationIntents(annotation)))).sort(),
+        [entries]
+    );
+    const slotKeyOptions = useMemo(
+        () => Array.from(new Set(entries.flatMap(({ annotation }) => getAnnotationSlotKeys(annotation)))).sort(),
+        [entries]
+    );
+
+    const groups = useMemo(
+        () => groupConversationsByCustomer(
+            entries.filter(({ conversation, annotation }) => matchesConversationFilter(conversation, annotation, filter, required))
+        ),
+        [entries, filter, required]
+    );
+    const matchedCount = groups.reduce((count, group) => count + group.items.length, 0);
+
+    const updateFilter = (changes: Partial<ConversationFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    const renderSelect = (label: string, value: string, options: { value: string; label: string }[], onChange: (value: string) => void) => (
+        <TextField
+            select
+            size="small"
+            label={label}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            sx={{ flex: '1 1 45%', minWidth: 0 }}
+        >
+            <MenuItem value="">
+                <em>すべて</em>
+            </MenuItem>
+            {options.map(option => (
+                <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+            ))}
+        </TextField>
+    );
+
+    return (
+        <Box sx={{ height: '100%', display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+            <TextField
+                size="small"
+                placeholder="ID・発話・ラベルで検索"
+                value={filter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                InputProps={{
+                    startAdornment: (
+                        <InputAdornment position="start">
+                            <SearchIcon fontSize="small" />
+                        </InputAdornment>
+                    )
+                }}
+                sx={{ mb: 1 }}
+            />
+            <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, mb: 1 }}>
+                {renderSelect(
+                    '作業状況',
+                    filter.status,
+                    (Object.keys(CONVERSATION_STATUS_LABELS) as ConversationStatus[]).map(status => ({ value: status, label: CONVERSATION_STATUS_LABELS[status] })),
+                    (value) => updateFilter({ status: value as ConversationStatus | '' })
+                )}
+                {renderSelect(
+                    '印',
+                    filter.flag,
+                    REVIEW_FLAGS.map(item => ({ value: item.flag, label: item.label })),
+                    (value) => updateFilter({ flag: value as ReviewFlag | '' })
+                )}
+                {renderSelect(
+                    'インテント',
+                    filter.intent,
+                    intentOptions.map(intent => ({ value: intent, label: intent })),
+                    (value) => updateFilter({ intent: value })
+                )}
+                {renderSelect(
+                    'スロット',
+                    filter.slotKey,
+                    slotKeyOptions.map(key => ({ value: key, label: key })),
+                    (value) => updateFilter({ slotKey: value })
+                )}
+            </Box>
+            <Typography variant="caption" color="text.secondary" sx={{ mb: 0.5 }}>
+                {`${matchedCount} / ${conversations.length}件`}
+            </Typography>
+
+            <List dense disablePadding sx={{ flex: 1, overflow: 'auto' }}>
+                {groups.map(group => (
+                    <li key={group.customerId}>
+                        <ul style={{ padding: 0 }}>
+                            <ListSubheader sx={{ lineHeight: '32px', fontWeight: 'bold' }}>
+                                {`${group.customerId}（${group.items.length}件）`}
+                            </ListSubheader>
+                            {group.items.map(({ conversation, index, annotation }) => {
+                                const status = getConversationStatus(annotation, required);
+                                const turnCount = annotation?.turns.filter(turn => !turn.isDraft).length || 0;
+                                const flags = getAnnotationFlags(annotation);
+                                return (
+                                    <ListItemButton
+                                        key={index}
+                                        ref={(element: HTMLDivElement | null) => {
+                                            itemRefs.current[index] = element;
+                                        }}
+                                        selected={index === currentIndex}
+                                        onClick={() => onSelect(index)}
+                                        sx={{ display: 'block', py: 0.5 }}
+                                    >
+                                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                                            <Typography variant="body2" sx={{ fontWeight: 'bold', flex: 1 }} noWrap>
+                                                {conversation.conversationId}
+                                            </Typography>
+                                            <Chip
+                                                size="small"
+                                                label={CONVERSATION_STATUS_LABELS[status]}
+                                                color={CONVERSATION_STATUS_COLORS[status]}
+                                                variant={status === 'notStarted' ? 'outlined' : 'filled'}
+                                            />
+                                        </Box>
+                                        <Typography variant="caption" color="text.secondary" component="div">
+                                            {[
+                                                `${turnCount}ターン`,
+                                                conversation.audioDuration !== undefined ? formatDuration(conversation.audioDuration) : '長さ不明',
+                                                annotation?.updatedAt ? `更新 ${formatUpdatedAt(annotation.updatedAt)}` : '未保存'
+                                            ].join(' ・ ')}
+                                        </Typography>
+                                        {flags.length > 0 && (
+                                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
+                                                {flags.map(flag => (
+                                                    <Chip
+                                                        key={flag}
+                                                        size="small"
+                                                        label={getReviewFlagDefinition(flag).label}
+                                                        sx={{ height: 18, fontSize: '0.7rem', bgcolor: getReviewFlagDefinition(flag).color, color: '#fff' }}
+                                                    />
+                                                ))}
+                                            </Box>
+                                        )}
+                                    </ListItemButton>
+                                );
+                            })}
+                        </ul>
+                    </li>
+                ))}
+                {matchedCount === 0 && (
+                    <Typography variant="body2" color="text.secondary" sx={{ p: 2, textAlign: 'center' }}>
+                        条件に合う会話はありません
+                    </Typography>
+                )}
+            </List>
+        </Box>
+    );
+};
+
+export default ConversationBrowser;
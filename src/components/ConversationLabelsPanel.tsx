@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Box,
+    Chip,
+    MenuItem,
+    Rating,
+    Stack,
+    TextField,
+    ToggleButton,
+    ToggleButtonGroup,
+    Tooltip,
+    Typography
+} from '@mui/material';
+import StarIcon from '@mui/icons-material/Star';
+import { ConversationLabelDefinition, ConversationLabelValue, IntentDefinition } from '../types';
+import { DEFAULT_RATING_MAX, hasConversationLabelValue } from '../utils/conversationLabelUtils.ts';
+import IntentPicker from './IntentPicker.tsx';
+
+interface ConversationLabelsPanelProps {
+    intent?: string;
+    labels?: Record<string, ConversationLabelValue>;
+    definitions: ConversationLabelDefinition[];
+    intentOptions: IntentDefinition[];
+    // project.jsonのrequiredで必須にした項目
+    intentRequired?: boolean;
+    requiredKeys?: string[];
+    onIntentChange: (intent: string | undefined) => void;
+    // valueがundefinedの場合は未入力に戻す
+    onLabelChange: (key: string, value: ConversationLabelValue | undefined) => void;
+}
+
+const NO_LABELS: Record<string, ConversationLabelValue> = {};
+const NO_KEYS: string[] = [];
+
+// 入力のたびに履歴が残らないよう、フォーカスが外れたときに確定する
+const LabelTextField: React.FC<{ value: string; required: boolean; onCommit: (value: string) => void }> = ({
+    value,
+    required,
+    onCommit
+}) => {
+    const [text, setText] = useState(value);
+
+    useEffect(() => {
+        setText(value);
+    }, [value]);
+
+    return (
+        <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            maxRows={6}
+            size="small"
+            value={text}
+            error={required && !text.trim()}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+                if (text !== value) onCommit(text.trim());
+            }}
+        />
+    );
+};
+
+/**
+ * 会話全体のインテントと、タスクの成否・満足度などの会話全体の属性を入力するパネル。
+ */
+const ConversationLabelsPanel: React.FC<ConversationLabelsPanelProps> = ({
+    intent,
+    labels = NO_LABELS,
+    definitions,
+    intentOptions,
+    intentRequired = false,
+    requiredKeys = NO_KEYS,
+    onIntentChange,
+    onLabelChange
+}) => {
+    const [intentInput, setIntentInput] = useState('');
+
+    const renderInput = (definition: ConversationLabelDefinition) => {
+        const value = labels[definition.key];
+        const isMissing = requiredKeys.includes(definition.key) && !hasConversationLabelValue(value);
+        switch (definition.type) {
+            case 'select':
+                return (
+                    <TextField
+                        select
+                        fullWidth
+                        size="small"
+                        value={value === undefined ? '' : String(value)}
+                        error={isMissing}
+                        onChange={(e) => onLabelChange(definition.key, e.target.value || undefined)}
+                    >
+                        <MenuItem value="">
+                            <em>未入力</em>
+                        </MenuItem>
+                        {(definition.values || []).map(option => (
+                            <MenuItem key={option} value={option}>{option}</MenuItem>
+                        ))}
+                    </TextField>
+                );
+            case 'rating':
+                return (
+                    <Rating
+                        value={typeof value === 'number' ? value : null}
+                        max={definition.max || DEFAULT_RATING_MAX}
+                        onChange={(_, newValue) => onLabelChange(definition.key, newValue ?? undefined)}
+                    />
+                );
+            case 'boolean':
+                return (
+                    <ToggleButtonGroup
+                        exclusive
+                        size="small"
+                        value={typeof value === 'boolean' ? value : null}
+                        onChange={(_, newValue: boolean | null) => onLabelChange(definition.key, newValue ?? undefined)}
+                    >
+                        <ToggleButton value={true}>はい</ToggleButton>
+                        <ToggleButton value={false}>いいえ</ToggleButton>
+                    </ToggleButtonGroup>
+                );
+            default:
+                return (
+                    <LabelTextField
+                        value={value === undefined ? '' : String(value)}
+                        required={isMissing}
+                        onCommit={(text) => onLabelChange(definition.key, text || undefined)}
+                    />
+                );
+        }
+    };
+
+    return (
+        <Stack spacing={1.5}>
+            <Box>
+                <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 0.5 }}>
+                    {`会話全体のインテント${intentRequired ? ' *' : ''}`}
+                </Typography>
+                {intent && (
+                    <Chip
+                        label={intent}
+                        icon={<StarIcon />}
+                        color="primary"
+                        size="small"
+                        onDelete={() => onIntentChange(undefined)}
+                        sx={{ mb: 1 }}
+                    />
+                )}
+                <IntentPicker
+                    value={intentInput}
+                    intents={intentOptions}
+                    clearOnSelect
+                    onChange={(name) => {
+                        setIntentInput('');
+                        if (name.trim()) onIntentChange(name.trim());
+                    }}
+                    onInputChange={setIntentInput}
+                />
+            </Box>
+            {definitions.map(definition => (
+                <Box key={definition.key}>
+                    <Tooltip title={definition.description || ''} placement="left">
+                        <Typography
+                            variant="body2"
+                            sx={{ fontWeight: 'bold', mb: 0.5 }}
+                            color={requiredKeys.includes(definition.key) && !hasConversationLabelValue(labels[definition.key]) ? 'error' : undefined}
+                        >
+                            {`${definition.key}${requiredKeys.includes(definition.key) ? ' *' : ''}`}
+                        </Typography>
+                    </Tooltip>
+                    {renderInput(definition)}
+                </Box>
+            ))}
+        </Stack>
+    );
+};
+
+export default ConversationLabelsPanel;
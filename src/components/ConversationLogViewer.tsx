@@ -1,19 +1,101 @@
-import React from 'react';
-import { Box, useTheme } from '@mui/material';
-import { DataGrid, GridColDef } from '@mui/x-data-grid';
+import React, { useEffect, useState } from 'react';
+import { Box, Chip, IconButton, Tooltip, alpha, useTheme } from '@mui/material';
+import { DataGrid, GridColDef, useGridApiRef } from '@mui/x-data-grid';
+import LinkIcon from '@mui/icons-material/Link';
 import { motion } from 'framer-motion';
-import { ConversationLog } from '../types';
+import { ConversationLog, Segment } from '../types';
+import { LOG_ROW_DRAG_TYPE, findLogRowAtTime } from '../utils/transcriptUtils.ts';
+import { PlaybackSync } from '../utils/playbackUtils.ts';
 
 interface ConversationLogViewerProps {
     logs: ConversationLog[];
+    // 行番号から紐付いているターンの番号
+    rowTurns?: Map<number, number>;
+    selectedTurnIndex?: number;
+    // 各行の時間範囲（時刻が分からない行はundefined）
+    rowSpans?: (Segment | undefined)[];
+    // 再生中の行の強調表示に使う
+    playbackSync?: PlaybackSync;
+    // 行をクリックしたとき（その行の位置への移動）
+    onRowClick?: (row: number) => void;
+    // 選択中のターンへの紐付け・解除
+    onRowLink?: (row: number) => void;
 }
 
-const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({ logs }) => {
+const NO_ROW_TURNS = new Map<number, number>();
+const NO_ROW_SPANS: (Segment | undefined)[] = [];
+
+// 描画のたびに作ると表が作り直されるため、モジュールで1度だけ作る
+const MotionBox = motion(Box);
+
+const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({
+    logs,
+    rowTurns = NO_ROW_TURNS,
+    selectedTurnIndex,
+    rowSpans = NO_ROW_SPANS,
+    playbackSync,
+    onRowClick,
+    onRowLink
+}) => {
     const theme = useTheme();
+    const apiRef = useGridApiRef();
+    // 再生位置を含む行
+    const [playingRow, setPlayingRow] = useState<number | null>(null);
+
+    useEffect(() => {
+        setPlayingRow(null);
+        if (!playbackSync) return;
+        return playbackSync.subscribeTime(time => setPlayingRow(findLogRowAtTime(rowSpans, time)));
+    }, [playbackSync, rowSpans]);
+
+    // 字幕エディタのように、再生中の行が見えるようにスクロールする
+    useEffect(() => {
+        if (playingRow === null || !apiRef.current) return;
+        const rowIndex = apiRef.current.getRowIndexRelativeToVisibleRows(playingRow);
+        if (rowIndex >= 0) {
+            apiRef.current.scrollToIndexes({ rowIndex });
+        }
+    }, [playingRow, apiRef]);
 
     const columns: GridColDef[] = React.useMemo(() => {
         if (logs.length === 0) return [];
-        return Object.keys(logs[0]).map((field) => ({
+        // 紐付いているターン
+        const turnColumn: GridColDef = {
+            field: '__turn',
+            headerName: 'ターン',
+            width: 90,
+            sortable: false,
+            renderCell: (params) => {
+                const row = Number(params.id);
+                const turnIndex = rowTurns.get(row);
+                if (turnIndex !== undefined) {
+                    const isSelected = turnIndex === selectedTurnIndex;
+                    return (
+                        <Chip
+                            label={`ターン${turnIndex + 1}`}
+                            size="small"
+                            color={isSelected ? 'primary' : 'default'}
+                            // 選択中のターンとの紐付けはここで解除できる
+                            onDelete={isSelected && onRowLink ? () => onRowLink(row) : undefined}
+                        />
+                    );
+                }
+                return onRowLink && selectedTurnIndex !== undefined ? (
+                    <Tooltip title={`ターン${selectedTurnIndex + 1}に紐付け`}>
+                        <IconButton
+                            size="small"
+                            onClick={(event) => {
+                                event.stopPropagation();
+                                onRowLink(row);
+                            }}
+                        >
+                            <LinkIcon fontSize="small" />
+                        </IconButton>
+                    </Tooltip>
+                ) : null;
+            }
+        };
+        return [turnColumn, ...Object.keys(logs[0]).map((field): GridColDef => ({
             field,
             headerName: field,
             flex: 1,
@@ -25,8 +107,8 @@ const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({ logs }) =
                 }
                 return value;
             }
-        }));
-    }, [logs]);
+        }))];
+    }, [logs, rowTurns, selectedTurnIndex, onRowLink]);
 
     const rows = React.useMemo(() => {
         return logs.map((log, index) => ({
@@ -35,8 +117,6 @@ const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({ logs }) =
         }));
     }, [logs]);
 
-    const MotionBox = motion(Box);
-
     return (
         <MotionBox
             initial={{ opacity: 0, y: 20 }}
@@ -54,12 +134,32 @@ const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({ logs }) =
             }}
         >
             <DataGrid
+                apiRef={apiRef}
                 rows={rows}
                 columns={columns}
                 hideFooter
                 disableRowSelectionOnClick
                 density="comfortable"
                 getRowHeight={() => 'auto'}
+                onRowClick={(params) => onRowClick?.(Number(params.id))}
+                getRowClassName={(params) => {
+                    const row = Number(params.id);
+                    const turnIndex = rowTurns.get(row);
+                    const classNames = row === playingRow ? ['log-row--playing'] : [];
+                    if (turnIndex !== undefined) {
+                        classNames.push(turnIndex === selectedTurnIndex ? 'log-row--selected-turn' : 'log-row--linked');
+                    }
+                    return classNames.join(' ');
+                }}
+                slotProps={{
+                    row: {
+                        // 行をターンにドラッグして紐付ける
+                        draggable: !!onRowLink,
+                        onDragStart: (event: React.DragEvent<HTMLDivElement>) => {
+                            event.dataTransfer.setData(LOG_ROW_DRAG_TYPE, event.currentTarget.dataset.id || '');
+                        }
+                    }
+                }}
                 sx={{
                     border: 'none',
                     '& .MuiDataGrid-cell': {
@@ -78,7 +178,18 @@ const ConversationLogViewer: React.FC<ConversationLogViewerProps> = ({ logs }) =
                         },
                         '&:hover': {
                             backgroundColor: theme.palette.action.hover
-                        }
+                        },
+                        cursor: onRowClick ? 'pointer' : 'default'
+                    },
+                    '& .MuiDataGrid-row.log-row--linked': {
+                        backgroundColor: theme.palette.grey[200]
+                    },
+                    '& .MuiDataGrid-row.log-row--selected-turn': {
+                        backgroundColor: alpha(theme.palette.primary.main, 0.15)
+                    },
+                    '& .MuiDataGrid-row.log-row--playing': {
+                        backgroundColor: alpha(theme.palette.warning.main, 0.25),
+                        boxShadow: `inset 4px 0 0 ${theme.palette.warning.main}`
                     },
                     '& .MuiDataGrid-virtualScroller': {
                         overflow: 'auto !important',
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Autocomplete, Box, Chip, IconButton, TextField, Tooltip, Typography } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { useSnackbar } from 'notistack';
+import { DialogueAct, DialogueActDefinition, DialogueState } from '../types';
+import { formatDialogueAct, parseDialogueAct, validateDialogueAct } from '../utils/dialogueActUtils.ts';
+
+interface DialogueActEditorProps {
+    acts?: DialogueAct[];
+    definitions: DialogueActDefinition[];
+    slotKeys: string[];
+    // ターンの後の対話状態（confirmなどの値の初期値に使う）
+    state?: DialogueState;
+    onChange: (acts: DialogueAct[]) => void;
+}
+
+const NO_ACTS: DialogueAct[] = [];
+
+/**
+ * ターンの対話行為（request(日付)、confirm(人数=3)など）の編集欄。
+ * 対話行為・スロット名・値を選んで追加するほか、「confirm(人数=3)」の形式で直接入力できる。
+ */
+const DialogueActEditor: React.FC<DialogueActEditorProps> = ({
+    acts = NO_ACTS,
+    definitions,
+    slotKeys,
+    state,
+    onChange
+}) => {
+    const { enqueueSnackbar } = useSnackbar();
+    const [actInput, setActInput] = useState('');
+    const [slot, setSlot] = useState('');
+    const [value, setValue] = useState('');
+
+    const parsed = parseDialogueAct(actInput);
+    const definition = definitions.find(item => item.name === parsed?.act);
+    // 入力欄に引数まで書いた場合はスロット・値の欄を使わない
+    const hasInlineArguments = actInput.includes('(');
+    const showSlot = !hasInlineArguments && definition?.argument !== 'none';
+    const showValue = showSlot && definition?.argument !== 'slot';
+
+    const resetInput = () => {
+        setActInput('');
+        setSlot('');
+        setValue('');
+    };
+
+    const handleAdd = () => {
+        if (!parsed) return;
+        const act: DialogueAct = hasInlineArguments ? parsed : {
+            act: parsed.act,
+            ...(showSlot && slot.trim() ? { slot: slot.trim() } : {}),
+            ...(showValue && slot.trim() && value.trim() ? { value: value.trim() } : {})
+        };
+        const error = validateDialogueAct(act, definitions);
+        if (error) {
+            enqueueSnackbar(error, {
+                variant: 'warning',
+                autoHideDuration: 3000,
+                anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+            });
+            // 定義に無い対話行為は確認を促すだけで受け付ける
+            if (definitions.some(item => item.name === act.act)) return;
+        }
+        if (acts.some(item => formatDialogueAct(item) === formatDialogueAct(act))) {
+            resetInput();
+            return;
+        }
+        onChange([...acts, act]);
+        resetInput();
+    };
+
+    const handleSlotChange = (newSlot: string) => {
+        setSlot(newSlot);
+        // 値が未入力なら対話状態の値を入れる
+        if (showValue && !value && state?.[newSlot]) setValue(state[newSlot]);
+    };
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                    対話行為:
+                </Typography>
+                {acts.map((act, index) => {
+                    const error = validateDialogueAct(act, definitions);
+                    return (
+                        <Tooltip key={`${formatDialogueAct(act)}-${index}`} title={error || ''}>
+                            <Chip
+                                label={formatDialogueAct(act)}
+                                size="small"
+                                color={error ? 'warning' : 'primary'}
+                                variant="outlined"
+                                onDelete={() => onChange(acts.filter((_, i) => i !== index))}
+                                sx={{ fontFamily: 'monospace' }}
+                            />
+                        </Tooltip>
+                    );
+                })}
+                <Autocomplete
+                    freeSolo
+                    size="small"
+                    options={definitions.map(item => item.name)}
+                    inputValue={actInput}
+                    onInputChange={(_, newValue) => setActInput(newValue)}
+                    renderOption={({ key, ...optionProps }, option) => {
+                        const description = definitions.find(item => item.name === option)?.description;
+                        return (
+                            <li key={key} {...optionProps}>
+                                <Box>
+                                    <Typography variant="body2">{option}</Typography>
+                                    {description && (
+                                        <Typography variant="caption" color="text.secondary">{description}</Typography>
+                                    )}
+                                </Box>
+                            </li>
+                        );
+                    }}
+                    renderInput={(params) => (
+                        <TextField
+                            {...params}
+                            placeholder="対話行為"
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter' && hasInlineArguments) {
+                                    e.preventDefault();
+                                    handleAdd();
+                                }
+                            }}
+                        />
+                    )}
+                    sx={{ width: 180 }}
+                />
+                {showSlot && (
+                    <Autocomplete
+                        freeSolo
+                        size="small"
+                        options={slotKeys}
+                        inputValue={slot}
+                        onInputChange={(_, newValue) => handleSlotChange(newValue)}
+                        renderInput={(params) => <TextField {...params} placeholder="スロット" />}
+                        sx={{ width: 140 }}
+                    />
+                )}
+                {showValue && (
+                    <TextField
+                        size="small"
+                        placeholder="値"
+                        value={value}
+                        onChange={(e) => setValue(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleAdd();
+                        }}
+                        sx={{ width: 120 }}
+                    />
+                )}
+                <Tooltip title="対話行為を追加">
+                    <span>
+                        <IconButton size="small" color="primary" onClick={handleAdd} disabled={!parsed}>
+                            <AddIcon />
+                        </IconButton>
+                    </span>
+                </Tooltip>
+            </Box>
+        </Box>
+    );
+};
+
+export default DialogueActEditor;
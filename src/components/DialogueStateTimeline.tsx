@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Autocomplete,
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    IconButton,
+    Menu,
+    MenuItem,
+    Stack,
+    TextField,
+    Tooltip,
+    Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import { DialogueStateOperation, Turn } from '../types';
+import { TurnDialogueState } from '../utils/dialogueStateUtils.ts';
+
+interface DialogueStateTimelineProps {
+    turns: Turn[];
+    // deriveDialogueStatesで導出した、ターンごとの対話状態
+    states: TurnDialogueState[];
+    selectedTurnIndex: number;
+    slotKeys: string[];
+    onTurnSelect: (turnIndex: number) => void;
+    // operationがnullの場合は補正を取り消す
+    onOperationChange: (turnIndex: number, key: string, operation: DialogueStateOperation | null) => void;
+}
+
+interface ChipMenuState {
+    anchor: HTMLElement;
+    turnIndex: number;
+    key: string;
+}
+
+interface EditState {
+    turnIndex: number;
+    key: string;
+    value: string;
+}
+
+/**
+ * ターンごとの累積の対話状態を時系列で表示する。
+ * ターンで変わったスロットを強調し、自動の導出が誤っている場合は値の修正・削除・反映しない操作で補正する。
+ */
+const DialogueStateTimeline: React.FC<DialogueStateTimelineProps> = ({
+    turns,
+    states,
+    selectedTurnIndex,
+    slotKeys,
+    onTurnSelect,
+    onOperationChange
+}) => {
+    const [chipMenu, setChipMenu] = useState<ChipMenuState | null>(null);
+    const [editing, setEditing] = useState<EditState | null>(null);
+    const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+    // 選択中のターンを表示範囲に入れる
+    useEffect(() => {
+        itemRefs.current[selectedTurnIndex]?.scrollIntoView({ block: 'nearest' });
+    }, [selectedTurnIndex]);
+
+    const openChipMenu = (e: React.MouseEvent<HTMLElement>, turnIndex: number, key: string) => {
+        e.stopPropagation();
+        setChipMenu({ anchor: e.currentTarget, turnIndex, key });
+    };
+
+    const applyOperation = (operation: DialogueStateOperation | null) => {
+        if (chipMenu) onOperationChange(chipMenu.turnIndex, chipMenu.key, operation);
+        setChipMenu(null);
+    };
+
+    const handleEditSave = () => {
+        if (!editing || !editing.key.trim() || !editing.value.trim()) return;
+        onOperationChange(editing.turnIndex, editing.key.trim(), {
+            key: editing.key.trim(),
+            type: 'set',
+            value: editing.value.trim()
+        });
+        setEditing(null);
+    };
+
+    const menuTurn = chipMenu ? turns[chipMenu.turnIndex] : undefined;
+    const menuState = chipMenu ? states[chipMenu.turnIndex]?.state : undefined;
+    const menuOperation = chipMenu ? menuTurn?.stateOperations?.find(operation => operation.key === chipMenu.key) : undefined;
+
+    return (
+        <Stack spacing={1}>
+            {turns.map((turn, turnIndex) => {
+                if (turn.isDraft) return null;
+                const { state, changes } = states[turnIndex] || { state: {}, changes: [] };
+                const changedKeys = changes.map(change => change.key);
+                const keptOperations = (turn.stateOperations || []).filter(operation => operation.type === 'keep');
+                const isSelected = turnIndex === selectedTurnIndex;
+                return (
+                    <Box
+                        key={turnIndex}
+                        ref={(element: HTMLDivElement | null) => {
+                            itemRefs.current[turnIndex] = element;
+                        }}
+                        onClick={() => onTurnSelect(turnIndex)}
+                        sx={{
+                            p: 1,
+                            borderRadius: 1,
+                            border: 1,
+                            borderColor: isSelected ? 'primary.main' : 'divider',
+                            bgcolor: isSelected ? 'rgba(25, 118, 210, 0.04)' : 'background.paper',
+                            cursor: 'pointer'
+                        }}
+                    >
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 0.5 }}>
+                            <Typography variant="subtitle2" sx={{ fontWeight: 'bold', flex: 1 }}>
+                                {`ターン ${turnIndex + 1}`}
+                                {turn.speaker && (
+                                    <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                                        {turn.speaker}
+                                    </Typography>
+                                )}
+                            </Typography>
+                            <Tooltip title="値を設定">
+                                <IconButton
+                                    size="small"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        setEditing({ turnIndex, key: '', value: '' });
+                                    }}
+                                >
+                                    <AddIcon fontSize="small" />
+                                </IconButton>
+                            </Tooltip>
+                        </Box>
+                        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                            {changes.map(change => (
+                                <Tooltip
+                                    key={change.key}
+                                    title={change.previous !== undefined ? `変更前: ${change.previous}` : ''}
+                                >
+                                    <Chip
+                                        size="small"
+                                        icon={change.explicit ? <EditIcon /> : undefined}
+                                        label={change.value !== undefined ? `${change.key}: ${change.value}` : change.key}
+                                        color={change.value !== undefined ? 'primary' : 'error'}
+                                        variant={change.explicit ? 'filled' : 'outlined'}
+                                        onClick={(e) => openChipMenu(e, turnIndex, change.key)}
+                                        sx={change.value === undefined ? { textDecoration: 'line-through' } : undefined}
+                                    />
+                                </Tooltip>
+                            ))}
+                            {keptOperations.map(operation => (
+                                <Chip
+                                    key={`keep-${operation.key}`}
+                                    size="small"
+                                    icon={<EditIcon />}
+                                    label={`${operation.key}: 反映しない`}
+                                    color="warning"
+                                    variant="outlined"
+                                    onClick={(e) => openChipMenu(e, turnIndex, operation.key)}
+                                />
+                            ))}
+                            {Object.keys(state).filter(key => !changedKeys.includes(key)).map(key => (
+                                <Chip
+                                    key={key}
+                                    size="small"
+                                    label={`${key}: ${state[key]}`}
+                                    variant="outlined"
+                                    onClick={(e) => openChipMenu(e, turnIndex, key)}
+                                    sx={{ color: 'text.secondary' }}
+                                />
+                            ))}
+                            {Object.keys(state).length === 0 && changes.length === 0 && keptOperations.length === 0 && (
+                                <Typography variant="caption" color="text.disabled">
+                                    （空）
+                                </Typography>
+                            )}
+                        </Box>
+                    </Box>
+                );
+            })}
+
+            <Menu open={!!chipMenu} anchorEl={chipMenu?.anchor} onClose={() => setChipMenu(null)}>
+                <MenuItem
+                    onClick={() => {
+                        if (chipMenu) {
+                            setEditing({ turnIndex: chipMenu.turnIndex, key: chipMenu.key, value: menuState?.[chipMenu.key] || '' });
+                        }
+                        setChipMenu(null);
+                    }}
+                >
+                    値を修正
+                </MenuItem>
+                {chipMenu && menuState && chipMenu.key in menuState && (
+                    <MenuItem onClick={() => applyOperation({ key: chipMenu.key, type: 'delete' })}>
+                        このターンで削除
+                    </MenuItem>
+                )}
+                {chipMenu && menuTurn?.slots.some(slot => slot.key === chipMenu.key) && menuOperation?.type !== 'keep' && (
+                    <MenuItem onClick={() => applyOperation({ key: chipMenu.key, type: 'keep' })}>
+                        このターンのスロットを反映しない
+                    </MenuItem>
+                )}
+                {menuOperation && (
+                    <MenuItem onClick={() => applyOperation(null)}>
+                        補正を取り消す
+                    </MenuItem>
+                )}
+            </Menu>
+
+            <Dialog open={!!editing} onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+                <DialogTitle>
+                    {editing ? `ターン ${editing.turnIndex + 1} の対話状態を設定` : ''}
+                </DialogTitle>
+                <DialogContent>
+                    <Stack spacing={2} sx={{ mt: 1 }}>
+                        <Autocomplete
+                            freeSolo
+                            options={slotKeys}
+                            value={editing?.key || ''}
+                            onInputChange={(_, value) => setEditing(prev => prev && { ...prev, key: value })}
+                            renderInput={(params) => <TextField {...params} label="スロット" size="small" />}
+                        />
+                        <TextField
+                            label="値"
+                            size="small"
+                            value={editing?.value || ''}
+                            onChange={(e) => setEditing(prev => prev && { ...prev, value: e.target.value })}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleEditSave();
+                            }}
+                        />
+                    </Stack>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={() => setEditing(null)}>キャンセル</Button>
+                    <Button
+                        variant="contained"
+                        onClick={handleEditSave}
+                        disabled={!editing?.key.trim() || !editing?.value.trim()}
+                    >
+                        設定
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Stack>
+    );
+};
+
+export default DialogueStateTimeline;
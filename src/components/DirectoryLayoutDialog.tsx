@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    LinearProgress,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography
+} from '@mui/material';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import { DirectoryLayout, ScanResult } from '../types';
+import { scanDirectory } from '../utils/fileUtils.ts';
+import { DEFAULT_DIRECTORY_LAYOUT, validateLayout } from '../utils/layoutUtils.ts';
+
+interface DirectoryLayoutDialogProps {
+    open: boolean;
+    onClose: () => void;
+    directoryHandle: FileSystemDirectoryHandle | null;
+    layout: DirectoryLayout;
+    // saveToProjectがtrueの場合はproject.jsonにも書き出す
+    onApply: (layout: DirectoryLayout, result: ScanResult, saveToProject: boolean) => void;
+}
+
+// プレビューに表示する会話の上限
+const PREVIEW_LIMIT = 200;
+
+const parseExtensions = (text: string) =>
+    text.split(',').map(ext => ext.trim().replace(/^\./, '').toLowerCase()).filter(ext => ext);
+
+const DirectoryLayoutDialog: React.FC<DirectoryLayoutDialogProps> = ({
+    open,
+    onClose,
+    directoryHandle,
+    layout,
+    onApply
+}) => {
+    const [draft, setDraft] = useState<DirectoryLayout>(layout);
+    const [extensionsText, setExtensionsText] = useState(layout.audioExtensions.join(', '));
+    const [saveToProject, setSaveToProject] = useState(true);
+    const [preview, setPreview] = useState<ScanResult | null>(null);
+    const [scanning, setScanning] = useState(false);
+
+    // 開くたびに現在の構成から編集を始める
+    useEffect(() => {
+        if (open) {
+            setDraft(layout);
+            setExtensionsText(layout.audioExtensions.join(', '));
+            setPreview(null);
+        }
+    }, [open, layout]);
+
+    const editedLayout: DirectoryLayout = { ...draft, audioExtensions: parseExtensions(extensionsText) };
+    const validationError = validateLayout(editedLayout);
+
+    const updateDraft = (changes: Partial<DirectoryLayout>) => {
+        setDraft(prev => ({ ...prev, ...changes }));
+        setPreview(null);
+    };
+
+    const handlePreview = async () => {
+        if (!directoryHandle || validationError) return;
+        setScanning(true);
+        try {
+            setPreview(await scanDirectory(directoryHandle, editedLayout));
+        } catch (error) {
+            console.error('Failed to preview directory layout:', error);
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!preview) return;
+        onApply(editedLayout, preview, saveToProject);
+        onClose();
+    };
+
+    return (
+        <Dialog open={open} onClose={scanning ? undefined : onClose} maxWidth="md" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <AccountTreeIcon />
+                ディレクトリ構成
+            </DialogTitle>
+            <DialogContent dividers>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    データディレクトリからの相対パスのパターンを"/"区切りで指定します。
+                    {'{customer}'}・{'{conversation}'}の位置から顧客ID・対話IDを取り出し、*は任意の文字列、{'{ext}'}は音声の拡張子に一致します。
+                </Typography>
+                <Stack spacing={2}>
+                    <TextField
+                        label="音声ファイルのパターン"
+                        size="small"
+                        value={draft.audioPattern}
+                        placeholder={DEFAULT_DIRECTORY_LAYOUT.audioPattern}
+                        helperText="{conversation}を含まない場合はファイル名（拡張子を除く）を対話IDとします"
+                        onChange={(e) => updateDraft({ audioPattern: e.target.value })}
+                    />
+                    <TextField
+                        label="会話ログのパターン"
+                        size="small"
+                        value={draft.logPattern}
+                        placeholder={DEFAULT_DIRECTORY_LAYOUT.logPattern}
+                        helperText="CSV・TSVのどちらにも対応しています"
+                        onChange={(e) => updateDraft({ logPattern: e.target.value })}
+                    />
+                    <TextField
+                        label="音声の拡張子（カンマ区切り）"
+                        size="small"
+                        value={extensionsText}
+                        onChange={(e) => {
+                            setExtensionsText(e.target.value);
+                            setPreview(null);
+                        }}
+                    />
+                    <Stack direction="row" spacing={2}>
+                        <TextField
+                            label="処理済み音声のファイル名"
+                            size="small"
+                            fullWidth
+                            value={draft.processedAudioName}
+                            helperText="拡張子を除いた名前"
+                            onChange={(e) => updateDraft({ processedAudioName: e.target.value })}
+                        />
+                        <TextField
+                            label="元の音声のファイル名"
+                            size="small"
+                            fullWidth
+                            value={draft.originalAudioName}
+                            helperText="拡張子を除いた名前"
+                            onChange={(e) => updateDraft({ originalAudioName: e.target.value })}
+                        />
+                    </Stack>
+                </Stack>
+                {validationError && (
+                    <Alert severity="error" sx={{ mt: 2 }}>{validationError}</Alert>
+                )}
+                {!directoryHandle && (
+                    <Alert severity="info" sx={{ mt: 2 }}>プレビューするには先にディレクトリを選択してください</Alert>
+                )}
+                {scanning && <LinearProgress sx={{ mt: 2 }} />}
+                {preview && (
+                    <Box sx={{ mt: 2 }}>
+                        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                            {`見つかった会話: ${preview.conversations.length}件 / 問題: ${preview.issues.length}件`}
+                        </Typography>
+                        {preview.conversations.length > 0 && (
+                            <Box sx={{ maxHeight: 320, overflow: 'auto' }}>
+                                <Table size="small" stickyHeader>
+                                    <TableHead>
+                                        <TableRow>
+                                            <TableCell>顧客ID</TableCell>
+                                            <TableCell>対話ID</TableCell>
+                                            <TableCell>音声</TableCell>
+                                            <TableCell>会話ログ</TableCell>
+                                        </TableRow>
+                                    </TableHead>
+                                    <TableBody>
+                                        {preview.conversations.slice(0, PREVIEW_LIMIT).map(conversation => (
+                                            <TableRow key={`${conversation.customerId}/${conversation.conversationId}`}>
+                                                <TableCell>{conversation.customerId}</TableCell>
+                                                <TableCell>{conversation.conversationId}</TableCell>
+                                                <TableCell sx={{ fontFamily: 'monospace' }}>{conversation.audioFilePath}</TableCell>
+                                                <TableCell sx={{ fontFamily: 'monospace' }}>{conversation.conversationLogPath}</TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </Box>
+                        )}
+                        {preview.conversations.length > PREVIEW_LIMIT && (
+                            <Typography variant="caption" color="text.secondary">
+                                {`ほか${preview.conversations.length - PREVIEW_LIMIT}件`}
+                            </Typography>
+                        )}
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                <Box sx={{ flex: 1 }}>
+                    <FormControlLabel
+                        control={<Checkbox checked={saveToProject} onChange={(e) => setSaveToProject(e.target.checked)} />}
+                        label="project.jsonに保存する"
+                    />
+                </Box>
+                <Button onClick={onClose} disabled={scanning}>キャンセル</Button>
+                <Button onClick={handlePreview} disabled={!directoryHandle || !!validationError || scanning}>
+                    プレビュー
+                </Button>
+                <Button variant="contained" onClick={handleApply} disabled={!preview || scanning}>
+                    この構成で読み込む
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default DirectoryLayoutDialog;
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react';
+import { Autocomplete, Box, TextField, Tooltip, Typography } from '@mui/material';
+import { IntentDefinition } from '../types';
+import {
+    getIntentCategory,
+    getIntentLeaf,
+    searchIntents,
+    sortIntentsByCategory
+} from '../utils/intentUtils.ts';
+
+interface IntentPickerProps {
+    value: string;
+    intents: IntentDefinition[];
+    // 入力中の値（確定前）
+    onInputChange: (value: string) => void;
+    // 候補を選んだときの値
+    onChange: (value: string) => void;
+    onBlur?: () => void;
+    // 選んだ後に入力欄を空にする（インテントを追加していく場合）
+    clearOnSelect?: boolean;
+}
+
+const NO_CATEGORY_LABEL = '（カテゴリなし）';
+
+const getCategoryLabel = (intent: IntentDefinition) => getIntentCategory(intent.name) || NO_CATEGORY_LABEL;
+
+// 説明と発話例をツールチップに表示する
+const getIntentTooltip = (intent: IntentDefinition | undefined) => {
+    if (!intent || (!intent.description && !intent.examples?.length)) return '';
+    return (
+        <Box>
+            {intent.description && <Typography variant="body2">{intent.description}</Typography>}
+            {intent.examples?.map(example => (
+                <Typography key={example} variant="caption" component="div">{`例: ${example}`}</Typography>
+            ))}
+        </Box>
+    );
+};
+
+/**
+ * カテゴリごとにまとめて表示し、入力中は名前・説明・同義語・読み（かな・ローマ字）であいまい検索するインテントの選択欄。
+ */
+const IntentPicker: React.FC<IntentPickerProps> = ({
+    value,
+    intents,
+    onInputChange,
+    onChange,
+    onBlur,
+    clearOnSelect = false
+}) => {
+    const sortedIntents = useMemo(() => sortIntentsByCategory(intents), [intents]);
+    const selectedIntent = intents.find(intent => intent.name === value);
+
+    // 一致度順の結果を、最も一致したものを含むカテゴリから順にまとめ直す（カテゴリの見出しが重複しないように）
+    const filterOptions = (options: IntentDefinition[], { inputValue }: { inputValue: string }) => {
+        if (!inputValue.trim()) return options;
+        const results = searchIntents(options, inputValue);
+        const categories = Array.from(new Set(results.map(getCategoryLabel)));
+        return categories.flatMap(category => results.filter(intent => getCategoryLabel(intent) === category));
+    };
+
+    return (
+        <Tooltip title={getIntentTooltip(selectedIntent)} placement="top">
+            <Autocomplete<IntentDefinition, false, false, true>
+                freeSolo
+                size="small"
+                value={clearOnSelect ? null : selectedIntent || value}
+                inputValue={value}
+                options={sortedIntents}
+                groupBy={getCategoryLabel}
+                filterOptions={filterOptions}
+                getOptionLabel={(option) => (typeof option === 'string' ? option : option.name)}
+                isOptionEqualToValue={(option, selected) => option.name === selected.name}
+                onChange={(_, newValue) => {
+                    onChange(typeof newValue === 'string' ? newValue : newValue?.name || '');
+                }}
+                onInputChange={(_, newValue, reason) => {
+                    // 選んだ候補の名前で入力欄が置き換えられるのを防ぐ
+                    if (clearOnSelect && reason === 'reset') return;
+                    onInputChange(newValue);
+                }}
+                onBlur={onBlur}
+                sx={{ width: '100%' }}
+                renderOption={({ key, ...optionProps }, option) => (
+                    <Tooltip key={key} title={getIntentTooltip(option)} placement="right">
+                        <li {...optionProps}>
+                            <Box>
+                                <Typography variant="body2">{getIntentLeaf(option.name)}</Typography>
+                                {option.synonyms && option.synonyms.length > 0 && (
+                                    <Typography variant="caption" color="text.secondary">
+                                        {option.synonyms.join('、')}
+                                    </Typography>
+                                )}
+                            </Box>
+                        </li>
+                    </Tooltip>
+                )}
+                renderInput={(params) => (
+                    <TextField
+                        {...params}
+                        placeholder="インテントを入力（かな・ローマ字で検索）"
+                        size="small"
+                    />
+                )}
+            />
+        </Tooltip>
+    );
+};
+
+export default IntentPicker;
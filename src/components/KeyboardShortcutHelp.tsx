@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import {
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography
+} from '@mui/material';
+import KeyboardIcon from '@mui/icons-material/Keyboard';
+import { ShortcutAction, UserSettings } from '../types';
+import {
+    DEFAULT_KEY_BINDINGS,
+    SHORTCUT_ACTION_LABELS,
+    eventToKeyString,
+    formatKeyString
+} from '../utils/settingsUtils.ts';
+
+interface KeyboardShortcutHelpProps {
+    open: boolean;
+    onClose: () => void;
+    settings: UserSettings;
+    onSettingsChange: (settings: UserSettings) => void;
+}
+
+// 単独では割り当てられない修飾キー
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta'];
+
+const KeyboardShortcutHelp: React.FC<KeyboardShortcutHelpProps> = ({
+    open,
+    onClose,
+    settings,
+    onSettingsChange
+}) => {
+    // キー入力を待っている操作
+    const [capturingAction, setCapturingAction] = useState<ShortcutAction | null>(null);
+
+    const handleKeyDown = (event: React.KeyboardEvent) => {
+        if (!capturingAction) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (event.key === 'Escape') {
+            setCapturingAction(null);
+            return;
+        }
+        if (MODIFIER_KEYS.includes(event.key)) return;
+
+        const keyString = eventToKeyString(event.nativeEvent);
+
+        // 同じキーが別の操作に割り当てられていれば入れ替える
+        const newBindings = { ...settings.keyBindings };
+        const conflictingAction = (Object.keys(newBindings) as ShortcutAction[])
+            .find(action => action !== capturingAction && newBindings[action] === keyString);
+        if (conflictingAction) {
+            newBindings[conflictingAction] = newBindings[capturingAction];
+        }
+        newBindings[capturingAction] = keyString;
+
+        onSettingsChange({ ...settings, keyBindings: newBindings });
+        setCapturingAction(null);
+    };
+
+    const handleClose = () => {
+        setCapturingAction(null);
+        onClose();
+    };
+
+    return (
+        <Dialog
+            open={open}
+            onClose={handleClose}
+            onKeyDown={handleKeyDown}
+            disableEscapeKeyDown={capturingAction !== null}
+            maxWidth="sm"
+            fullWidth
+            PaperProps={{
+                sx: {
+                    borderRadius: 2,
+                    boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)'
+                }
+            }}
+        >
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <KeyboardIcon />
+                キーボードショートカット
+            </DialogTitle>
+            <DialogContent dividers>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    インテントやスロットの入力中はショートカットは無効になります。
+                    「変更」を押してから新しいキーを押すと割り当てを変更できます（Escでキャンセル）。
+                </Typography>
+                <Table size="small">
+                    <TableHead>
+                        <TableRow>
+                            <TableCell>操作</TableCell>
+                            <TableCell>キー</TableCell>
+                            <TableCell />
+                        </TableRow>
+                    </TableHead>
+                    <TableBody>
+                        {(Object.keys(SHORTCUT_ACTION_LABELS) as ShortcutAction[]).map(action => (
+                            <TableRow key={action} selected={capturingAction === action}>
+                                <TableCell>{SHORTCUT_ACTION_LABELS[action]}</TableCell>
+                                <TableCell>
+                                    {capturingAction === action ? (
+                                        <Typography variant="body2" color="primary">
+                                            キーを押してください…
+                                        </Typography>
+                                    ) : (
+                                        <Chip
+                                            label={formatKeyString(settings.keyBindings[action])}
+                                            size="small"
+                                            variant="outlined"
+                                            sx={{ fontFamily: 'monospace' }}
+                                        />
+                                    )}
+                                </TableCell>
+                                <TableCell align="right">
+                                    <Button
+                                        size="small"
+                                        onClick={() => setCapturingAction(action)}
+                                        disabled={capturingAction !== null && capturingAction !== action}
+                                    >
+                                        変更
+                                    </Button>
+                                </TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+                <Stack direction="row" spacing={2} sx={{ mt: 3 }}>
+                    <TextField
+                        label="移動量（秒）"
+                        type="number"
+                        size="small"
+                        value={settings.seekStep}
+                        inputProps={{ step: 0.05, min: 0.01 }}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value > 0) onSettingsChange({ ...settings, seekStep: value });
+                        }}
+                    />
+                    <TextField
+                        label="大きな移動量（秒）"
+                        type="number"
+                        size="small"
+                        value={settings.largeSeekStep}
+                        inputProps={{ step: 0.5, min: 0.1 }}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value > 0) onSettingsChange({ ...settings, largeSeekStep: value });
+                        }}
+                    />
+                </Stack>
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                <Box sx={{ flex: 1 }}>
+                    <Button
+                        color="warning"
+                        onClick={() => onSettingsChange({ ...settings, keyBindings: DEFAULT_KEY_BINDINGS })}
+                    >
+                        初期設定に戻す
+                    </Button>
+                </Box>
+                <Button onClick={handleClose} variant="contained">
+                    閉じる
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default KeyboardShortcutHelp;
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    LinearProgress,
+    MenuItem,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    TextField,
+    Typography
+} from '@mui/material';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import { AudioSource, ConversationLog, Segment, VadParams } from '../types';
+import {
+    AlignedRow,
+    LogColumnMapping,
+    TimestampUnit,
+    alignRowsToSegments,
+    getLogValue,
+    getTextWeight,
+    guessColumnMapping,
+    guessTimestampUnit,
+    rowsFromTimestamps
+} from '../utils/alignmentUtils.ts';
+import { convertAudioTime, decodeAudioFile, getMonoSamples } from '../utils/audioUtils.ts';
+import { computeFrameFeatures, detectSpeechSegments, excludeOverlappingSegments } from '../utils/vadUtils.ts';
+
+interface LogAlignmentDialogProps {
+    open: boolean;
+    onClose: () => void;
+    logs: ConversationLog[];
+    audioFile: File | null;
+    // 読み込んでいる音声（ターンの区間の時刻の基準）と、処理済み音声の先頭が元の音声の何秒目にあたるか
+    audioSource: AudioSource;
+    audioOffset: number;
+    // 対話ログの時刻の基準の初期値（project.jsonのlogTimeBase）
+    defaultTimestampSource: AudioSource;
+    vadParams: VadParams;
+    // 既存のターンの区間（重なる候補は除く）
+    existingSegments: Segment[];
+    // 既存のターンに紐付いている行（候補から除く）
+    linkedRows: Map<number, number>;
+    onApply: (rows: AlignedRow[]) => void;
+}
+
+// プレビューに表示する行の上限
+const PREVIEW_LIMIT = 100;
+
+const MAPPING_FIELDS: { key: keyof LogColumnMapping; label: string }[] = [
+    { key: 'start', label: '開始時刻' },
+    { key: 'end', label: '終了時刻' },
+    { key: 'speaker', label: '話者' },
+    { key: 'text', label: '発話内容' }
+];
+
+/**
+ * 対話ログ（conversation.csv）の行から下書きターンを作るダイアログ。
+ * 開始・終了時刻の列がある場合はその時刻で区間を作り、無い場合は自動区間検出の区間に行を順に割り当てる。
+ */
+const LogAlignmentDialog: React.FC<LogAlignmentDialogProps> = ({
+    open,
+    onClose,
+    logs,
+    audioFile,
+    audioSource,
+    audioOffset,
+    defaultTimestampSource,
+    vadParams,
+    existingSegments,
+    linkedRows,
+    onApply
+}) => {
+    const columns = useMemo(() => (logs.length > 0 ? Object.keys(logs[0]) : []), [logs]);
+    const [mapping, setMapping] = useState<LogColumnMapping>({});
+    const [unit, setUnit] = useState<TimestampUnit>('seconds');
+    const [timestampSource, setTimestampSource] = useState<AudioSource>(defaultTimestampSource);
+    const [vadSegments, setVadSegments] = useState<Segment[] | null>(null);
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+
+    // 開くたびに列名から対応を推測し直す
+    useEffect(() => {
+        if (open) {
+            const guessed = guessColumnMapping(columns);
+            setMapping(guessed);
+            setUnit(guessTimestampUnit(guessed.start));
+            setTimestampSource(defaultTimestampSource);
+        }
+    }, [open, columns, defaultTimestampSource]);
+
+    const hasTimestamps = !!mapping.start && !!mapping.end;
+
+    // 音声や検出のパラメータが変わったら検出し直す
+    useEffect(() => {
+        setVadSegments(null);
+        setAnalysisError(null);
+    }, [audioFile, vadParams]);
+
+    // 時刻の列が無い場合だけ、音声から発話区間を検出する
+    useEffect(() => {
+        if (!open || hasTimestamps || !audioFile || vadSegments || analysisError) return;
+        let cancelled = false;
+        (async () => {
+            try {
+                const buffer = await decodeAudioFile(audioFile);
+                const features = computeFrameFeatures(getMonoSamples(buffer), buffer.sampleRate, vadParams.frameMs);
+                if (!cancelled) setVadSegments(detectSpeechSegments(features, vadParams));
+            } catch (error) {
+                console.error('Failed to analyze audio for alignment:', error);
+                if (!cancelled) setAnalysisError(error instanceof Error ? error.message : String(error));
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [open, hasTimestamps, audioFile, vadParams, vadSegments, analysisError]);
+
+    const proposals: AlignedRow[] = useMemo(() => {
+        if (hasTimestamps) {
+            const rows = rowsFromTimestamps(
+                logs,
+                mapping,
+                unit,
+                time => convertAudioTime(time, timestampSource, audioSource, audioOffset)
+            );
+            const segments = excludeOverlappingSegments(rows.map(row => row.segment), existingSegments);
+            return rows.filter(row => !linkedRows.has(row.row) && segments.includes(row.segment));
+        }
+        if (!vadSegments) return [];
+        const rows = logs.map((_, row) => row).filter(row => !linkedRows.has(row));
+        const texts = rows.map(row => getLogValue(logs[row], mapping.text));
+        const segments = alignRowsToSegments(
+            texts.map(getTextWeight),
+            excludeOverlappingSegments(vadSegments, existingSegments)
+        );
+        return segments.map((segment, index) => ({
+            row: rows[index],
+            segment,
+            speaker: getLogValue(logs[rows[index]], mapping.speaker) || undefined,
+            text: texts[index]
+        }));
+    }, [hasTimestamps, logs, mapping, unit, timestampSource, audioSource, audioOffset, existingSegments, linkedRows, vadSegments]);
+
+    const isAnalyzing = open && !hasTimestamps && !!audioFile && !vadSegments && !analysisError;
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <PlaylistAddIcon />
+                対話ログからターンを作成
+            </DialogTitle>
+            <DialogContent dividers>
+                <Stack spacing={2}>
+                    <Stack direction="row" spacing={1}>
+                        {MAPPING_FIELDS.map(field => (
+                            <TextField
+                                key={field.key}
+                                select
+                                size="small"
+                                label={field.label}
+                                value={mapping[field.key] || ''}
+                                onChange={(e) => setMapping(prev => ({ ...prev, [field.key]: e.target.value || undefined }))}
+                                sx={{ flex: 1 }}
+                            >
+                                <MenuItem value="">
+                                    <em>使わない</em>
+                                </MenuItem>
+                                {columns.map(column => (
+                                    <MenuItem key={column} value={column}>{column}</MenuItem>
+                                ))}
+                            </TextField>
+                        ))}
+                    </Stack>
+                    {hasTimestamps ? (
+                        <Stack direction="row" spacing={1}>
+                            <TextField
+                                select
+                                size="small"
+                                label="時刻の単位"
+                                value={unit}
+                                onChange={(e) => setUnit(e.target.value as TimestampUnit)}
+                                sx={{ width: 200 }}
+                            >
+                                <MenuItem value="seconds">秒（または時:分:秒）</MenuItem>
+                                <MenuItem value="milliseconds">ミリ秒</MenuItem>
+                            </TextField>
+                            <TextField
+                                select
+                                size="small"
+                                label="時刻の基準"
+                                value={timestampSource}
+                                onChange={(e) => setTimestampSource(e.target.value as AudioSource)}
+                                sx={{ width: 200 }}
+                            >
+                                <MenuItem value="processed">処理済み音声</MenuItem>
+                                <MenuItem value="original">元音声</MenuItem>
+                            </TextField>
+                        </Stack>
+                    ) : (
+                        <Alert severity="info">
+                            開始・終了時刻の列が無いため、自動区間検出（波形画面の設定）で見つけた発話区間に行を順番に割り当てます。
+                            区間の長さと発話の文字数の比率から推定した下書きなので、波形上で確認・修正してください。
+                        </Alert>
+                    )}
+                    {isAnalyzing && <LinearProgress />}
+                    {analysisError && (
+                        <Alert severity="error">{`音声を解析できませんでした（${analysisError}）`}</Alert>
+                    )}
+                    {linkedRows.size > 0 && (
+                        <Typography variant="body2" color="text.secondary">
+                            既存のターンに紐付いている行と、既存のターンと重なる区間は除きます
+                        </Typography>
+                    )}
+                    <Typography variant="body2">{`候補: ${proposals.length}ターン`}</Typography>
+                    <Box sx={{ maxHeight: 360, overflow: 'auto' }}>
+                        <Table size="small" stickyHeader>
+                            <TableHead>
+                                <TableRow>
+                                    <TableCell>行</TableCell>
+                                    <TableCell>開始</TableCell>
+                                    <TableCell>終了</TableCell>
+                                    <TableCell>話者</TableCell>
+                                    <TableCell>発話内容</TableCell>
+                                </TableRow>
+                            </TableHead>
+                            <TableBody>
+                                {proposals.slice(0, PREVIEW_LIMIT).map(proposal => (
+                                    <TableRow key={proposal.row}>
+                                        <TableCell>{proposal.row + 1}</TableCell>
+                                        <TableCell>{proposal.segment.start.toFixed(2)}</TableCell>
+                                        <TableCell>{proposal.segment.end.toFixed(2)}</TableCell>
+                                        <TableCell>{proposal.speaker || ''}</TableCell>
+                                        <TableCell>{proposal.text}</TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </Box>
+                    {proposals.length > PREVIEW_LIMIT && (
+                        <Typography variant="caption" color="text.secondary">
+                            {`ほか${proposals.length - PREVIEW_LIMIT}ターン`}
+                        </Typography>
+                    )}
+                </Stack>
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button
+                    variant="contained"
+                    onClick={() => onApply(proposals)}
+                    disabled={proposals.length === 0}
+                >
+                    下書きターンとして追加
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default LogAlignmentDialog;
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+    Alert,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    LinearProgress,
+    List,
+    ListItem,
+    ListItemText,
+    MenuItem,
+    Stack,
+    TextField,
+    Typography
+} from '@mui/material';
+import TransformIcon from '@mui/icons-material/Transform';
+import { ConversationData } from '../types';
+import {
+    DEFAULT_TRIM_SECONDS,
+    DownmixMode,
+    PROCESSED_SAMPLE_RATE,
+    PreprocessWorkerRequest
+} from '../utils/preprocessUtils.ts';
+
+export interface PreprocessResult {
+    conversation: ConversationData;
+    file: File;
+    // 処理済み音声を書き出した場合のファイルハンドル
+    fileHandle: FileSystemFileHandle | null;
+}
+
+interface PreprocessDialogProps {
+    open: boolean;
+    onClose: () => void;
+    // 処理済み音声が無い会話
+    conversations: ConversationData[];
+    onComplete: (results: PreprocessResult[]) => void;
+    // 会話フォルダに書き出すファイル名
+    processedFileName?: string;
+}
+
+interface PreprocessError {
+    conversation: ConversationData;
+    message: string;
+}
+
+type PreprocessStatus = 'idle' | 'running' | 'done';
+
+const runPreprocessWorker = (worker: Worker, request: PreprocessWorkerRequest) =>
+    new Promise<ArrayBuffer>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<ArrayBuffer>) => resolve(event.data);
+        worker.onerror = (error) => reject(new Error(error.message));
+        worker.postMessage(request, request.channels.map(channel => channel.buffer));
+    });
+
+const getConversationLabel = (conversation: ConversationData) =>
+    `${conversation.customerId} / ${conversation.conversationId}`;
+
+const PreprocessDialog: React.FC<PreprocessDialogProps> = ({
+    open,
+    onClose,
+    conversations,
+    onComplete,
+    processedFileName = 'audio_processed.wav'
+}) => {
+    const [trimSeconds, setTrimSeconds] = useState(DEFAULT_TRIM_SECONDS);
+    const [downmixMode, setDownmixMode] = useState<DownmixMode>('mix');
+    const [writeFiles, setWriteFiles] = useState(true);
+    const [status, setStatus] = useState<PreprocessStatus>('idle');
+    const [processedCount, setProcessedCount] = useState(0);
+    // 処理中に対象の一覧が変わっても進捗がずれないよう、開始時の件数を保持する
+    const [batchTotal, setBatchTotal] = useState(0);
+    const [currentConversation, setCurrentConversation] = useState<ConversationData | null>(null);
+    const [results, setResults] = useState<PreprocessResult[]>([]);
+    const [errors, setErrors] = useState<PreprocessError[]>([]);
+    const cancelRef = useRef(false);
+
+    // 一括処理が終わったら結果を通知（最新のonCompleteを使うため描画後に呼ぶ）
+    useEffect(() => {
+        if (status === 'done' && results.length > 0) {
+            onComplete(results);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [status]);
+
+    const handleStart = async () => {
+        const targets = conversations;
+        cancelRef.current = false;
+        setStatus('running');
+        setBatchTotal(targets.length);
+        setProcessedCount(0);
+        setResults([]);
+        setErrors([]);
+
+        const worker = new Worker(new URL('../workers/preprocess.worker.ts', import.meta.url));
+        const audioContext = new AudioContext();
+        const newResults: PreprocessResult[] = [];
+
+        for (const conversation of targets) {
+            if (cancelRef.current) break;
+            setCurrentConversation(conversation);
+            try {
+                if (!conversation.originalAudioFileHandle) {
+                    throw new Error('元の音声が見つかりません');
+                }
+                const originalFile = await conversation.originalAudioFileHandle.getFile();
+                const audioBuffer = await audioContext.decodeAudioData(await originalFile.arrayBuffer());
+                const channels = Array.from(
+                    { length: audioBuffer.numberOfChannels },
+                    (_, channel) => audioBuffer.getChannelData(channel).slice()
+                );
+
+                const wav = await runPreprocessWorker(worker, {
+                    channels,
+                    sampleRate: audioBuffer.sampleRate,
+                    trimSeconds,
+                    downmixMode
+                });
+                const file = new File([wav], processedFileName, { type: 'audio/wav' });
+
+                let fileHandle: FileSystemFileHandle | null = null;
+                if (writeFiles && conversation.conversationDirectoryHandle) {
+                    fileHandle = await conversation.conversationDirectoryHandle.getFileHandle(processedFileName, { create: true });
+                    const writable = await fileHandle.createWritable();
+                    await writable.write(wav);
+                    await writable.close();
+                }
+
+                newResults.push({ conversation, file, fileHandle });
+            } catch (error) {
+                console.error('Failed to preprocess audio:', error);
+                setErrors(prev => [...prev, {
+                    conversation,
+                    message: error instanceof Error ? error.message : String(error)
+                }]);
+            }
+            setProcessedCount(count => count + 1);
+        }
+
+        worker.terminate();
+        await audioContext.close();
+        setCurrentConversation(null);
+        setResults(newResults);
+        setStatus('done');
+    };
+
+    const handleClose = () => {
+        if (status === 'running') return;
+        setStatus('idle');
+        onClose();
+    };
+
+    const total = status === 'idle' ? conversations.length : batchTotal;
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <TransformIcon />
+                音声の前処理
+            </DialogTitle>
+            <DialogContent dividers>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {`処理済み音声が無い${total}件の会話について、元の音声を${PROCESSED_SAMPLE_RATE / 1000}kHzのモノラル音声に変換します。`}
+                </Typography>
+                {status === 'idle' && (
+                    <Stack spacing={2}>
+                        <TextField
+                            label="先頭の切り落とし（秒）"
+                            type="number"
+                            size="small"
+                            value={trimSeconds}
+                            inputProps={{ step: 0.5, min: 0 }}
+                            helperText="convert_to_mono.shと同じく2秒にすると既存の処理済み音声と時刻が揃います"
+                            onChange={(e) => {
+                                const value = parseFloat(e.target.value);
+                                if (value >= 0) setTrimSeconds(value);
+                            }}
+                        />
+                        <TextField
+                            select
+                            label="チャンネル"
+                            size="small"
+                            value={downmixMode}
+                            onChange={(e) => setDownmixMode(e.target.value as DownmixMode)}
+                        >
+                            <MenuItem value="mix">全チャンネルを平均</MenuItem>
+                            <MenuItem value="first">左チャンネルのみ（convert_to_mono.shと同じ）</MenuItem>
+                        </TextField>
+                        <FormControlLabel
+                            control={<Checkbox checked={writeFiles} onChange={(e) => setWriteFiles(e.target.checked)} />}
+                            label={`${processedFileName}として各会話のフォルダに書き出す`}
+                        />
+                    </Stack>
+                )}
+                {status !== 'idle' && (
+                    <Box>
+                        <Typography variant="body2" sx={{ mb: 1 }}>
+                            {status === 'running'
+                                ? `${processedCount} / ${total} 件${currentConversation ? `（処理中: ${getConversationLabel(currentConversation)}）` : ''}`
+                                : `${results.length}件を処理しました`}
+                        </Typography>
+                        <LinearProgress
+                            variant="determinate"
+                            value={total > 0 ? (processedCount / total) * 100 : 0}
+                        />
+                    </Box>
+                )}
+                {errors.length > 0 && (
+                    <Alert severity="error" sx={{ mt: 2 }}>
+                        {`${errors.length}件の処理に失敗しました`}
+                        <List dense>
+                            {errors.map(({ conversation, message }) => (
+                                <ListItem key={getConversationLabel(conversation)} disableGutters>
+                                    <ListItemText primary={getConversationLabel(conversation)} secondary={message} />
+                                </ListItem>
+                            ))}
+                        </List>
+                    </Alert>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                {status === 'running' ? (
+                    <Button color="warning" onClick={() => { cancelRef.current = true; }}>
+                        中止
+                    </Button>
+                ) : (
+                    <Button onClick={handleClose}>閉じる</Button>
+                )}
+                {status === 'idle' && (
+                    <Button variant="contained" onClick={handleStart} disabled={total === 0}>
+                        変換を開始
+                    </Button>
+                )}
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default PreprocessDialog;
@@ -0,0 +1,663 @@
+import React, { useEffect, useState } from 'react';
+import {
+    Alert,
+    Autocomplete,
+    Box,
+    Button,
+    Checkbox,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    IconButton,
+    MenuItem,
+    Stack,
+    Tab,
+    Tabs,
+    TextField,
+    Typography
+} from '@mui/material';
+import SettingsIcon from '@mui/icons-material/Settings';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { AudioSource, ConversationLabelType, DialogueActArgument, DialogueActDefinition, IntentLabelFormat, MultiIntentExportMode, ProjectConfig, RequiredFields, SlotConstraintPolicy, SlotType } from '../types';
+import {
+    DEFAULT_EXPORT_FILE_NAME,
+    SLOT_TYPE_LABELS,
+    cleanProjectConfig,
+    findDuplicateNames
+} from '../utils/projectUtils.ts';
+import { INTENT_JOIN_SEPARATOR } from '../utils/intentUtils.ts';
+import { DEFAULT_DIALOGUE_ACTS, DIALOGUE_ACT_ARGUMENT_LABELS } from '../utils/dialogueActUtils.ts';
+import {
+    CONVERSATION_LABEL_TYPE_LABELS,
+    DEFAULT_CONVERSATION_LABELS,
+    DEFAULT_RATING_MAX,
+    getConversationLabelDefinitions
+} from '../utils/conversationLabelUtils.ts';
+
+interface ProjectSettingsDialogProps {
+    open: boolean;
+    onClose: () => void;
+    config: ProjectConfig;
+    // 旧形式のファイルから読み込んだ項目がある場合のファイル名
+    legacyFiles: string[];
+    // project.jsonを読み取れなかった場合の内容（この場合は保存しない）
+    loadError?: string | null;
+    onSave: (config: ProjectConfig) => void;
+}
+
+type SettingsTab = 'intents' | 'slots' | 'speakers' | 'dialogueActs' | 'conversationLabels' | 'required' | 'export';
+
+// 入力途中の区切り文字を保つため、一覧は文字列のまま編集する
+interface IntentRow {
+    name: string;
+    reading: string;
+    synonymsText: string;
+    description: string;
+    examplesText: string;
+    requiredSlots: string[];
+    optionalSlots: string[];
+}
+
+interface ConversationLabelRow {
+    key: string;
+    type: ConversationLabelType;
+    valuesText: string;
+    max: number;
+    description: string;
+}
+
+interface SlotRow {
+    key: string;
+    type: SlotType;
+    valuesText: string;
+    pattern: string;
+    description: string;
+}
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(line => line);
+const splitComma = (text: string) => text.split(',').map(item => item.trim()).filter(item => item);
+
+const toIntentRows = (config: ProjectConfig): IntentRow[] =>
+    (config.intents || []).map(intent => ({
+        name: intent.name,
+        reading: intent.reading || '',
+        synonymsText: (intent.synonyms || []).join(', '),
+        description: intent.description || '',
+        examplesText: (intent.examples || []).join('\n'),
+        requiredSlots: intent.requiredSlots || [],
+        optionalSlots: intent.optionalSlots || []
+    }));
+
+const toSlotRows = (config: ProjectConfig): SlotRow[] =>
+    (config.slots || []).map(slot => ({
+        key: slot.key,
+        type: slot.type || 'text',
+        valuesText: (slot.values || []).join(', '),
+        pattern: slot.pattern || '',
+        description: slot.description || ''
+    }));
+
+const toConversationLabelRows = (config: ProjectConfig): ConversationLabelRow[] =>
+    (config.conversationLabels || []).map(label => ({
+        key: label.key,
+        type: label.type,
+        valuesText: (label.values || []).join(', '),
+        max: label.max || DEFAULT_RATING_MAX,
+        description: label.description || ''
+    }));
+
+const ProjectSettingsDialog: React.FC<ProjectSettingsDialogProps> = ({
+    open,
+    onClose,
+    config,
+    legacyFiles,
+    loadError,
+    onSave
+}) => {
+    const [tab, setTab] = useState<SettingsTab>('intents');
+    const [intentRows, setIntentRows] = useState<IntentRow[]>([]);
+    const [slotRows, setSlotRows] = useState<SlotRow[]>([]);
+    const [speakers, setSpeakers] = useState<string[]>([]);
+    const [dialogueActs, setDialogueActs] = useState<DialogueActDefinition[]>([]);
+    const [labelRows, setLabelRows] = useState<ConversationLabelRow[]>([]);
+    const [slotConstraintPolicy, setSlotConstraintPolicy] = useState<SlotConstraintPolicy>('warn');
+    const [required, setRequired] = useState<RequiredFields>({});
+    const [timeBase, setTimeBase] = useState<AudioSource | ''>('');
+    const [exportFileName, setExportFileName] = useState('');
+    const [intentLabel, setIntentLabel] = useState<IntentLabelFormat>('path');
+    const [multiIntent, setMultiIntent] = useState<MultiIntentExportMode>('primary');
+    const [bioTags, setBioTags] = useState(false);
+
+    // 開くたびに現在の設定から編集を始める
+    useEffect(() => {
+        if (open) {
+            setIntentRows(toIntentRows(config));
+            setSlotRows(toSlotRows(config));
+            setSpeakers(config.speakers || []);
+            setDialogueActs(config.dialogueActs || []);
+            setLabelRows(toConversationLabelRows(config));
+            setSlotConstraintPolicy(config.slotConstraintPolicy || 'warn');
+            setRequired(config.required || {});
+            setTimeBase(config.export?.timeBase || '');
+            setExportFileName(config.export?.fileName || '');
+            setIntentLabel(config.export?.intentLabel || 'path');
+            setMultiIntent(config.export?.multiIntent || 'primary');
+            setBioTags(!!config.export?.bioTags);
+        }
+    }, [open, config]);
+
+    const duplicateIntents = findDuplicateNames(intentRows.map(row => row.name.trim()));
+    const duplicateSlots = findDuplicateNames(slotRows.map(row => row.key.trim()));
+    const slotKeys = slotRows.map(row => row.key.trim()).filter(key => key);
+
+    const updateIntentRow = (index: number, changes: Partial<IntentRow>) =>
+        setIntentRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    const updateLabelRow = (index: number, changes: Partial<ConversationLabelRow>) =>
+        setLabelRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+    // 必須項目に指定できる属性（空の場合は既定の属性）
+    const labelKeys = labelRows.length > 0
+        ? labelRows.map(row => row.key.trim()).filter(key => key)
+        : getConversationLabelDefinitions({}).map(label => label.key);
+    const updateSlotRow = (index: number, changes: Partial<SlotRow>) =>
+        setSlotRows(rows => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+    const handleSave = () => {
+        onSave(cleanProjectConfig({
+            ...config,
+            intents: intentRows.map(row => ({
+                name: row.name,
+                reading: row.reading,
+                synonyms: splitComma(row.synonymsText),
+                description: row.description,
+                examples: splitLines(row.examplesText),
+                requiredSlots: row.requiredSlots,
+                optionalSlots: row.optionalSlots.filter(key => !row.requiredSlots.includes(key))
+            })),
+            slotConstraintPolicy,
+            slots: slotRows.map(row => ({
+                key: row.key,
+                type: row.type,
+                values: splitComma(row.valuesText),
+                pattern: row.pattern,
+                description: row.description
+            })),
+            speakers,
+            dialogueActs,
+            conversationLabels: labelRows.map(row => ({
+                key: row.key,
+                type: row.type,
+                values: splitComma(row.valuesText),
+                max: row.max,
+                description: row.description
+            })),
+            required,
+            export: {
+                ...(timeBase ? { timeBase } : {}),
+                ...(exportFileName.trim() ? { fileName: exportFileName.trim() } : {}),
+                ...(intentLabel === 'leaf' ? { intentLabel } : {}),
+                ...(multiIntent !== 'primary' ? { multiIntent } : {}),
+                ...(bioTags ? { bioTags } : {})
+            }
+        }));
+        onClose();
+    };
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <SettingsIcon />
+                プロジェクト設定
+            </DialogTitle>
+            <DialogContent dividers sx={{ minHeight: 480 }}>
+                {loadError && (
+                    <Alert severity="error" sx={{ mb: 2 }}>
+                        {`${loadError}。ファイルを上書きしないよう保存できません。project.jsonを修正してからディレクトリを選択し直してください。`}
+                    </Alert>
+                )}
+                {legacyFiles.length > 0 && (
+                    <Alert severity="info" sx={{ mb: 2 }}>
+                        {`${legacyFiles.join('・')}から読み込んだ項目があります。保存するとproject.jsonに書き出され、以降はproject.jsonの内容が使われます。`}
+                    </Alert>
+                )}
+                <Tabs value={tab} onChange={(_, value) => setTab(value)} sx={{ mb: 2 }}>
+                    <Tab value="intents" label={`インテント (${intentRows.length})`} />
+                    <Tab value="slots" label={`スロット (${slotRows.length})`} />
+                    <Tab value="speakers" label="話者ロール" />
+                    <Tab value="dialogueActs" label="対話行為" />
+                    <Tab value="conversationLabels" label="会話の属性" />
+                    <Tab value="required" label="必須項目" />
+                    <Tab value="export" label="エクスポート" />
+                </Tabs>
+
+                {tab === 'intents' && (
+                    <Stack spacing={2}>
+                        <TextField
+                            select
+                            label="インテントで想定されていないスロット"
+                            size="small"
+                            value={slotConstraintPolicy}
+                            onChange={(e) => setSlotConstraintPolicy(e.target.value as SlotConstraintPolicy)}
+                            helperText="必須・任意のスロットを指定したインテントにのみ適用します"
+                            sx={{ width: 360 }}
+                        >
+                            <MenuItem value="warn">警告して入力を受け付ける</MenuItem>
+                            <MenuItem value="block">入力を受け付けない</MenuItem>
+                        </TextField>
+                        {intentRows.map((row, index) => (
+                            <Stack key={index} spacing={1} sx={{ pb: 2, borderBottom: 1, borderColor: 'divider' }}>
+                                <Stack direction="row" spacing={1} alignItems="flex-start">
+                                    <TextField
+                                        label="インテント"
+                                        size="small"
+                                        value={row.name}
+                                        error={duplicateIntents.includes(row.name.trim())}
+                                        onChange={(e) => updateIntentRow(index, { name: e.target.value })}
+                                        helperText="「/」で区切るとカテゴリ分け"
+                                        sx={{ width: 200 }}
+                                    />
+                                    <TextField
+                                        label="説明"
+                                        size="small"
+                                        value={row.description}
+                                        onChange={(e) => updateIntentRow(index, { description: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                    <TextField
+                                        label="発話例（1行に1つ）"
+                                        size="small"
+                                        multiline
+                                        maxRows={4}
+                                        value={row.examplesText}
+                                        onChange={(e) => updateIntentRow(index, { examplesText: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                    <IconButton onClick={() => setIntentRows(rows => rows.filter((_, i) => i !== index))}>
+                                        <DeleteIcon />
+                                    </IconButton>
+                                </Stack>
+                                <Stack direction="row" spacing={1} sx={{ pr: 6 }}>
+                                    <TextField
+                                        label="読み（検索用）"
+                                        size="small"
+                                        value={row.reading}
+                                        onChange={(e) => updateIntentRow(index, { reading: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                    <TextField
+                                        label="同義語（カンマ区切り）"
+                                        size="small"
+                                        value={row.synonymsText}
+                                        onChange={(e) => updateIntentRow(index, { synonymsText: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                </Stack>
+                                <Stack direction="row" spacing={1} sx={{ pr: 6 }}>
+                                    <Autocomplete
+                                        multiple
+                                        size="small"
+                                        options={slotKeys}
+                                        value={row.requiredSlots}
+                                        onChange={(_, value) => updateIntentRow(index, { requiredSlots: value })}
+                                        renderInput={(params) => <TextField {...params} label="必須のスロット" />}
+                                        sx={{ flex: 1 }}
+                                    />
+                                    <Autocomplete
+                                        multiple
+                                        size="small"
+                                        options={slotKeys.filter(key => !row.requiredSlots.includes(key))}
+                                        value={row.optionalSlots}
+                                        onChange={(_, value) => updateIntentRow(index, { optionalSlots: value })}
+                                        renderInput={(params) => <TextField {...params} label="任意のスロット" />}
+                                        sx={{ flex: 1 }}
+                                    />
+                                </Stack>
+                            </Stack>
+                        ))}
+                        <Box>
+                            <Button
+                                startIcon={<AddIcon />}
+                                onClick={() => setIntentRows(rows => [...rows, { name: '', reading: '', synonymsText: '', description: '', examplesText: '', requiredSlots: [], optionalSlots: [] }])}
+                            >
+                                インテントを追加
+                            </Button>
+                        </Box>
+                    </Stack>
+                )}
+
+                {tab === 'slots' && (
+                    <Stack spacing={2}>
+                        {slotRows.map((row, index) => (
+                            <Stack key={index} direction="row" spacing={1} alignItems="flex-start">
+                                <TextField
+                                    label="スロットキー"
+                                    size="small"
+                                    value={row.key}
+                                    error={duplicateSlots.includes(row.key.trim())}
+                                    onChange={(e) => updateSlotRow(index, { key: e.target.value })}
+                                    sx={{ width: 160 }}
+                                />
+                                <TextField
+                                    select
+                                    label="型"
+                                    size="small"
+                                    value={row.type}
+                                    onChange={(e) => updateSlotRow(index, { type: e.target.value as SlotType })}
+                                    sx={{ width: 120 }}
+                                >
+                                    {(Object.keys(SLOT_TYPE_LABELS) as SlotType[]).map(type => (
+                                        <MenuItem key={type} value={type}>{SLOT_TYPE_LABELS[type]}</MenuItem>
+                                    ))}
+                                </TextField>
+                                {row.type === 'regex' ? (
+                                    <TextField
+                                        label="正規表現（値全体に一致）"
+                                        size="small"
+                                        value={row.pattern}
+                                        onChange={(e) => updateSlotRow(index, { pattern: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                        InputProps={{ sx: { fontFamily: 'monospace' } }}
+                                    />
+                                ) : (
+                                    <TextField
+                                        label="選択肢（カンマ区切り）"
+                                        size="small"
+                                        value={row.valuesText}
+                                        disabled={row.type !== 'enum'}
+                                        onChange={(e) => updateSlotRow(index, { valuesText: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                )}
+                                <TextField
+                                    label="説明"
+                                    size="small"
+                                    value={row.description}
+                                    onChange={(e) => updateSlotRow(index, { description: e.target.value })}
+                                    sx={{ flex: 1 }}
+                                />
+                                <IconButton onClick={() => setSlotRows(rows => rows.filter((_, i) => i !== index))}>
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Stack>
+                        ))}
+                        <Box>
+                            <Button
+                                startIcon={<AddIcon />}
+                                onClick={() => setSlotRows(rows => [...rows, { key: '', type: 'text', valuesText: '', pattern: '', description: '' }])}
+                            >
+                                スロットを追加
+                            </Button>
+                        </Box>
+                    </Stack>
+                )}
+
+                {tab === 'speakers' && (
+                    <Stack spacing={2}>
+                        <Typography variant="body2" color="text.secondary">
+                            1番目が左チャンネル、2番目が右チャンネルの話者です。空の場合はオペレーター・顧客を使います。
+                        </Typography>
+                        {speakers.map((speaker, index) => (
+                            <Stack key={index} direction="row" spacing={1} alignItems="center">
+                                <TextField
+                                    label={`話者ロール ${index + 1}`}
+                                    size="small"
+                                    value={speaker}
+                                    onChange={(e) => setSpeakers(prev => prev.map((s, i) => (i === index ? e.target.value : s)))}
+                                    sx={{ width: 240 }}
+                                />
+                                <IconButton onClick={() => setSpeakers(prev => prev.filter((_, i) => i !== index))}>
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Stack>
+                        ))}
+                        <Box>
+                            <Button startIcon={<AddIcon />} onClick={() => setSpeakers(prev => [...prev, ''])}>
+                                話者ロールを追加
+                            </Button>
+                        </Box>
+                    </Stack>
+                )}
+
+                {tab === 'dialogueActs' && (
+                    <Stack spacing={2}>
+                        <Typography variant="body2" color="text.secondary">
+                            オペレーター（システム）側の対話行為です。インテントとは別に、ターンごとに「request(日付)」「confirm(人数=3)」の形式で付けます。
+                            空の場合は既定の対話行為（{DEFAULT_DIALOGUE_ACTS.map(act => act.name).join('・')}）を使います。
+                        </Typography>
+                        {dialogueActs.map((act, index) => (
+                            <Stack key={index} direction="row" spacing={1} alignItems="center">
+                                <TextField
+                                    label="対話行為"
+                                    size="small"
+                                    value={act.name}
+                                    onChange={(e) => setDialogueActs(prev => prev.map((item, i) => (i === index ? { ...item, name: e.target.value } : item)))}
+                                    sx={{ width: 160 }}
+                                />
+                                <TextField
+                                    select
+                                    label="引数"
+                                    size="small"
+                                    value={act.argument || ''}
+                                    onChange={(e) => setDialogueActs(prev => prev.map((item, i) => (
+                                        i === index ? { ...item, argument: (e.target.value as DialogueActArgument) || undefined } : item
+                                    )))}
+                                    sx={{ width: 180 }}
+                                >
+                                    {(Object.keys(DIALOGUE_ACT_ARGUMENT_LABELS) as (DialogueActArgument | '')[]).map(argument => (
+                                        <MenuItem key={argument} value={argument}>{DIALOGUE_ACT_ARGUMENT_LABELS[argument]}</MenuItem>
+                                    ))}
+                                </TextField>
+                                <TextField
+                                    label="説明"
+                                    size="small"
+                                    value={act.description || ''}
+                                    onChange={(e) => setDialogueActs(prev => prev.map((item, i) => (i === index ? { ...item, description: e.target.value } : item)))}
+                                    sx={{ flex: 1 }}
+                                />
+                                <IconButton onClick={() => setDialogueActs(prev => prev.filter((_, i) => i !== index))}>
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Stack>
+                        ))}
+                        <Stack direction="row" spacing={1}>
+                            <Button startIcon={<AddIcon />} onClick={() => setDialogueActs(prev => [...prev, { name: '' }])}>
+                                対話行為を追加
+                            </Button>
+                            {dialogueActs.length === 0 && (
+                                <Button onClick={() => setDialogueActs(DEFAULT_DIALOGUE_ACTS)}>
+                                    既定の対話行為から編集
+                                </Button>
+                            )}
+                        </Stack>
+                    </Stack>
+                )}
+
+                {tab === 'conversationLabels' && (
+                    <Stack spacing={2}>
+                        <Typography variant="body2" color="text.secondary">
+                            会話全体に付ける属性です。会話全体のインテントとあわせて「会話の属性」パネルで入力します。
+                            空の場合は既定の属性（{DEFAULT_CONVERSATION_LABELS.map(label => label.key).join('・')}）を使います。
+                        </Typography>
+                        {labelRows.map((row, index) => (
+                            <Stack key={index} direction="row" spacing={1} alignItems="flex-start">
+                                <TextField
+                                    label="属性"
+                                    size="small"
+                                    value={row.key}
+                                    onChange={(e) => updateLabelRow(index, { key: e.target.value })}
+                                    sx={{ width: 160 }}
+                                />
+                                <TextField
+                                    select
+                                    label="入力形式"
+                                    size="small"
+                                    value={row.type}
+                                    onChange={(e) => updateLabelRow(index, { type: e.target.value as ConversationLabelType })}
+                                    sx={{ width: 140 }}
+                                >
+                                    {(Object.keys(CONVERSATION_LABEL_TYPE_LABELS) as ConversationLabelType[]).map(type => (
+                                        <MenuItem key={type} value={type}>{CONVERSATION_LABEL_TYPE_LABELS[type]}</MenuItem>
+                                    ))}
+                                </TextField>
+                                {row.type === 'rating' ? (
+                                    <TextField
+                                        type="number"
+                                        label="段階数"
+                                        size="small"
+                                        value={row.max}
+                                        onChange={(e) => updateLabelRow(index, { max: Math.max(2, Math.min(10, Number(e.target.value) || DEFAULT_RATING_MAX)) })}
+                                        inputProps={{ min: 2, max: 10 }}
+                                        sx={{ flex: 1 }}
+                                    />
+                                ) : (
+                                    <TextField
+                                        label="選択肢（カンマ区切り）"
+                                        size="small"
+                                        value={row.valuesText}
+                                        disabled={row.type !== 'select'}
+                                        onChange={(e) => updateLabelRow(index, { valuesText: e.target.value })}
+                                        sx={{ flex: 1 }}
+                                    />
+                                )}
+                                <TextField
+                                    label="説明"
+                                    size="small"
+                                    value={row.description}
+                                    onChange={(e) => updateLabelRow(index, { description: e.target.value })}
+                                    sx={{ flex: 1 }}
+                                />
+                                <IconButton onClick={() => setLabelRows(rows => rows.filter((_, i) => i !== index))}>
+                                    <DeleteIcon />
+                                </IconButton>
+                            </Stack>
+                        ))}
+                        <Stack direction="row" spacing={1}>
+                            <Button
+                                startIcon={<AddIcon />}
+                                onClick={() => setLabelRows(rows => [...rows, { key: '', type: 'select', valuesText: '', max: DEFAULT_RATING_MAX, description: '' }])}
+                            >
+                                属性を追加
+                            </Button>
+                            {labelRows.length === 0 && (
+                                <Button onClick={() => setLabelRows(toConversationLabelRows({ conversationLabels: DEFAULT_CONVERSATION_LABELS }))}>
+                                    既定の属性から編集
+                                </Button>
+                            )}
+                        </Stack>
+                    </Stack>
+                )}
+
+                {tab === 'required' && (
+                    <Stack spacing={1}>
+                        <Typography variant="body2" color="text.secondary">
+                            必須項目を指定すると、すべて入力された会話だけを完了として進捗に数えます。
+                        </Typography>
+                        <FormControlLabel
+                            control={<Checkbox checked={!!required.speaker} onChange={(e) => setRequired(prev => ({ ...prev, speaker: e.target.checked }))} />}
+                            label="全ターンの話者ロール"
+                        />
+                        <FormControlLabel
+                            control={<Checkbox checked={!!required.turnIntent} onChange={(e) => setRequired(prev => ({ ...prev, turnIntent: e.target.checked }))} />}
+                            label="全ターンのインテント"
+                        />
+                        <FormControlLabel
+                            control={<Checkbox checked={!!required.dialogueIntent} onChange={(e) => setRequired(prev => ({ ...prev, dialogueIntent: e.target.checked }))} />}
+                            label="対話全体のインテント"
+                        />
+                        <Autocomplete
+                            multiple
+                            size="small"
+                            options={slotKeys}
+                            value={required.dialogueSlots || []}
+                            onChange={(_, value) => setRequired(prev => ({ ...prev, dialogueSlots: value }))}
+                            renderInput={(params) => <TextField {...params} label="対話全体のスロット" />}
+                            sx={{ pt: 1 }}
+                        />
+                        <Autocomplete
+                            multiple
+                            size="small"
+                            options={labelKeys}
+                            value={required.conversationLabels || []}
+                            onChange={(_, value) => setRequired(prev => ({ ...prev, conversationLabels: value }))}
+                            renderInput={(params) => <TextField {...params} label="会話の属性" />}
+                            sx={{ pt: 1 }}
+                        />
+                    </Stack>
+                )}
+
+                {tab === 'export' && (
+                    <Stack spacing={2}>
+                        <TextField
+                            select
+                            label="タイムスタンプの基準"
+                            size="small"
+                            value={timeBase}
+                            onChange={(e) => setTimeBase(e.target.value as AudioSource | '')}
+                            helperText="指定すると、保存時のダイアログでの選択より優先します"
+                            sx={{ width: 360 }}
+                        >
+                            <MenuItem value="">指定しない（アノテーターが選択）</MenuItem>
+                            <MenuItem value="processed">処理済み音声</MenuItem>
+                            <MenuItem value="original">元音声</MenuItem>
+                        </TextField>
+                        <TextField
+                            label="ファイル名"
+                            size="small"
+                            value={exportFileName}
+                            placeholder={DEFAULT_EXPORT_FILE_NAME}
+                            onChange={(e) => setExportFileName(e.target.value)}
+                            sx={{ width: 360 }}
+                        />
+                        <TextField
+                            select
+                            label="インテントの出力形式"
+                            size="small"
+                            value={intentLabel}
+                            onChange={(e) => setIntentLabel(e.target.value as IntentLabelFormat)}
+                            sx={{ width: 360 }}
+                        >
+                            <MenuItem value="path">カテゴリを含む名前（例: 予約/変更）</MenuItem>
+                            <MenuItem value="leaf">末尾の名前のみ（例: 変更）</MenuItem>
+                        </TextField>
+                        <TextField
+                            select
+                            label="複数のインテントを持つターンの出力"
+                            size="small"
+                            value={multiIntent}
+                            onChange={(e) => setMultiIntent(e.target.value as MultiIntentExportMode)}
+                            helperText="すべてのインテントはintents列にも出力します"
+                            sx={{ width: 360 }}
+                        >
+                            <MenuItem value="primary">主たるインテントのみ</MenuItem>
+                            <MenuItem value="joined">{`「${INTENT_JOIN_SEPARATOR}」でつなげる`}</MenuItem>
+                            <MenuItem value="rows">インテントごとに1行</MenuItem>
+                        </TextField>
+                        <FormControlLabel
+                            control={<Checkbox checked={bioTags} onChange={(e) => setBioTags(e.target.checked)} />}
+                            label="スロットの範囲をBIOタグで出力する（tokens列・bioTags列）"
+                        />
+                    </Stack>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                {(duplicateIntents.length > 0 || duplicateSlots.length > 0) && (
+                    <Typography variant="body2" color="error" sx={{ flex: 1 }}>
+                        {`名前が重複しています: ${[...duplicateIntents, ...duplicateSlots].join(', ')}`}
+                    </Typography>
+                )}
+                <Button onClick={onClose}>キャンセル</Button>
+                <Button
+                    variant="contained"
+                    onClick={handleSave}
+                    disabled={!!loadError || duplicateIntents.length > 0 || duplicateSlots.length > 0}
+                >
+                    project.jsonに保存
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default ProjectSettingsDialog;
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Chip, TextField } from '@mui/material';
+import { ReviewFlag } from '../types';
+import { REVIEW_FLAGS, toggleReviewFlag } from '../utils/reviewUtils.ts';
+
+interface ReviewNotesEditorProps {
+    comment?: string;
+    flags?: ReviewFlag[];
+    onCommentChange: (comment: string) => void;
+    onFlagsChange: (flags: ReviewFlag[]) => void;
+}
+
+const NO_FLAGS: ReviewFlag[] = [];
+
+/**
+ * 聞き取り不可・要確認などの印とコメントの入力欄。
+ * コメントは入力のたびに履歴が残らないよう、フォーカスが外れたときに確定する。
+ */
+const ReviewNotesEditor: React.FC<ReviewNotesEditorProps> = ({
+    comment = '',
+    flags = NO_FLAGS,
+    onCommentChange,
+    onFlagsChange
+}) => {
+    const [text, setText] = useState(comment);
+
+    useEffect(() => {
+        setText(comment);
+    }, [comment]);
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mb: 1 }}>
+                {REVIEW_FLAGS.map(item => {
+                    const active = flags.includes(item.flag);
+                    return (
+                        <Chip
+                            key={item.flag}
+                            size="small"
+                            label={item.label}
+                            variant={active ? 'filled' : 'outlined'}
+                            onClick={() => onFlagsChange(toggleReviewFlag(flags, item.flag))}
+                            sx={active
+                                ? { bgcolor: item.color, color: '#fff', '&:hover': { bgcolor: item.color, opacity: 0.85 } }
+                                : { color: 'text.secondary' }}
+                        />
+                    );
+                })}
+            </Box>
+            <TextField
+                fullWidth
+                multiline
+                maxRows={4}
+                size="small"
+                placeholder="コメント"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={() => {
+                    if (text !== comment) onCommentChange(text);
+                }}
+            />
+        </Box>
+    );
+};
+
+export default ReviewNotesEditor;
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import {
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    Stack,
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableRow,
+    ToggleButton,
+    ToggleButtonGroup,
+    Typography
+} from '@mui/material';
+import AssignmentLateIcon from '@mui/icons-material/AssignmentLate';
+import { ScanIssue, ScanIssueCategory } from '../types';
+import {
+    SCAN_ISSUE_CATEGORY_LABELS,
+    SCAN_ISSUE_SEVERITY_LABELS,
+    formatScanReportCsv,
+    formatScanReportText
+} from '../utils/scanReportUtils.ts';
+
+interface ScanReportDialogProps {
+    open: boolean;
+    onClose: () => void;
+    issues: ScanIssue[];
+    conversationCount: number;
+}
+
+const downloadText = (text: string, filename: string, type: string) => {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const ScanReportDialog: React.FC<ScanReportDialogProps> = ({
+    open,
+    onClose,
+    issues,
+    conversationCount
+}) => {
+    const [categoryFilter, setCategoryFilter] = useState<ScanIssueCategory | 'all'>('all');
+
+    const categoryCounts = useMemo(() => {
+        const counts: Partial<Record<ScanIssueCategory, number>> = {};
+        issues.forEach(issue => {
+            counts[issue.category] = (counts[issue.category] || 0) + 1;
+        });
+        return counts;
+    }, [issues]);
+
+    const filteredIssues = categoryFilter === 'all'
+        ? issues
+        : issues.filter(issue => issue.category === categoryFilter);
+
+    return (
+        <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+            <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold' }}>
+                <AssignmentLateIcon />
+                スキャンレポート
+            </DialogTitle>
+            <DialogContent dividers>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                    {`読み込んだ会話: ${conversationCount}件 / 問題: ${issues.length}件`}
+                </Typography>
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={categoryFilter}
+                    onChange={(_, value) => {
+                        if (value !== null) setCategoryFilter(value);
+                    }}
+                    sx={{ mb: 2 }}
+                >
+                    <ToggleButton value="all">{`すべて (${issues.length})`}</ToggleButton>
+                    {(Object.keys(SCAN_ISSUE_CATEGORY_LABELS) as ScanIssueCategory[]).map(category => (
+                        <ToggleButton key={category} value={category} disabled={!categoryCounts[category]}>
+                            {`${SCAN_ISSUE_CATEGORY_LABELS[category]} (${categoryCounts[category] || 0})`}
+                        </ToggleButton>
+                    ))}
+                </ToggleButtonGroup>
+                {filteredIssues.length === 0 ? (
+                    <Typography variant="body1" sx={{ py: 4, textAlign: 'center' }}>
+                        問題は見つかりませんでした
+                    </Typography>
+                ) : (
+                    <Table size="small" stickyHeader>
+                        <TableHead>
+                            <TableRow>
+                                <TableCell>状態</TableCell>
+                                <TableCell>種類</TableCell>
+                                <TableCell>パス</TableCell>
+                                <TableCell>行</TableCell>
+                                <TableCell>内容</TableCell>
+                            </TableRow>
+                        </TableHead>
+                        <TableBody>
+                            {filteredIssues.map((issue, index) => (
+                                <TableRow key={index}>
+                                    <TableCell>
+                                        <Chip
+                                            label={SCAN_ISSUE_SEVERITY_LABELS[issue.severity]}
+                                            color={issue.severity === 'error' ? 'error' : 'warning'}
+                                            size="small"
+                                        />
+                                    </TableCell>
+                                    <TableCell>{SCAN_ISSUE_CATEGORY_LABELS[issue.category]}</TableCell>
+                                    <TableCell sx={{ fontFamily: 'monospace' }}>{issue.path}</TableCell>
+                                    <TableCell>{issue.row ?? ''}</TableCell>
+                                    <TableCell>{issue.message}</TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </DialogContent>
+            <DialogActions sx={{ p: 2 }}>
+                <Box sx={{ flex: 1 }}>
+                    <Stack direction="row" spacing={1}>
+                        <Button
+                            onClick={() => downloadText(formatScanReportText(issues, conversationCount), 'scan_report.txt', 'text/plain')}
+                            disabled={issues.length === 0}
+                        >
+                            テキストで保存
+                        </Button>
+                        <Button
+                            onClick={() => downloadText(formatScanReportCsv(issues), 'scan_report.csv', 'text/csv')}
+                            disabled={issues.length === 0}
+                        >
+                            CSVで保存
+                        </Button>
+                    </Stack>
+                </Box>
+                <Button onClick={onClose} variant="contained">
+                    閉じる
+                </Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default ScanReportDialog;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { SlotValue } from '../types';
+import { IntentDefinition, SlotConstraintPolicy, SlotDefinition, SlotValue } from '../types';
 import SlotIntentEditor from './SlotIntentEditor.tsx';
 
 interface SlotIntentContainerProps {
@@ -8,8 +8,14 @@ interface SlotIntentContainerProps {
     isDialogueLevel?: boolean;
     initialSlots?: SlotValue[];
     initialIntent?: string;
+    initialIntents?: string[];
     onSlotsUpdate?: (slots: SlotValue[]) => void;
-    onIntentUpdate?: (intent: string) => void;
+    // intentsは主たるインテントを含む一覧、primaryは主たるインテント
+    onIntentsUpdate?: (intents: string[], primary: string) => void;
+    slotDefinitions?: SlotDefinition[];
+    referenceDate?: string;
+    intentDefinitions?: IntentDefinition[];
+    slotConstraintPolicy?: SlotConstraintPolicy;
 }
 
 const SlotIntentContainer: React.FC<SlotIntentContainerProps> = ({
@@ -18,12 +24,18 @@ const SlotIntentContainer: React.FC<SlotIntentContainerProps> = ({
     isDialogueLevel = false,
     initialSlots = [],
     initialIntent = '',
+    initialIntents,
     onSlotsUpdate,
-    onIntentUpdate,
+    onIntentsUpdate,
+    slotDefinitions,
+    referenceDate,
+    intentDefinitions,
+    slotConstraintPolicy,
 }) => {
     const [slots, setSlots] = useState<SlotValue[]>(initialSlots);
     const [dialogueSlots, setDialogueSlots] = useState<SlotValue[]>([]);
     const [intent, setIntent] = useState<string>(initialIntent);
+    const [intents, setIntents] = useState<string[] | undefined>(initialIntents);
     const [customSlotKeys, setCustomSlotKeys] = useState<string[]>([]);
 
     // カスタムスロットを追加
@@ -64,9 +76,10 @@ const SlotIntentContainer: React.FC<SlotIntentContainerProps> = ({
         setDialogueSlots(newDialogueSlots);
     };
 
-    const handleIntentChange = (newIntent: string) => {
-        setIntent(newIntent);
-        onIntentUpdate?.(newIntent);
+    const handleIntentsChange = (newIntents: string[], primary: string) => {
+        setIntent(primary);
+        setIntents(newIntents);
+        onIntentsUpdate?.(newIntents, primary);
     };
 
     // initialIntent が変更されたときに intent を更新
@@ -74,6 +87,10 @@ const SlotIntentContainer: React.FC<SlotIntentContainerProps> = ({
         setIntent(initialIntent);
     }, [initialIntent]);
 
+    useEffect(() => {
+        setIntents(initialIntents);
+    }, [initialIntents]);
+
     // 状態変更を監視
     useEffect(() => {
         console.log('Slots state changed:', slots);
@@ -86,17 +103,22 @@ const SlotIntentContainer: React.FC<SlotIntentContainerProps> = ({
     return (
         <SlotIntentEditor
             intent={intent}
+            intents={intents}
             slots={slots}
             dialogueSlots={dialogueSlots}
             predefinedIntents={predefinedIntents}
             predefinedSlotKeys={allSlotKeys}
-            onIntentChange={handleIntentChange}
+            onIntentsChange={handleIntentsChange}
             onSlotsChange={handleSlotsChange}
             onDialogueSlotsChange={handleDialogueSlotsChange}
             isDialogueLevel={isDialogueLevel}
             onDeleteSlot={handleRemoveSlot}
             showIntent={!isDialogueLevel}
             onCustomSlotAdd={handleCustomSlotAdd}
+            slotDefinitions={slotDefinitions}
+            referenceDate={referenceDate}
+            intentDefinitions={intentDefinitions}
+            slotConstraintPolicy={slotConstraintPolicy}
         />
     );
 };
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import {
     Box,
     Typography,
@@ -7,26 +7,45 @@ import {
     Chip,
     Stack,
     IconButton,
+    MenuItem,
+    Tooltip,
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { SlotValue } from '../types';
+import { IntentDefinition, SlotConstraintPolicy, SlotDefinition, SlotValue } from '../types';
+import { validateSlotValue } from '../utils/slotUtils.ts';
+import { getIntentLeaf, getTurnIntents } from '../utils/intentUtils.ts';
+import { getSlotSpanColor } from '../utils/spanUtils.ts';
+import IntentPicker from './IntentPicker.tsx';
+import {
+    findMissingRequiredSlotsByIntent,
+    getIntentDefinition,
+    hasSlotConstraints,
+    isSlotAllowed,
+    mergeIntentDefinitions,
+    sortSlotKeysForIntent
+} from '../utils/projectUtils.ts';
 import AddIcon from '@mui/icons-material/Add';
 import CloseIcon from '@mui/icons-material/Close';
 import CheckIcon from '@mui/icons-material/Check';
 import { motion, AnimatePresence } from 'framer-motion';
-import { green, grey } from '@mui/material/colors';
+import { green, grey, orange } from '@mui/material/colors';
 import { useSnackbar } from 'notistack';
 import SaveIcon from '@mui/icons-material/Save';
 import EditIcon from '@mui/icons-material/Edit';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
 
 interface SlotIntentEditorProps {
     turnIndex?: number;
+    // 主たるインテント
     intent?: string;
+    // 複数のインテントを持つ場合の一覧（主たるインテントを含む）
+    intents?: string[];
     slots?: SlotValue[];
     dialogueSlots?: SlotValue[];
     predefinedIntents?: string[];
     predefinedSlotKeys?: string[];
-    onIntentChange?: (intent: string) => void;
+    onIntentsChange?: (intents: string[], primary: string) => void;
     onSlotsChange?: (slots: SlotValue[]) => void;
     onDialogueSlotsChange?: (slots: SlotValue[]) => void;
     isDialogueLevel?: boolean;
@@ -34,22 +53,38 @@ interface SlotIntentEditorProps {
     onDeleteSlot?: (index: number) => void;
     showIntent?: boolean;
     onCustomSlotAdd?: (slotKey: string) => void;
+    // 型付きのスロットの定義（project.jsonのslots）
+    slotDefinitions?: SlotDefinition[];
+    // 相対的な日付を正規化する基準日
+    referenceDate?: string;
+    // インテントごとの必須・任意のスロット（project.jsonのintents）
+    intentDefinitions?: IntentDefinition[];
+    slotConstraintPolicy?: SlotConstraintPolicy;
 }
 
 interface EditingSlot {
     key: string;
     value: string;
     isConfirmed: boolean;
+    // 日付・時刻のピッカーで指定した正規化済みの値（自動の正規化より優先）
+    normalized?: string;
+    // 確定時の検証エラー
+    error?: string;
+    // 複数のインテントを持つターンで、スロットが属するインテント
+    intent?: string;
 }
 
+const NO_SLOT_DEFINITIONS: SlotDefinition[] = [];
+
 const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
     turnIndex,
     intent = '',
+    intents,
     slots = [],
     dialogueSlots = [],
     predefinedIntents = [],
     predefinedSlotKeys = [],
-    onIntentChange,
+    onIntentsChange,
     onSlotsChange,
     onDialogueSlotsChange,
     isDialogueLevel = false,
@@ -57,6 +92,10 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
     onDeleteSlot,
     showIntent = true,
     onCustomSlotAdd,
+    slotDefinitions = NO_SLOT_DEFINITIONS,
+    referenceDate,
+    intentDefinitions,
+    slotConstraintPolicy = 'warn',
 }) => {
     const { enqueueSnackbar } = useSnackbar();
 
@@ -65,20 +104,101 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
     const [isSelectingSlot, setIsSelectingSlot] = useState(false);
     const [selectedSlotKey, setSelectedSlotKey] = useState<string>('');
 
+    // インテントの入力欄（選ぶとターンのインテントに追加する）
+    const [intentInput, setIntentInput] = useState('');
+
+    // ターンのインテント（発話順）
+    const turnIntents = useMemo(
+        () => (isDialogueLevel ? [] : getTurnIntents({ intent, intents })),
+        [isDialogueLevel, intent, intents]
+    );
+    const isMultiIntent = turnIntents.length > 1;
+
+    // 定義が無い場合はインテント名の一覧から候補を作る
+    const intentOptions = useMemo(
+        () => intentDefinitions || predefinedIntents.map(name => ({ name })),
+        [intentDefinitions, predefinedIntents]
+    );
+
+    // 選択中のインテントの定義（必須・任意のスロットの宣言、複数の場合はまとめたもの）
+    const intentDefinition = mergeIntentDefinitions(
+        turnIntents.map(name => getIntentDefinition(intentDefinitions, name))
+    );
+    const isConstrained = hasSlotConstraints(intentDefinition);
+
+    // スロットが属するインテントの定義（割り当てが無い場合はターンのインテントをまとめたもの）
+    const getSlotIntentDefinition = (slot: { intent?: string }) =>
+        slot.intent ? getIntentDefinition(intentDefinitions, slot.intent) : intentDefinition;
+
+    // 複数のインテントを持つ場合、そのスロットを想定しているインテント（無ければ主たるインテント）に割り当てる
+    const guessSlotIntent = (key: string): string | undefined => {
+        if (!isMultiIntent) return undefined;
+        return turnIntents.find(name => {
+            const definition = getIntentDefinition(intentDefinitions, name);
+            return hasSlotConstraints(definition) && isSlotAllowed(definition, key);
+        }) || intent;
+    };
+
+    const handleAddIntent = (name: string) => {
+        const newIntent = name.trim();
+        setIntentInput('');
+        if (!newIntent || turnIntents.includes(newIntent)) return;
+        onIntentsChange?.([...turnIntents, newIntent], intent || newIntent);
+    };
+
+    const handleRemoveIntent = (name: string) => {
+        const newIntents = turnIntents.filter(item => item !== name);
+        onIntentsChange?.(newIntents, name === intent ? newIntents[0] || '' : intent);
+    };
+
+    // スロットの割り当て先のインテントを変更
+    const handleSlotIntentChange = (index: number, slotIntent: string) => {
+        onSlotsChange?.(slots.map((slot, i) => {
+            if (i !== index) return slot;
+            const { intent: _previous, ...rest } = slot;
+            return slotIntent ? { ...rest, intent: slotIntent } : rest;
+        }));
+    };
+
     // 利用可能なスロットキーを計算
     const availableSlotKeys = useMemo(() => {
         // 既存のスロットのキーを取得
         const existingSlotKeys = slots.map(slot => slot.key);
         // 編集中のスロットのキーを取得
         const editingSlotKeys = editingSlots.map(slot => slot.key);
-        // 両方のキーを除外した利用可能なキーを返す
-        return predefinedSlotKeys.filter(key =>
-            !existingSlotKeys.includes(key) && !editingSlotKeys.includes(key)
+        // 両方のキーを除外した利用可能なキーを、インテントで想定されている順に返す
+        return sortSlotKeysForIntent(
+            predefinedSlotKeys.filter(key =>
+                !existingSlotKeys.includes(key) && !editingSlotKeys.includes(key)
+            ),
+            intentDefinition,
+            slotConstraintPolicy
         );
-    }, [predefinedSlotKeys, slots, editingSlots]);
+    }, [predefinedSlotKeys, slots, editingSlots, intentDefinition, slotConstraintPolicy]);
+
+    // 入力されていない必須スロット
+    const missingRequiredSlots = findMissingRequiredSlotsByIntent(intentDefinitions, turnIntents, slots)
+        .filter(({ key }) => !editingSlots.some(slot => slot.key === key));
+
+    const getSlotGroup = (key: string) => {
+        if ((intentDefinition?.requiredSlots || []).includes(key)) return '必須';
+        if ((intentDefinition?.optionalSlots || []).includes(key)) return '任意';
+        return 'このインテントでは想定外';
+    };
 
     // スロットの追加（編集モードへ）
-    const handleAddEditingSlot = (key: string) => {
+    const handleAddEditingSlot = (key: string, slotIntent: string | undefined = guessSlotIntent(key)) => {
+        // インテントで想定されていないスロット
+        if (!isSlotAllowed(intentDefinition, key)) {
+            const blocked = slotConstraintPolicy === 'block';
+            enqueueSnackbar(`${key}はインテント「${turnIntents.join('、')}」では想定されていないスロットです${blocked ? '' : '（確認してください）'}`, {
+                variant: blocked ? 'error' : 'warning',
+                autoHideDuration: 3000,
+                anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+            });
+            if (blocked) return;
+        }
+
         // 既存のスロットや編集中のスロットと重複しないことを確認
         const isExistingSlot = slots.some(slot => slot.key === key);
         const isEditingSlot = editingSlots.some(slot => slot.key === key);
@@ -87,7 +207,8 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
             setEditingSlots(prevSlots => [...prevSlots, {
                 key,
                 value: '',
-                isConfirmed: false
+                isConfirmed: false,
+                ...(slotIntent ? { intent: slotIntent } : {})
             }]);
             setIsSelectingSlot(false);
             setSelectedSlotKey('');
@@ -102,22 +223,59 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
         }
     };
 
+    const getSlotDefinition = (key: string) => slotDefinitions.find(definition => definition.key === key);
+
     // スロットの値を更新（未確定のスロットのみ）
     const handleUpdateSlotValue = (key: string, value: string) => {
         setEditingSlots(editingSlots.map(slot =>
-            slot.key === key && !slot.isConfirmed ? { ...slot, value } : slot
+            slot.key === key && !slot.isConfirmed ? { ...slot, value, error: undefined } : slot
+        ));
+    };
+
+    // ピッカーで正規化済みの値を指定
+    const handleUpdateNormalizedValue = (key: string, normalized: string) => {
+        setEditingSlots(editingSlots.map(slot =>
+            slot.key === key && !slot.isConfirmed
+                ? { ...slot, normalized: normalized || undefined, error: undefined }
+                : slot
         ));
     };
 
+    // 型に従って検証し、発話どおりの表記と正規化した値の組にする
+    const toSlotValue = (editingSlot: EditingSlot): { slot?: SlotValue; error?: string } => {
+        const value = editingSlot.value.trim();
+        const result = validateSlotValue(getSlotDefinition(editingSlot.key), value, referenceDate || undefined);
+        const normalized = editingSlot.normalized || result.normalized;
+        if (result.error && !editingSlot.normalized) {
+            return { error: result.error };
+        }
+        return {
+            slot: {
+                key: editingSlot.key,
+                value,
+                ...(normalized ? { normalized } : {}),
+                ...(editingSlot.intent ? { intent: editingSlot.intent } : {})
+            }
+        };
+    };
+
     // 編集中のスロットを確定
     const handleConfirmSlot = (editingSlot: EditingSlot) => {
         if (!editingSlot.value.trim()) return;
 
-        // スロットを保存
-        const newSlot: SlotValue = {
-            key: editingSlot.key,
-            value: editingSlot.value.trim()
-        };
+        // 型に合わない値は確定しない
+        const { slot: newSlot, error } = toSlotValue(editingSlot);
+        if (!newSlot) {
+            setEditingSlots(prevSlots => prevSlots.map(slot =>
+                slot.key === editingSlot.key ? { ...slot, error } : slot
+            ));
+            enqueueSnackbar(`${editingSlot.key}: ${error}`, {
+                variant: 'error',
+                autoHideDuration: 3000,
+                anchorOrigin: { vertical: 'bottom', horizontal: 'right' }
+            });
+            return;
+        }
 
         // ターンレベルのスロットを更新
         if (onSlotsChange) {
@@ -190,7 +348,7 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
     const handleSaveAllConfirmedSlots = () => {
         const confirmedSlots = editingSlots
             .filter(slot => slot.isConfirmed)
-            .map(({ key, value }) => ({ key, value }));
+            .flatMap(slot => toSlotValue(slot).slot || []);
 
         if (onSlotsChange) {
             // 既存のスロットと新しいスロットをマージ
@@ -231,13 +389,94 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
         }
     };
 
-    // ローカルの状態を追加
-    const [localIntent, setLocalIntent] = useState(intent);
+    // 編集中のスロットの入力欄（スロットの型に応じて選択肢・日付/時刻のピッカーを表示）
+    const renderSlotInput = (slot: EditingSlot) => {
+        const definition = getSlotDefinition(slot.key);
+        const inputSx = {
+            width: '120px',
+            '& .MuiInputBase-root': {
+                height: '32px',
+                bgcolor: slot.isConfirmed ? grey[50] : 'background.paper',
+                fontSize: '1.1rem'
+            }
+        };
+
+        if (definition?.type === 'enum') {
+            return (
+                <TextField
+                    select
+                    size="medium"
+                    value={slot.value}
+                    onChange={(e) => handleUpdateSlotValue(slot.key, e.target.value)}
+                    disabled={slot.isConfirmed}
+                    inputProps={{ 'data-slot-key': slot.key }}
+                    sx={{ ...inputSx, minWidth: '120px', width: 'auto' }}
+                >
+                    {(definition.values || []).map(option => (
+                        <MenuItem key={option} value={option}>{option}</MenuItem>
+                    ))}
+                </TextField>
+            );
+        }
+
+        // 日付・時刻は発話どおりの表記と、正規化した値を直接指定するピッカーを並べる
+        const preview = slot.value.trim()
+            ? validateSlotValue(definition, slot.value, referenceDate || undefined).normalized
+            : undefined;
+        const normalized = slot.normalized || preview;
+        const pickerType = definition?.type === 'date' ? 'date' : definition?.type === 'time' ? 'time' : null;
+
+        return (
+            <>
+                <Tooltip title={slot.error || definition?.description || ''}>
+                    <TextField
+                        size="medium"
+                        value={slot.value}
+                        onChange={(e) => handleUpdateSlotValue(slot.key, e.target.value)}
+                        disabled={slot.isConfirmed}
+                        error={!!slot.error}
+                        inputProps={{
+                            'data-slot-key': slot.key,
+                            inputMode: definition?.type === 'integer' || definition?.type === 'phone' ? 'numeric' : undefined,
+                            style: {
+                                color: slot.isConfirmed ? grey[600] : 'inherit',
+                                padding: '2px 4px',
+                                fontSize: '1.1rem'
+                            }
+                        }}
+                        onKeyPress={(e) => {
+                            if (e.key === 'Enter' && slot.value.trim() && !slot.isConfirmed) {
+                                e.preventDefault();
+                                handleConfirmSlot(slot);
+                            }
+                        }}
+                        sx={inputSx}
+                    />
+                </Tooltip>
+                {pickerType ? (
+                    <TextField
+                        type={pickerType}
+                        size="small"
+                        // 日付と時刻を含む値（YYYY-MM-DDTHH:MM）は日付部分だけをピッカーに表示する
+                        value={pickerType === 'date' ? (normalized || '').slice(0, 10) : normalized || ''}
+                        onChange={(e) => handleUpdateNormalizedValue(
+                            slot.key,
+                            pickerType === 'date' && e.target.value && normalized && normalized.length > 10
+                                ? `${e.target.value}${normalized.slice(10)}`
+                                : e.target.value
+                        )}
+                        disabled={slot.isConfirmed}
+                        sx={{ '& .MuiInputBase-root': { height: '32px' } }}
+                    />
+                ) : normalized && normalized !== slot.value.trim() && (
+                    <Typography variant="caption" sx={{ color: 'text.disabled', fontFamily: 'monospace' }}>
+                        {`→ ${normalized}`}
+                    </Typography>
+                )}
+            </>
+        );
+    };
 
-    // intentが変更されたときにlocalIntentを更新
-    useEffect(() => {
-        setLocalIntent(intent);
-    }, [intent]);
 
     return (
         <Stack spacing={2}>
@@ -248,29 +487,33 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
                         <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
                             インテント:
                         </Typography>
-                        <Autocomplete
-                            freeSolo
-                            size="small"
-                            value={localIntent}
-                            options={predefinedIntents}
-                            onChange={(_, newValue) => {
-                                setLocalIntent(newValue || '');
-                                onIntentChange?.(newValue || '');
-                            }}
-                            onInputChange={(_, newValue) => {
-                                setLocalIntent(newValue);
-                            }}
-                            onBlur={() => {
-                                onIntentChange?.(localIntent);
-                            }}
-                            sx={{ width: '100%' }}
-                            renderInput={(params) => (
-                                <TextField
-                                    {...params}
-                                    placeholder="インテントを入力"
-                                    size="small"
-                                />
-                            )}
+                        {/* ターンのインテント（星印が主たるインテント、クリックで切り替え） */}
+                        {turnIntents.length > 0 && (
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mb: 1 }}>
+                                {turnIntents.map(name => (
+                                    <Tooltip
+                                        key={name}
+                                        title={isMultiIntent && name !== intent ? 'クリックで主たるインテントにする' : ''}
+                                    >
+                                        <Chip
+                                            label={name}
+                                            icon={name === intent ? <StarIcon /> : <StarBorderIcon />}
+                                            color="primary"
+                                            variant={name === intent ? 'filled' : 'outlined'}
+                                            onClick={isMultiIntent ? () => onIntentsChange?.(turnIntents, name) : undefined}
+                                            onDelete={() => handleRemoveIntent(name)}
+                                            sx={{ fontSize: '1rem' }}
+                                        />
+                                    </Tooltip>
+                                ))}
+                            </Box>
+                        )}
+                        <IntentPicker
+                            value={intentInput}
+                            intents={intentOptions}
+                            clearOnSelect
+                            onChange={handleAddIntent}
+                            onInputChange={setIntentInput}
                         />
                     </Box>
                 )}
@@ -292,61 +535,100 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
                                     whileHover={{ scale: 1.05 }}
                                     layout
                                 >
-                                    <Box
-                                        sx={{
-                                            display: 'flex',
-                                            alignItems: 'center',
-                                            gap: 0.5,
-                                            bgcolor: 'background.paper',
-                                            py: 0.5,
-                                            px: 1,
-                                            borderRadius: 1,
-                                            border: `1px solid ${grey[300]}`,
-                                            '&:hover': {
-                                                bgcolor: grey[50],
-                                                borderColor: grey[400]
-                                            }
-                                        }}
-                                    >
-                                        <Typography
-                                            variant="body2"
+                                    <Tooltip title={isSlotAllowed(getSlotIntentDefinition(slot), slot.key) ? '' : 'このインテントでは想定されていないスロットです'}>
+                                        <Box
                                             sx={{
-                                                color: 'text.primary',
-                                                fontWeight: 500,
-                                                fontSize: '1.1rem'
-                                            }}
-                                        >
-                                            {slot.key}:
-                                        </Typography>
-                                        <Typography
-                                            variant="body2"
-                                            sx={{
-                                                color: 'text.secondary',
-                                                fontSize: '1.1rem'
-                                            }}
-                                        >
-                                            {slot.value}
-                                        </Typography>
-                                        <IconButton
-                                            size="small"
-                                            onClick={() => handleRemoveSlot(index)}
-                                            sx={{
-                                                p: 0.2,
-                                                ml: 0.5,
-                                                color: grey[500],
+                                                display: 'flex',
+                                                alignItems: 'center',
+                                                gap: 0.5,
+                                                bgcolor: 'background.paper',
+                                                py: 0.5,
+                                                px: 1,
+                                                borderRadius: 1,
+                                                border: `1px solid ${isSlotAllowed(getSlotIntentDefinition(slot), slot.key) ? grey[300] : orange[400]}`,
+                                                // 書き起こし上の範囲を持つスロットは、範囲の強調表示と同じ色で示す
+                                                ...(slot.span ? { borderLeft: `4px solid ${getSlotSpanColor(slot.key)}` } : {}),
                                                 '&:hover': {
-                                                    color: 'error.main',
-                                                    bgcolor: 'error.light'
+                                                    bgcolor: grey[50],
+                                                    borderColor: grey[400]
                                                 }
                                             }}
                                         >
-                                            <DeleteIcon sx={{ fontSize: '1.1rem' }} />
-                                        </IconButton>
-                                    </Box>
+                                            <Typography
+                                                variant="body2"
+                                                sx={{
+                                                    color: 'text.primary',
+                                                    fontWeight: 500,
+                                                    fontSize: '1.1rem'
+                                                }}
+                                            >
+                                                {slot.key}:
+                                            </Typography>
+                                            <Typography
+                                                variant="body2"
+                                                sx={{
+                                                    color: 'text.secondary',
+                                                    fontSize: '1.1rem'
+                                                }}
+                                            >
+                                                {slot.value}
+                                            </Typography>
+                                            {slot.normalized && slot.normalized !== slot.value && (
+                                                <Typography variant="caption" sx={{ color: 'text.disabled', fontFamily: 'monospace' }}>
+                                                    {`→ ${slot.normalized}`}
+                                                </Typography>
+                                            )}
+                                            {/* 複数のインテントを持つターンでは、スロットが属するインテントを選ぶ */}
+                                            {isMultiIntent && (
+                                                <TextField
+                                                    select
+                                                    variant="standard"
+                                                    size="small"
+                                                    value={slot.intent || ''}
+                                                    onChange={(e) => handleSlotIntentChange(index, e.target.value)}
+                                                    SelectProps={{ displayEmpty: true }}
+                                                    sx={{ ml: 0.5, '& .MuiInputBase-root': { fontSize: '0.8rem' } }}
+                                                >
+                                                    <MenuItem value="">（未割り当て）</MenuItem>
+                                                    {turnIntents.map(name => (
+                                                        <MenuItem key={name} value={name}>{getIntentLeaf(name)}</MenuItem>
+                                                    ))}
+                                                </TextField>
+                                            )}
+                                            <IconButton
+                                                size="small"
+                                                onClick={() => handleRemoveSlot(index)}
+                                                sx={{
+                                                    p: 0.2,
+                                                    ml: 0.5,
+                                                    color: grey[500],
+                                                    '&:hover': {
+                                                        color: 'error.main',
+                                                        bgcolor: 'error.light'
+                                                    }
+                                                }}
+                                            >
+                                                <DeleteIcon sx={{ fontSize: '1.1rem' }} />
+                                            </IconButton>
+                                        </Box>
+                                    </Tooltip>
                                 </motion.div>
                             ))}
                         </AnimatePresence>
 
+                        {/* 入力されていない必須スロット（クリックで入力を始める） */}
+                        {missingRequiredSlots.map(({ intent: slotIntent, key }) => (
+                            <Chip
+                                key={`missing-${slotIntent}-${key}`}
+                                label={isMultiIntent ? `${key}（${getIntentLeaf(slotIntent)}で必須）` : `${key}（必須）`}
+                                icon={<AddIcon />}
+                                color="warning"
+                                variant="outlined"
+                                onClick={() => handleAddEditingSlot(key, isMultiIntent ? slotIntent : undefined)}
+                                sx={{ borderStyle: 'dashed', fontSize: '1rem' }}
+                            />
+                        ))}
+
                         {/* 編集中のスロット */}
                         <AnimatePresence mode="popLayout">
                             {editingSlots.map((slot) => (
@@ -380,34 +662,7 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
                                         >
                                             {slot.key}:
                                         </Typography>
-                                        <TextField
-                                            size="medium"
-                                            value={slot.value}
-                                            onChange={(e) => handleUpdateSlotValue(slot.key, e.target.value)}
-                                            disabled={slot.isConfirmed}
-                                            inputProps={{
-                                                'data-slot-key': slot.key,
-                                                style: {
-                                                    color: slot.isConfirmed ? grey[600] : 'inherit',
-                                                    padding: '2px 4px',
-                                                    fontSize: '1.1rem'
-                                                }
-                                            }}
-                                            onKeyPress={(e) => {
-                                                if (e.key === 'Enter' && slot.value.trim() && !slot.isConfirmed) {
-                                                    e.preventDefault();
-                                                    handleConfirmSlot(slot);
-                                                }
-                                            }}
-                                            sx={{
-                                                width: '120px',
-                                                '& .MuiInputBase-root': {
-                                                    height: '32px',
-                                                    bgcolor: slot.isConfirmed ? grey[50] : 'background.paper',
-                                                    fontSize: '1.1rem'
-                                                }
-                                            }}
-                                        />
+                                        {renderSlotInput(slot)}
                                         {!slot.isConfirmed ? (
                                             <IconButton
                                                 size="medium"
@@ -451,6 +706,7 @@ const SlotIntentEditor: React.FC<SlotIntentEditorProps> = ({
                                     <Autocomplete
                                         size="medium"
                                         options={availableSlotKeys}
+                                        groupBy={isConstrained ? getSlotGroup : undefined}
                                         value={selectedSlotKey}
                                         onChange={(_, value) => handleSlotSelection(value)}
                                         freeSolo
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, LinearProgress, Typography } from '@mui/material';
+import { SpectrogramSettings } from '../types';
+import { createColorMapLut, SpectrogramResult } from '../utils/spectrogramUtils.ts';
+import { getMonoSamples } from '../utils/audioUtils.ts';
+
+interface SpectrogramViewProps {
+    audioBuffer: AudioBuffer | null;
+    settings: SpectrogramSettings;
+    // 波形全体の表示幅（px）とスクロール位置。波形と同じズーム・スクロールで表示するために使う
+    width: number;
+    scrollLeft: number;
+    height?: number;
+}
+
+// 1枚のcanvasに描画する最大フレーム数（canvasの最大サイズ対策）
+const MAX_TILE_FRAMES = 4000;
+
+const SpectrogramView: React.FC<SpectrogramViewProps> = ({
+    audioBuffer,
+    settings,
+    width,
+    scrollLeft,
+    height = 200
+}) => {
+    const [result, setResult] = useState<SpectrogramResult | null>(null);
+    const [isComputing, setIsComputing] = useState(false);
+    const canvasRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+
+    const { fftSize, melScale, colorMap } = settings;
+
+    // 音声またはFFT設定が変わったらワーカーで再計算
+    useEffect(() => {
+        if (!audioBuffer) return;
+
+        const worker = new Worker(new URL('../workers/spectrogram.worker.ts', import.meta.url));
+        setIsComputing(true);
+
+        worker.onmessage = (event: MessageEvent<SpectrogramResult>) => {
+            setResult(event.data);
+            setIsComputing(false);
+            worker.terminate();
+        };
+        worker.onerror = (error) => {
+            console.error('Failed to compute spectrogram:', error);
+            setIsComputing(false);
+            worker.terminate();
+        };
+
+        const samples = getMonoSamples(audioBuffer);
+        worker.postMessage({
+            samples,
+            sampleRate: audioBuffer.sampleRate,
+            fftSize,
+            melScale
+        }, [samples.buffer]);
+
+        return () => {
+            worker.terminate();
+        };
+    }, [audioBuffer, fftSize, melScale]);
+
+    const tileCount = result ? Math.ceil(result.numFrames / MAX_TILE_FRAMES) : 0;
+
+    // 計算結果をカラーマップで着色して描画
+    useEffect(() => {
+        if (!result) return;
+        const lut = createColorMapLut(colorMap);
+        const { data, numFrames, numBins } = result;
+
+        for (let tile = 0; tile < tileCount; tile++) {
+            const canvas = canvasRefs.current[tile];
+            const context = canvas?.getContext('2d');
+            if (!canvas || !context) continue;
+
+            const startFrame = tile * MAX_TILE_FRAMES;
+            const tileFrames = Math.min(MAX_TILE_FRAMES, numFrames - startFrame);
+            canvas.width = tileFrames;
+            canvas.height = numBins;
+
+            const image = context.createImageData(tileFrames, numBins);
+            for (let x = 0; x < tileFrames; x++) {
+                const frameOffset = (startFrame + x) * numBins;
+                for (let bin = 0; bin < numBins; bin++) {
+                    // 低い周波数を下に表示
+                    const pixel = ((numBins - 1 - bin) * tileFrames + x) * 4;
+                    const color = data[frameOffset + bin] * 4;
+                    image.data[pixel] = lut[color];
+                    image.data[pixel + 1] = lut[color + 1];
+                    image.data[pixel + 2] = lut[color + 2];
+                    image.data[pixel + 3] = 255;
+                }
+            }
+            context.putImageData(image, 0, 0);
+        }
+    }, [result, colorMap, tileCount]);
+
+    return (
+        <Box sx={{ position: 'relative', height, overflow: 'hidden', bgcolor: '#000', borderRadius: 1 }}>
+            {result && (
+                <Box sx={{
+                    display: 'flex',
+                    height: '100%',
+                    width: `${width}px`,
+                    transform: `translateX(${-scrollLeft}px)`
+                }}>
+                    {Array.from({ length: tileCount }, (_, tile) => {
+                        const tileFrames = Math.min(MAX_TILE_FRAMES, result.numFrames - tile * MAX_TILE_FRAMES);
+                        return (
+                            <canvas
+                                key={tile}
+                                ref={el => { canvasRefs.current[tile] = el; }}
+                                style={{
+                                    width: `${(width * tileFrames) / result.numFrames}px`,
+                                    height: '100%',
+                                    flexShrink: 0
+                                }}
+                            />
+                        );
+                    })}
+                </Box>
+            )}
+            {isComputing && (
+                <Box sx={{ position: 'absolute', inset: 0, display: 'flex', flexDirection: 'column', justifyContent: 'center', px: 4 }}>
+                    <Typography variant="body2" sx={{ color: 'white', mb: 1 }}>
+                        スペクトログラムを計算中...
+                    </Typography>
+                    <LinearProgress />
+                </Box>
+            )}
+            <Typography
+                variant="caption"
+                sx={{ position: 'absolute', top: 4, left: 8, color: 'rgba(255, 255, 255, 0.8)' }}
+            >
+                {melScale ? 'メル' : 'リニア'} / FFT {fftSize}
+            </Typography>
+        </Box>
+    );
+};
+
+export default SpectrogramView;
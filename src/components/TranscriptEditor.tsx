@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, Chip, ListSubheader, Menu, MenuItem, TextField, Tooltip, Typography } from '@mui/material';
+import LinkIcon from '@mui/icons-material/Link';
+import { ConversationLog, SlotSpan, SlotValue } from '../types';
+import { createSlotSpan, getLogRowRanges, getSlotSpanColor, splitTextBySpans } from '../utils/spanUtils.ts';
+import { withAlpha } from '../utils/speakerUtils.ts';
+
+interface TranscriptEditorProps {
+    transcript?: string;
+    // 紐付けた対話ログの行番号（0始まり）
+    logRows?: number[];
+    logs: ConversationLog[];
+    onTranscriptChange: (transcript: string) => void;
+    onUnlinkRow: (row: number) => void;
+    // ターンのスロット（範囲を持つものを書き起こし上で強調表示する）
+    slots?: SlotValue[];
+    // 範囲に割り当てられるスロット名
+    slotKeys?: string[];
+    onSlotSpanAssign?: (key: string, span: SlotSpan) => void;
+    onSlotSpanRemove?: (key: string) => void;
+}
+
+// 範囲の選択後、またはスロットの範囲のクリックで開くメニュー
+interface SpanMenuState {
+    left: number;
+    top: number;
+    start: number;
+    end: number;
+    // クリックした範囲のスロット（選択から開いた場合は無し）
+    key?: string;
+}
+
+const NO_LOG_ROWS: number[] = [];
+const NO_SLOTS: SlotValue[] = [];
+const NO_SLOT_KEYS: string[] = [];
+
+/**
+ * ターンの書き起こしの入力欄。対話ログの行を紐付けると、その行のテキストが入る。
+ * 入力のたびに履歴が残らないよう、フォーカスが外れたときに確定する。
+ * 確定した書き起こしの文字列を選択すると、その範囲をスロットに割り当てられる。
+ */
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+    transcript = '',
+    logRows = NO_LOG_ROWS,
+    logs,
+    onTranscriptChange,
+    onUnlinkRow,
+    slots = NO_SLOTS,
+    slotKeys = NO_SLOT_KEYS,
+    onSlotSpanAssign,
+    onSlotSpanRemove
+}) => {
+    const [value, setValue] = useState(transcript);
+    const [spanMenu, setSpanMenu] = useState<SpanMenuState | null>(null);
+    const textRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setValue(transcript);
+    }, [transcript]);
+
+    const rowRanges = useMemo(() => getLogRowRanges(transcript, logs, logRows), [transcript, logs, logRows]);
+    const pieces = useMemo(() => splitTextBySpans(transcript, slots, rowRanges), [transcript, slots, rowRanges]);
+
+    // 選択の端を書き起こしの文字位置に変換する（書き起こしの外は無し）
+    const getTextOffset = (node: Node, offset: number): number | null => {
+        const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node as Element;
+        const piece = element?.closest<HTMLElement>('[data-offset]');
+        if (!piece || !textRef.current?.contains(piece)) return null;
+        return Number(piece.dataset.offset) + (node.nodeType === Node.TEXT_NODE ? offset : 0);
+    };
+
+    const handleTextMouseUp = (e: React.MouseEvent) => {
+        const selection = window.getSelection();
+        if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+        const range = selection.getRangeAt(0);
+        let start = getTextOffset(range.startContainer, range.startOffset);
+        let end = getTextOffset(range.endContainer, range.endOffset);
+        if (start === null || end === null) return;
+        // 前後の空白は範囲に含めない
+        while (start < end && /\s/.test(transcript[start])) start++;
+        while (end > start && /\s/.test(transcript[end - 1])) end--;
+        if (start >= end) return;
+        setSpanMenu({ left: e.clientX, top: e.clientY, start, end });
+    };
+
+    const handleSpanAssign = (key: string) => {
+        if (spanMenu) {
+            onSlotSpanAssign?.(key, createSlotSpan(spanMenu.start, spanMenu.end, rowRanges));
+        }
+        window.getSelection()?.removeAllRanges();
+        setSpanMenu(null);
+    };
+
+    const handleSpanRemove = (key: string) => {
+        onSlotSpanRemove?.(key);
+        setSpanMenu(null);
+    };
+
+    return (
+        <Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1, flexWrap: 'wrap' }}>
+                <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                    書き起こし:
+                </Typography>
+                {logRows.map(row => (
+                    <Tooltip key={row} title={logs[row]?.text || ''}>
+                        <Chip
+                            icon={<LinkIcon />}
+                            label={`ログ${row + 1}行目`}
+                            size="small"
+                            color="secondary"
+                            variant="outlined"
+                            onDelete={() => onUnlinkRow(row)}
+                        />
+                    </Tooltip>
+                ))}
+                {logRows.length === 0 && (
+                    <Typography variant="caption" color="text.secondary">
+                        対話ログの行の紐付けボタン・ドラッグで紐付けられます
+                    </Typography>
+                )}
+            </Box>
+            <TextField
+                fullWidth
+                multiline
+                minRows={1}
+                maxRows={4}
+                size="small"
+                placeholder="発話内容を入力"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                onBlur={() => {
+                    if (value !== transcript) onTranscriptChange(value);
+                }}
+            />
+            {onSlotSpanAssign && transcript && (
+                <Box sx={{ mt: 1 }}>
+                    <Typography variant="caption" color="text.secondary">
+                        文字列を選択するとスロットの範囲に割り当てられます（範囲をクリックで解除）
+                    </Typography>
+                    <Box
+                        ref={textRef}
+                        onMouseUp={handleTextMouseUp}
+                        sx={{
+                            p: 1,
+                            border: 1,
+                            borderColor: 'divider',
+                            borderRadius: 1,
+                            bgcolor: 'background.paper',
+                            lineHeight: 2,
+                            whiteSpace: 'pre-wrap',
+                            cursor: 'text'
+                        }}
+                    >
+                        {pieces.map(piece => {
+                            const text = transcript.slice(piece.start, piece.end);
+                            const rowLabel = piece.row !== undefined ? `ログ${piece.row + 1}行目` : '';
+                            if (piece.key === undefined) {
+                                return (
+                                    <span key={piece.start} data-offset={piece.start} title={rowLabel || undefined}>
+                                        {text}
+                                    </span>
+                                );
+                            }
+                            const color = getSlotSpanColor(piece.key);
+                            const key = piece.key;
+                            return (
+                                <Box
+                                    component="span"
+                                    key={piece.start}
+                                    data-offset={piece.start}
+                                    title={rowLabel ? `${key}（${rowLabel}）` : key}
+                                    onClick={(e: React.MouseEvent) => {
+                                        if (!window.getSelection()?.isCollapsed) return;
+                                        setSpanMenu({ left: e.clientX, top: e.clientY, start: piece.start, end: piece.end, key });
+                                    }}
+                                    sx={{
+                                        bgcolor: withAlpha(color, 0.25),
+                                        borderBottom: `2px solid ${color}`,
+                                        cursor: 'pointer'
+                                    }}
+                                >
+                                    {text}
+                                </Box>
+                            );
+                        })}
+                    </Box>
+                    <Menu
+                        open={!!spanMenu}
+                        onClose={() => setSpanMenu(null)}
+                        anchorReference="anchorPosition"
+                        anchorPosition={spanMenu ? { top: spanMenu.top, left: spanMenu.left } : undefined}
+                    >
+                        {spanMenu?.key !== undefined ? (
+                            <MenuItem onClick={() => handleSpanRemove(spanMenu.key!)}>
+                                {`「${spanMenu.key}」の範囲を解除`}
+                            </MenuItem>
+                        ) : [
+                            <ListSubheader key="header">
+                                {spanMenu ? `「${transcript.slice(spanMenu.start, spanMenu.end)}」を割り当てるスロット` : ''}
+                            </ListSubheader>,
+                            ...slotKeys.map(key => (
+                                <MenuItem key={key} onClick={() => handleSpanAssign(key)}>
+                                    <Box
+                                        component="span"
+                                        sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: getSlotSpanColor(key), mr: 1 }}
+                                    />
+                                    {key}
+                                </MenuItem>
+                            )),
+                            ...(slotKeys.length === 0
+                                ? [<MenuItem key="empty" disabled>割り当てられるスロットがありません</MenuItem>]
+                                : [])
+                        ]}
+                    </Menu>
+                </Box>
+            )}
+        </Box>
+    );
+};
+
+export default TranscriptEditor;
@@ -1,7 +1,23 @@
-import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { Box, Button, Stack, Typography, Paper, Snackbar, Slider } from '@mui/material';
+import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import {
+    Box,
+    Button,
+    Stack,
+    Typography,
+    Paper,
+    Snackbar,
+    Slider,
+    FormControlLabel,
+    MenuItem,
+    Select,
+    Switch,
+    ToggleButton,
+    ToggleButtonGroup,
+    Tooltip
+} from '@mui/material';
 import WaveSurfer from 'wavesurfer.js';
 import RegionsPlugin from 'wavesurfer.js/dist/plugin/wavesurfer.regions.min.js';
+import type { RegionParams } from 'wavesurfer.js/src/plugin/regions';
 import MarkerPlugin from 'wavesurfer.js/dist/plugin/wavesurfer.markers.min.js';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import PauseIcon from '@mui/icons-material/Pause';
@@ -10,18 +26,118 @@ import StopIcon from '@mui/icons-material/Stop';
 import FlagIcon from '@mui/icons-material/Flag';
 import ZoomInIcon from '@mui/icons-material/ZoomIn';
 import ZoomOutIcon from '@mui/icons-material/ZoomOut';
+import GraphicEqIcon from '@mui/icons-material/GraphicEq';
+import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
 import { motion } from 'framer-motion';
-import { Segment, SlotValue, Turn } from '../types';
+import { ReviewFlag, Segment, SlotValue, Turn, UserSettings, SpectrogramSettings } from '../types';
 import SlotIntentEditor from './SlotIntentEditor.tsx';
+import SpectrogramView from './SpectrogramView.tsx';
+import AutoSegmentDialog from './AutoSegmentDialog.tsx';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts.ts';
+import { DEFAULT_USER_SETTINGS } from '../utils/settingsUtils.ts';
+import { withAlpha } from '../utils/speakerUtils.ts';
+import { ChannelRoutingBackend, setPlaybackChannel } from '../utils/audioUtils.ts';
+import { SPECTROGRAM_COLOR_MAPS } from '../utils/spectrogramUtils.ts';
+import { PlaybackSync } from '../utils/playbackUtils.ts';
+import { getReviewFlagDefinition } from '../utils/reviewUtils.ts';
 
 interface WaveformProps {
     audioFile: File;
-    onMarkerSet: (segments: Segment[]) => void;
+    // ターンごとのセグメント一覧を通知する
+    // asDraftがtrueの場合、既存のターンに対応しないセグメントは下書きターンとして追加される
+    onMarkerSet: (turnSegments: Segment[][], asDraft?: boolean) => void;
     onMarkerSelect: (index: number) => void;
     selectedTurnIndex: number;
-    segments: Segment[];
+    // ターンごとのセグメント（1つのターンが複数の区間を持てる）
+    turnSegments: Segment[][];
+    draftSegmentIndices?: number[];
+    // ターンごとの話者ロールの表示色（ロール未設定のターンはundefined）
+    turnColors?: (string | undefined)[];
+    // ターンごとの聞き取り不可・要確認などの印（区間にバッジで表示する）
+    turnFlags?: (ReviewFlag[] | undefined)[];
+    // チャンネルごとに波形を分けて表示する（元のステレオ音声を読み込んだ場合）
+    splitChannels?: boolean;
+    // 各チャンネルの表示名（話者ロール）
+    channelLabels?: string[];
+    // 元のステレオ音声に切り替えられるか、切り替えが固定されているか（既存ターンがある場合）
+    stereoAvailable?: boolean;
+    stereoLocked?: boolean;
+    settings?: UserSettings;
+    onSettingsChange?: (settings: UserSettings) => void;
+    shortcutsEnabled?: boolean;
+    // 再生位置の通知と、外からの再生位置の移動の要求
+    playbackSync?: PlaybackSync;
 }
 
+// draftSegmentIndicesの既定値（毎レンダーで新しい配列を作ると波形が再生成されるため定数にする）
+const NO_DRAFT_INDICES: number[] = [];
+const NO_TURN_COLORS: (string | undefined)[] = [];
+const NO_TURN_FLAGS: (ReviewFlag[] | undefined)[] = [];
+
+// 波形表示の高さ（ステレオ表示では各チャンネルで等分する）
+const WAVEFORM_HEIGHT = 256;
+const STEREO_CHANNEL_COUNT = 2;
+const CHANNEL_COLORS = {
+    0: { waveColor: '#4a90e2', progressColor: '#2196f3' },
+    1: { waveColor: '#e57373', progressColor: '#e53935' }
+};
+
+// 既存マーカーのラベル（例: 発話開始 2, 発話終了 2-3）からターン番号と区間番号を取得
+const parseSegmentMarkerLabel = (label?: string) => {
+    const match = label?.match(/^発話(開始|終了) (\d+)(?:-(\d+))?$/);
+    if (!match) return null;
+    return {
+        kind: (match[1] === '開始' ? 'start' : 'end') as 'start' | 'end',
+        turnIndex: parseInt(match[2]) - 1,
+        segmentIndex: match[3] ? parseInt(match[3]) - 1 : 0
+    };
+};
+
+// 区間が1つだけのターンは従来通り「発話開始 2」、複数ある場合は「発話開始 2-1」とする
+const getSegmentMarkerLabel = (kind: 'start' | 'end', turnIndex: number, segmentIndex: number, segmentCount: number) =>
+    `発話${kind === 'start' ? '開始' : '終了'} ${turnIndex + 1}${segmentCount > 1 ? `-${segmentIndex + 1}` : ''}`;
+
+// セグメントを時間順に並べ、ターンも最初のセグメントの開始時刻順に並べる
+const sortTurnSegments = (turnSegments: Segment[][]): Segment[][] =>
+    turnSegments
+        .filter(segments => segments.length > 0)
+        .map(segments => [...segments].sort((a, b) => a.start - b.start))
+        .sort((a, b) => a[0].start - b[0].start);
+
+// 区間の左上に重ねる印のバッジ（波形のクリックを妨げないようにする）
+const createFlagBadge = (flags: ReviewFlag[]): HTMLElement => {
+    const badge = document.createElement('div');
+    badge.title = flags.map(flag => getReviewFlagDefinition(flag).label).join('、');
+    Object.assign(badge.style, {
+        position: 'absolute',
+        top: '2px',
+        left: '2px',
+        display: 'flex',
+        gap: '2px',
+        pointerEvents: 'none',
+        zIndex: '4'
+    });
+    flags.forEach(flag => {
+        const { label, color } = getReviewFlagDefinition(flag);
+        const item = document.createElement('span');
+        item.textContent = label;
+        Object.assign(item.style, {
+            fontSize: '10px',
+            lineHeight: '14px',
+            padding: '0 4px',
+            borderRadius: '3px',
+            color: '#fff',
+            backgroundColor: color,
+            whiteSpace: 'nowrap'
+        });
+        badge.appendChild(item);
+    });
+    return badge;
+};
+
+// スペクトログラムのFFTサイズの選択肢
+const FFT_SIZES = [256, 512, 1024, 2048];
+
 interface WaveMarker {
     time: number;
     label: string;
@@ -38,15 +154,17 @@ type WaveSurferPlugin = {
 };
 
 // WaveSurfer拡張型
-interface ExtendedWaveSurfer extends Omit<WaveSurfer, 'markers' | 'regions'> {
+interface ExtendedWaveSurfer extends Omit<WaveSurfer, 'markers' | 'regions' | 'addRegion'> {
     isScrolling?: boolean;
     scrollTimeout?: NodeJS.Timeout;
-    backend: {
+    backend: ChannelRoutingBackend & {
+        buffer: AudioBuffer;
         getPeaks(width: number): number[];
         getPlayedPercents(): number;
     };
     drawer: {
         width: number;
+        wrapper: HTMLElement;
         params: {
             barHeight: number;
         };
@@ -64,6 +182,8 @@ interface ExtendedWaveSurfer extends Omit<WaveSurfer, 'markers' | 'regions'> {
         add(params: any): void;
         clear(): void;
     };
+    // 追加した領域（描画された要素にバッジを付けるために使う）
+    addRegion(params: RegionParams): { element?: HTMLElement } | null;
     clearMarkers(): void;
     clearRegions(): void;
 }
@@ -73,9 +193,22 @@ const WaveformComponent: React.FC<WaveformProps> = ({
     onMarkerSet,
     onMarkerSelect,
     selectedTurnIndex,
-    segments,
+    turnSegments,
+    draftSegmentIndices = NO_DRAFT_INDICES,
+    turnColors = NO_TURN_COLORS,
+    turnFlags = NO_TURN_FLAGS,
+    splitChannels = false,
+    channelLabels = [],
+    stereoAvailable = false,
+    stereoLocked = false,
+    settings = DEFAULT_USER_SETTINGS,
+    onSettingsChange,
+    shortcutsEnabled = true,
+    playbackSync,
 }) => {
     const waveformRef = useRef<HTMLDivElement | null>(null);
+    // 波形を作り直したときに再生位置を戻すため、音声ファイルごとの最後の位置を覚えておく
+    const playbackPositionRef = useRef<{ file: File | null; time: number }>({ file: null, time: 0 });
     const wavesurfer = useRef<ExtendedWaveSurfer | null>(null);
     const [isPlaying, setIsPlaying] = useState(false);
     const [isReady, setIsReady] = useState(false);
@@ -86,30 +219,58 @@ const WaveformComponent: React.FC<WaveformProps> = ({
     const [hasUnsavedMarkerChanges, setHasUnsavedMarkerChanges] = useState(false);
     const [tempMarkers, setTempMarkers] = useState<{ start?: number; end?: number }>({});
     const [zoomLevel, setZoomLevel] = useState<number>(1);
+    const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+    const [showAutoSegmentDialog, setShowAutoSegmentDialog] = useState(false);
+    // 確定した区間を新しいターンではなく選択中のターンに追加するか
+    const [addToSelectedTurn, setAddToSelectedTurn] = useState(false);
+    const allSegments = useMemo(() => turnSegments.flat(), [turnSegments]);
+    // ステレオ表示で新しい区間を設定するチャンネルと、再生するチャンネル（nullは両方）
+    const [activeChannel, setActiveChannel] = useState(0);
+    const [playbackChannel, setPlaybackChannelState] = useState<number | null>(null);
+    // 波形全体の幅とスクロール位置（スペクトログラムの同期用）
+    const [viewport, setViewport] = useState<{ width: number; scrollLeft: number }>({ width: 0, scrollLeft: 0 });
     const MAX_ZOOM = 10;
     const MIN_ZOOM = 1;
     const ZOOM_STEP = 0.1;
 
-    const updateMarkersDisplay = useCallback((ws: ExtendedWaveSurfer, segments: Segment[], preserveExisting: boolean = false) => {
+    const updateMarkersDisplay = useCallback((ws: ExtendedWaveSurfer, turnSegments: Segment[][], preserveExisting: boolean = false) => {
         if (!preserveExisting) {
             ws.clearMarkers();
             ws.clearRegions();
         }
 
-        segments.forEach((segment, index) => {
+        // 同じターンの区間はすべて同じ色で表示する
+        turnSegments.forEach((segments, index) => segments.forEach((segment, segmentIndex) => {
             // 発話区間の領域を追加（開始から終了までの区間）
-            ws.addRegion({
+            // 自動検出による下書きターンはオレンジ、話者ロールが設定されたターンはロールの色で表示
+            const isDraft = draftSegmentIndices.includes(index);
+            const speakerColor = turnColors[index];
+            // ステレオ表示では区間を設定したチャンネルのレーンにだけ表示する
+            const channelParams = splitChannels && segment.channel !== undefined ? { channelIdx: segment.channel } : {};
+            const region = ws.addRegion({
+                ...channelParams,
                 start: segment.start,
                 end: segment.end,
-                color: index === selectedTurnIndex ? 'rgba(76, 175, 80, 0.15)' : 'rgba(129, 199, 132, 0.1)',
+                color: isDraft
+                    ? (index === selectedTurnIndex ? 'rgba(255, 152, 0, 0.3)' : 'rgba(255, 152, 0, 0.15)')
+                    : speakerColor
+                        ? withAlpha(speakerColor, index === selectedTurnIndex ? 0.25 : 0.12)
+                        : (index === selectedTurnIndex ? 'rgba(76, 175, 80, 0.15)' : 'rgba(129, 199, 132, 0.1)'),
                 drag: false,
                 resize: false,
             });
 
+            // 印の付いたターンは最初の区間の左上にバッジを表示する
+            const flags = turnFlags[index];
+            if (region?.element && flags && flags.length > 0 && segmentIndex === 0) {
+                region.element.appendChild(createFlagBadge(flags));
+            }
+
             // 発話終了アノテーション区間の領域を追加（終了時刻の前後100ms）
             const annotationStart = Math.max(segment.end - 0.1, segment.start);  // 発話区間と重ならないように
             const annotationEnd = Math.min(ws.getDuration(), segment.end + 0.1);
             ws.addRegion({
+                ...channelParams,
                 start: annotationStart,
                 end: annotationEnd,
                 color: index === selectedTurnIndex ? 'rgba(255, 0, 0, 0.15)' : 'rgba(100, 100, 100, 0.1)',
@@ -120,8 +281,8 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             // 発話開始マーカー
             ws.addMarker({
                 time: segment.start,
-                label: `発話開始 ${index + 1}`,
-                color: index === selectedTurnIndex ? '#4CAF50' : '#999999',
+                label: getSegmentMarkerLabel('start', index, segmentIndex, segments.length),
+                color: index === selectedTurnIndex ? '#4CAF50' : speakerColor || '#999999',
                 position: 'top',
                 draggable: isAnnotationMode,
                 preventContextMenu: true,
@@ -142,8 +303,8 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             // 発話終了マーカー
             ws.addMarker({
                 time: segment.end,
-                label: `発話終了 ${index + 1}`,
-                color: index === selectedTurnIndex ? '#ff0000' : '#999999',
+                label: getSegmentMarkerLabel('end', index, segmentIndex, segments.length),
+                color: index === selectedTurnIndex ? '#ff0000' : speakerColor || '#999999',
                 position: 'top',
                 draggable: isAnnotationMode,
                 preventContextMenu: true,
@@ -160,7 +321,7 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                     height: '20px'
                 }
             });
-        });
+        }));
 
         // 一時マーカーの表示
         if (tempMarkers.start !== undefined) {
@@ -207,7 +368,7 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                 }
             });
         }
-    }, [selectedTurnIndex, isAnnotationMode, tempMarkers]);
+    }, [selectedTurnIndex, isAnnotationMode, tempMarkers, draftSegmentIndices, turnColors, turnFlags, splitChannels]);
 
     const handlePlayPause = useCallback(() => {
         if (wavesurfer.current && isReady) {
@@ -281,14 +442,14 @@ const WaveformComponent: React.FC<WaveformProps> = ({
 
     const handleDeleteMarker = useCallback((index: number) => {
         if (!wavesurfer.current) return;
-        const newSegments = segments.filter((_, i) => i !== index);
-        onMarkerSet(newSegments);
-    }, [segments, onMarkerSet]);
+        const newTurnSegments = turnSegments.filter((_, i) => i !== index);
+        onMarkerSet(newTurnSegments);
+    }, [turnSegments, onMarkerSet]);
 
     const handleConfirmMarkerPositions = useCallback(() => {
         if (wavesurfer.current) {
             const ws = wavesurfer.current;
-            let updatedSegments = [...segments];
+            let updatedTurnSegments = turnSegments.map(segments => [...segments]);
             let hasChanges = false;
 
             // 既存のマーカーの位置を更新
@@ -297,20 +458,12 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             );
 
             existingMarkers.forEach((marker: any) => {
-                const matchStart = marker.label?.match(/発話開始 (\d+)/);
-                const matchEnd = marker.label?.match(/発話終了 (\d+)/);
-                if (matchStart || matchEnd) {
-                    const index = parseInt((matchStart?.[1] || matchEnd?.[1]) as string) - 1;
-                    if (index >= 0 && index < segments.length) {
-                        if (matchStart && Math.abs(updatedSegments[index].start - marker.time) > 0.001) {
-                            updatedSegments[index] = { ...updatedSegments[index], start: marker.time };
-                            hasChanges = true;
-                        }
-                        if (matchEnd && Math.abs(updatedSegments[index].end - marker.time) > 0.001) {
-                            updatedSegments[index] = { ...updatedSegments[index], end: marker.time };
-                            hasChanges = true;
-                        }
-                    }
+                const parsed = parseSegmentMarkerLabel(marker.label);
+                if (!parsed) return;
+                const segment = updatedTurnSegments[parsed.turnIndex]?.[parsed.segmentIndex];
+                if (segment && Math.abs(segment[parsed.kind] - marker.time) > 0.001) {
+                    updatedTurnSegments[parsed.turnIndex][parsed.segmentIndex] = { ...segment, [parsed.kind]: marker.time };
+                    hasChanges = true;
                 }
             });
 
@@ -321,42 +474,37 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             if (tempStartMarker && tempEndMarker) {
                 const newSegment: Segment = {
                     start: tempStartMarker.time,
-                    end: tempEndMarker.time
+                    end: tempEndMarker.time,
+                    ...(splitChannels ? { channel: activeChannel } : {})
                 };
 
-                // 新しいセグメントを時間順に挿入
-                const insertIndex = updatedSegments.findIndex(segment => segment.start > newSegment.start);
-
-                // 新しいセグメントの配列を作成
-                const newSegments = insertIndex === -1
-                    ? [...updatedSegments, newSegment]  // 末尾に追加
-                    : [
-                        ...updatedSegments.slice(0, insertIndex),
-                        newSegment,
-                        ...updatedSegments.slice(insertIndex)
-                    ];  // 途中に挿入
-
-                updatedSegments = newSegments;
+                if (addToSelectedTurn && updatedTurnSegments[selectedTurnIndex]) {
+                    // 選択中のターンに区間を追加
+                    updatedTurnSegments[selectedTurnIndex] = [...updatedTurnSegments[selectedTurnIndex], newSegment];
+                } else {
+                    // 新しいターンとして追加
+                    updatedTurnSegments.push([newSegment]);
+                }
                 hasChanges = true;
             }
 
             if (hasChanges) {
-                // セグメントを時間順にソート
-                updatedSegments.sort((a, b) => a.start - b.start);
+                // 区間とターンを時間順にソート
+                updatedTurnSegments = sortTurnSegments(updatedTurnSegments);
 
-                onMarkerSet(updatedSegments);
+                onMarkerSet(updatedTurnSegments);
                 setHasUnsavedMarkerChanges(false);
                 setShowMarkerFeedback(true);
 
                 ws.clearMarkers();
                 ws.clearRegions();
-                updateMarkersDisplay(ws, updatedSegments);
+                updateMarkersDisplay(ws, updatedTurnSegments);
 
                 if (tempStartMarker && tempEndMarker) {
-                    const newIndex = updatedSegments.findIndex(segment =>
+                    const newIndex = updatedTurnSegments.findIndex(segments => segments.some(segment =>
                         Math.abs(segment.start - tempStartMarker.time) < 0.001 &&
                         Math.abs(segment.end - tempEndMarker.time) < 0.001
-                    );
+                    ));
                     if (newIndex !== -1) {
                         onMarkerSelect(newIndex);
                     }
@@ -366,7 +514,7 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             // 一時マーカーの状態をリセット
             setTempMarkers({});
         }
-    }, [segments, onMarkerSet, updateMarkersDisplay, onMarkerSelect]);
+    }, [turnSegments, onMarkerSet, updateMarkersDisplay, onMarkerSelect, addToSelectedTurn, selectedTurnIndex, splitChannels, activeChannel]);
 
     const handleClick = (time: number) => {
         if (!wavesurfer.current || !isAnnotationMode) return;
@@ -444,37 +592,38 @@ const WaveformComponent: React.FC<WaveformProps> = ({
         }
 
         // 既存のマーカーの視覚的な位置のみを更新
-        const matchStart = marker.label?.match(/発話開始 (\d+)/);
-        const matchEnd = marker.label?.match(/発話終了 (\d+)/);
-
-        if (matchStart || matchEnd) {
-            const index = parseInt((matchStart?.[1] || matchEnd?.[1]) as string) - 1;
-            if (index >= 0 && index < segments.length) {
-                // 発話開始マーカーの場合
-                if (matchStart) {
-                    marker.color = index === selectedTurnIndex ? '#4CAF50' : '#999999';
-                    marker.time = Math.min(marker.time, segments[index].end);
-                }
-                // 発話終了マーカーの場合
-                if (matchEnd) {
-                    marker.color = index === selectedTurnIndex ? '#ff0000' : '#999999';
-                    marker.time = Math.max(marker.time, segments[index].start);
-                    // セグメント領域の視覚的な更新
-                    const regionKeys = Object.keys(ws.regions.list);
-                    const region = ws.regions.list[regionKeys[index]];
-                    if (region) {
-                        region.update({
-                            start: Math.max(0, marker.time - 0.1),
-                            end: Math.min(ws.getDuration(), marker.time + 0.1)
-                        });
-                        if (index === selectedTurnIndex) {
-                            region.update({ color: 'rgba(255, 0, 0, 0.1)' });
-                        }
+        const parsed = parseSegmentMarkerLabel(marker.label);
+        const segment = parsed ? turnSegments[parsed.turnIndex]?.[parsed.segmentIndex] : undefined;
+
+        if (parsed && segment) {
+            const { turnIndex, segmentIndex } = parsed;
+            // 発話開始マーカーの場合
+            if (parsed.kind === 'start') {
+                marker.color = turnIndex === selectedTurnIndex ? '#4CAF50' : '#999999';
+                marker.time = Math.min(marker.time, segment.end);
+            }
+            // 発話終了マーカーの場合
+            if (parsed.kind === 'end') {
+                marker.color = turnIndex === selectedTurnIndex ? '#ff0000' : '#999999';
+                marker.time = Math.max(marker.time, segment.start);
+                // 発話終了アノテーション区間の視覚的な更新（区間ごとに発話区間・終了区間の順で登録されている）
+                const flatIndex = turnSegments
+                    .slice(0, turnIndex)
+                    .reduce((count, segments) => count + segments.length, 0) + segmentIndex;
+                const regionKeys = Object.keys(ws.regions.list);
+                const region = ws.regions.list[regionKeys[flatIndex * 2 + 1]];
+                if (region) {
+                    region.update({
+                        start: Math.max(0, marker.time - 0.1),
+                        end: Math.min(ws.getDuration(), marker.time + 0.1)
+                    });
+                    if (turnIndex === selectedTurnIndex) {
+                        region.update({ color: 'rgba(255, 0, 0, 0.1)' });
                     }
                 }
-                // マーカーの変更を未保存状態にする
-                setHasUnsavedMarkerChanges(true);
             }
+            // マーカーの変更を未保存状態にする
+            setHasUnsavedMarkerChanges(true);
         }
     };
 
@@ -496,19 +645,13 @@ const WaveformComponent: React.FC<WaveformProps> = ({
         );
 
         existingMarkers.forEach((marker: any) => {
-            const matchStart = marker.label?.match(/発話開始 (\d+)/);
-            const matchEnd = marker.label?.match(/発話終了 (\d+)/);
-            if (matchStart || matchEnd) {
-                const index = parseInt((matchStart?.[1] || matchEnd?.[1]) as string) - 1;
-                if (index >= 0 && index < segments.length) {
-                    if ((matchStart && Math.abs(segments[index].start - marker.time) > 0.001) ||
-                        (matchEnd && Math.abs(segments[index].end - marker.time) > 0.001)) {
-                        setHasUnsavedMarkerChanges(true);
-                    }
-                }
+            const parsed = parseSegmentMarkerLabel(marker.label);
+            const segment = parsed ? turnSegments[parsed.turnIndex]?.[parsed.segmentIndex] : undefined;
+            if (parsed && segment && Math.abs(segment[parsed.kind] - marker.time) > 0.001) {
+                setHasUnsavedMarkerChanges(true);
             }
         });
-    }, [segments]);
+    }, [turnSegments]);
 
     useEffect(() => {
         if (!waveformRef.current) return;
@@ -519,8 +662,8 @@ const WaveformComponent: React.FC<WaveformProps> = ({
 
         const ws = WaveSurfer.create({
             container: waveformRef.current,
-            waveColor: '#4a90e2',
-            progressColor: '#2196f3',
+            waveColor: CHANNEL_COLORS[0].waveColor,
+            progressColor: CHANNEL_COLORS[0].progressColor,
             cursorColor: '#2196f3',
             plugins: [
                 MarkerPlugin.create({
@@ -529,7 +672,7 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                 }),
                 RegionsPlugin.create()
             ],
-            height: 256,
+            height: splitChannels ? WAVEFORM_HEIGHT / STEREO_CHANNEL_COUNT : WAVEFORM_HEIGHT,
             barWidth: 2,
             barGap: 1,
             barRadius: 2,
@@ -545,7 +688,10 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             barHeight: 0.8,
             mediaControls: false,
             hideScrollbar: true,
-            splitChannels: false,
+            splitChannels,
+            splitChannelsOptions: {
+                channelColors: CHANNEL_COLORS
+            },
             backend: 'WebAudio',
             cursorWidth: 1,
             maxCanvasWidth: 4000
@@ -553,10 +699,18 @@ const WaveformComponent: React.FC<WaveformProps> = ({
 
         wavesurfer.current = ws;
 
+        const updateViewport = () => {
+            setViewport({
+                width: ws.drawer.width / ws.params.pixelRatio,
+                scrollLeft: ws.drawer.wrapper.scrollLeft
+            });
+        };
+
         const handleReady = () => {
             setIsReady(true);
             setDuration(ws.getDuration());
-            updateMarkersDisplay(ws, segments);
+            setAudioBuffer(ws.backend.buffer);
+            updateMarkersDisplay(ws, turnSegments);
 
             try {
                 // 波形の振幅を解析して適切なスケールを設定
@@ -593,17 +747,28 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             const initialMinPxPerSec = containerWidth / ws.getDuration();
             ws.zoom(initialMinPxPerSec);
             setZoomLevel(1);
+
+            // 同じ音声の波形を作り直した場合は、直前の再生位置に戻す
+            const position = playbackPositionRef.current;
+            if (position.file === audioFile && position.time > 0 && position.time < ws.getDuration()) {
+                ws.setCurrentTime(position.time);
+                setCurrentTime(position.time);
+            }
         };
 
         const handlePlay = () => setIsPlaying(true);
         const handlePause = () => setIsPlaying(false);
         const handleTimeUpdate = () => {
+            const time = ws.getCurrentTime();
+            playbackPositionRef.current = { file: audioFile, time };
+            playbackSync?.publishTime(time);
             if (!ws.isScrolling) {  // スクロール中は更新を抑制
-                setCurrentTime(ws.getCurrentTime());
+                setCurrentTime(time);
             }
         };
 
         const handleScroll = () => {
+            updateViewport();
             ws.isScrolling = true;
             if (ws.scrollTimeout) {
                 clearTimeout(ws.scrollTimeout);
@@ -614,11 +779,9 @@ const WaveformComponent: React.FC<WaveformProps> = ({
         };
 
         const handleMarkerDragStart = (marker: any) => {
-            const matchStart = marker.label?.match(/発話開始 (\d+)/);
-            const matchEnd = marker.label?.match(/発話終了 (\d+)/);
-            const index = matchStart ? parseInt(matchStart[1]) - 1 : matchEnd ? parseInt(matchEnd[1]) - 1 : -1;
-            if (index !== -1 && onMarkerSelect) {
-                onMarkerSelect(index);
+            const parsed = parseSegmentMarkerLabel(marker.label);
+            if (parsed && onMarkerSelect) {
+                onMarkerSelect(parsed.turnIndex);
             }
         };
 
@@ -632,7 +795,9 @@ const WaveformComponent: React.FC<WaveformProps> = ({
         ws.on('play', handlePlay);
         ws.on('pause', handlePause);
         ws.on('audioprocess', handleTimeUpdate);
+        ws.on('seek', handleTimeUpdate);
         ws.on('scroll', handleScroll);
+        ws.on('redraw', updateViewport);
 
         // オーディオファイルを読み込み
         ws.loadBlob(audioFile);
@@ -645,7 +810,35 @@ const WaveformComponent: React.FC<WaveformProps> = ({
             setIsReady(false);
             setIsPlaying(false);
         };
-    }, [audioFile, segments, updateMarkersDisplay, onMarkerSet, onMarkerSelect, isAnnotationMode]);
+    }, [audioFile, turnSegments, updateMarkersDisplay, onMarkerSet, onMarkerSelect, isAnnotationMode, splitChannels, playbackSync]);
+
+    // 対話ログなど波形の外からの再生位置の移動（読み込み中の場合は読み込み後に移動する）
+    useEffect(() => {
+        if (!playbackSync) return;
+        return playbackSync.subscribeSeek(time => {
+            playbackPositionRef.current = { file: audioFile, time };
+            if (wavesurfer.current && isReady) {
+                wavesurfer.current.setCurrentTime(time);
+                setCurrentTime(time);
+            }
+        });
+    }, [playbackSync, audioFile, isReady]);
+
+    // 再生するチャンネルを切り替え（波形を作り直した場合も再適用）
+    useEffect(() => {
+        if (!wavesurfer.current || !isReady) return;
+        setPlaybackChannel(wavesurfer.current.backend, splitChannels ? playbackChannel : null);
+    }, [playbackChannel, splitChannels, isReady]);
+
+    // ステレオ表示でクリックされたレーンを新しい区間のチャンネルにする
+    const handleWaveformMouseDown = (event: React.MouseEvent<HTMLDivElement>) => {
+        if (!splitChannels) return;
+        const rect = event.currentTarget.getBoundingClientRect();
+        const lane = Math.floor((event.clientY - rect.top) / (WAVEFORM_HEIGHT / STEREO_CHANNEL_COUNT));
+        setActiveChannel(Math.min(STEREO_CHANNEL_COUNT - 1, Math.max(0, lane)));
+    };
+
+    const getChannelLabel = (channel: number) => channelLabels[channel] || `チャンネル ${channel + 1}`;
 
     const toggleAnnotationMode = useCallback(() => {
         setIsAnnotationMode(!isAnnotationMode);
@@ -698,6 +891,100 @@ const WaveformComponent: React.FC<WaveformProps> = ({
         handleZoom(newZoom);
     }, [zoomLevel, handleZoom]);
 
+    // 再生位置を指定秒数だけ移動
+    const handleSeekBy = useCallback((delta: number) => {
+        if (!wavesurfer.current || !isReady) return;
+        const ws = wavesurfer.current;
+        const time = Math.min(Math.max(ws.getCurrentTime() + delta, 0), ws.getDuration());
+        ws.setCurrentTime(time);
+        setCurrentTime(time);
+    }, [isReady]);
+
+    // 現在の再生位置に一時マーカーを設定（同じ種類の一時マーカーがあれば置き換える）
+    const handleSetTempMarkerAtCurrentTime = useCallback((kind: 'start' | 'end') => {
+        if (!wavesurfer.current || !isAnnotationMode) return;
+        const ws = wavesurfer.current;
+        const time = ws.getCurrentTime();
+
+        const markers = Object.values(ws.markers.markers || {}) as WaveMarker[];
+        const startMarker = markers.find(m => m.label === '一時マーカー (開始)');
+        const endMarker = markers.find(m => m.label === '一時マーカー (終了)');
+
+        // 開始マーカーは終了マーカーより前、終了マーカーは開始マーカーより後に限る
+        if (kind === 'start' && endMarker && time >= endMarker.time) return;
+        if (kind === 'end' && startMarker && time <= startMarker.time) return;
+
+        const existingMarker = kind === 'start' ? startMarker : endMarker;
+        if (existingMarker) {
+            ws.markers.remove(existingMarker);
+        }
+
+        ws.addMarker({
+            time: time,
+            label: kind === 'start' ? '一時マーカー (開始)' : '一時マーカー (終了)',
+            color: kind === 'start' ? '#4CAF50' : '#999999',
+            position: 'top',
+            draggable: true,
+            preventContextMenu: true,
+            labelStyle: {
+                fontSize: '16px',
+                fontWeight: 'bold',
+                padding: '4px 8px',
+                backgroundColor: 'rgba(255, 255, 255, 0.8)',
+                borderRadius: '4px',
+                top: '-30px'
+            },
+            markerStyle: {
+                width: '4px',
+                height: '20px'
+            }
+        });
+
+        const hasBothMarkers = kind === 'start' ? endMarker !== undefined : startMarker !== undefined;
+        setHasUnsavedMarkerChanges(prev => prev || hasBothMarkers);
+    }, [isAnnotationMode]);
+
+    // 前後のターンを選択し、その発話開始位置へ移動
+    const handleSelectAdjacentTurn = useCallback((direction: -1 | 1) => {
+        if (turnSegments.length === 0) return;
+        const newIndex = Math.min(Math.max(selectedTurnIndex + direction, 0), turnSegments.length - 1);
+        onMarkerSelect(newIndex);
+
+        const firstSegment = turnSegments[newIndex][0];
+        if (wavesurfer.current && isReady && firstSegment) {
+            wavesurfer.current.setCurrentTime(firstSegment.start);
+            setCurrentTime(firstSegment.start);
+        }
+    }, [turnSegments, selectedTurnIndex, onMarkerSelect, isReady]);
+
+    useKeyboardShortcuts(settings.keyBindings, {
+        togglePlayPause: handlePlayPause,
+        seekBackward: () => handleSeekBy(-settings.seekStep),
+        seekForward: () => handleSeekBy(settings.seekStep),
+        seekBackwardLarge: () => handleSeekBy(-settings.largeSeekStep),
+        seekForwardLarge: () => handleSeekBy(settings.largeSeekStep),
+        toggleAnnotationMode,
+        setStartMarker: () => handleSetTempMarkerAtCurrentTime('start'),
+        setEndMarker: () => handleSetTempMarkerAtCurrentTime('end'),
+        confirmSegment: handleConfirmMarkerPositions,
+        previousTurn: () => handleSelectAdjacentTurn(-1),
+        nextTurn: () => handleSelectAdjacentTurn(1),
+    }, shortcutsEnabled);
+
+    // 自動区間検出の候補を1区間ずつのターンとして既存のターンと合わせて時間順に並べ、下書きターンとして追加
+    const handleApplyAutoSegments = (proposals: Segment[]) => {
+        const mergedTurnSegments = sortTurnSegments([...turnSegments, ...proposals.map(proposal => [proposal])]);
+        onMarkerSet(mergedTurnSegments, true);
+        setShowAutoSegmentDialog(false);
+    };
+
+    const handleSpectrogramSettingsChange = (changes: Partial<SpectrogramSettings>) => {
+        onSettingsChange?.({
+            ...settings,
+            spectrogram: { ...settings.spectrogram, ...changes }
+        });
+    };
+
     const handleResetZoom = useCallback(() => {
         if (!wavesurfer.current) return;
         const ws = wavesurfer.current;
@@ -755,6 +1042,19 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                     >
                         {isAnnotationMode ? 'アノテーション終了' : 'アノテーション開始'}
                     </Button>
+                    <Button
+                        variant="outlined"
+                        onClick={() => setShowAutoSegmentDialog(true)}
+                        disabled={!isReady}
+                        startIcon={<Box sx={{ '& > svg': { fontSize: '1.8rem' } }}><AutoFixHighIcon /></Box>}
+                        sx={{
+                            fontSize: '1.4rem',
+                            py: 1.5,
+                            px: 3
+                        }}
+                    >
+                        自動区間検出
+                    </Button>
                     {isAnnotationMode && wavesurfer.current && (
                         <>
                             <Button
@@ -786,6 +1086,16 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                             >
                                 マーカー位置を確定
                             </Button>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={addToSelectedTurn}
+                                        onChange={(e) => setAddToSelectedTurn(e.target.checked)}
+                                        disabled={turnSegments.length === 0}
+                                    />
+                                }
+                                label={`選択中のターン（ターン ${selectedTurnIndex + 1}）に区間を追加`}
+                            />
                         </>
                     )}
                     <Typography variant="body1" color="textSecondary" sx={{ fontSize: '1.3rem' }}>
@@ -802,6 +1112,67 @@ const WaveformComponent: React.FC<WaveformProps> = ({
 
             <Box sx={{ mb: 2, mt: 2 }}>
                 <Stack direction="row" spacing={2} alignItems="center" justifyContent="flex-end">
+                    {/* スペクトログラムの表示切り替えと設定 */}
+                    <Button
+                        variant={settings.spectrogram.enabled ? 'contained' : 'outlined'}
+                        onClick={() => handleSpectrogramSettingsChange({ enabled: !settings.spectrogram.enabled })}
+                        startIcon={<GraphicEqIcon />}
+                        sx={{
+                            fontSize: '1.2rem',
+                            py: 1,
+                            px: 2
+                        }}
+                    >
+                        スペクトログラム
+                    </Button>
+                    {settings.spectrogram.enabled && (
+                        <>
+                            <Select
+                                size="small"
+                                value={settings.spectrogram.fftSize}
+                                onChange={(e) => handleSpectrogramSettingsChange({ fftSize: Number(e.target.value) })}
+                            >
+                                {FFT_SIZES.map(size => (
+                                    <MenuItem key={size} value={size}>FFT {size}</MenuItem>
+                                ))}
+                            </Select>
+                            <Select
+                                size="small"
+                                value={settings.spectrogram.colorMap}
+                                onChange={(e) => handleSpectrogramSettingsChange({
+                                    colorMap: e.target.value as SpectrogramSettings['colorMap']
+                                })}
+                            >
+                                {SPECTROGRAM_COLOR_MAPS.map(colorMap => (
+                                    <MenuItem key={colorMap} value={colorMap}>{colorMap}</MenuItem>
+                                ))}
+                            </Select>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={settings.spectrogram.melScale}
+                                        onChange={(e) => handleSpectrogramSettingsChange({ melScale: e.target.checked })}
+                                    />
+                                }
+                                label="メル尺度"
+                            />
+                        </>
+                    )}
+                    {stereoAvailable && (
+                        <Tooltip title={stereoLocked ? 'ターンがある会話は音声を切り替えられません' : ''}>
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={splitChannels}
+                                        disabled={stereoLocked}
+                                        onChange={(e) => onSettingsChange?.({ ...settings, stereoView: e.target.checked })}
+                                    />
+                                }
+                                label="ステレオ表示"
+                            />
+                        </Tooltip>
+                    )}
+                    <Box sx={{ flex: 1 }} />
                     <Button
                         variant="outlined"
                         onClick={handleResetZoom}
@@ -861,15 +1232,54 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                 </Stack>
             </Box>
 
+            {splitChannels && (
+                <Stack direction="row" spacing={3} alignItems="center" sx={{ mb: 2 }}>
+                    <Typography variant="body1">再生:</Typography>
+                    <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={playbackChannel ?? 'both'}
+                        onChange={(_, value) => {
+                            if (value !== null) setPlaybackChannelState(value === 'both' ? null : value);
+                        }}
+                    >
+                        <ToggleButton value="both">両方</ToggleButton>
+                        {Array.from({ length: STEREO_CHANNEL_COUNT }, (_, channel) => (
+                            <ToggleButton key={channel} value={channel}>{getChannelLabel(channel)}</ToggleButton>
+                        ))}
+                    </ToggleButtonGroup>
+                    <Typography variant="body1">区間を設定するレーン:</Typography>
+                    <ToggleButtonGroup
+                        size="small"
+                        exclusive
+                        value={activeChannel}
+                        onChange={(_, value) => {
+                            if (value !== null) setActiveChannel(value);
+                        }}
+                    >
+                        {Array.from({ length: STEREO_CHANNEL_COUNT }, (_, channel) => (
+                            <ToggleButton
+                                key={channel}
+                                value={channel}
+                                sx={{ color: CHANNEL_COLORS[channel as keyof typeof CHANNEL_COLORS].progressColor }}
+                            >
+                                {getChannelLabel(channel)}
+                            </ToggleButton>
+                        ))}
+                    </ToggleButtonGroup>
+                </Stack>
+            )}
+
             <Box
                 ref={waveformRef}
+                onMouseDown={handleWaveformMouseDown}
                 sx={{
                     mb: 5,
                     cursor: isAnnotationMode ? 'crosshair' : 'default',
                     '&:hover': {
                         backgroundColor: isAnnotationMode ? 'rgba(0, 0, 0, 0.02)' : 'inherit'
                     },
-                    height: 256,
+                    height: WAVEFORM_HEIGHT,
                     position: 'relative',
                     '& wave': {
                         overflow: 'auto !important'
@@ -899,6 +1309,17 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                 }}
             />
 
+            {settings.spectrogram.enabled && (
+                <Box sx={{ mb: 2 }}>
+                    <SpectrogramView
+                        audioBuffer={audioBuffer}
+                        settings={settings.spectrogram}
+                        width={viewport.width}
+                        scrollLeft={viewport.scrollLeft}
+                    />
+                </Box>
+            )}
+
             <Box sx={{
                 display: 'flex',
                 alignItems: 'center',
@@ -931,6 +1352,16 @@ const WaveformComponent: React.FC<WaveformProps> = ({
                 </Typography>
             </Box>
 
+            <AutoSegmentDialog
+                open={showAutoSegmentDialog}
+                onClose={() => setShowAutoSegmentDialog(false)}
+                audioBuffer={audioBuffer}
+                existingSegments={allSegments}
+                params={settings.vad}
+                onParamsChange={(vad) => onSettingsChange?.({ ...settings, vad })}
+                onApply={handleApplyAutoSegments}
+            />
+
             <Snackbar
                 open={showMarkerFeedback}
                 autoHideDuration={2000}
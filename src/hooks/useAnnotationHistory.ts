@@ -0,0 +1,128 @@
+import { useState, useCallback } from 'react';
+import { DialogueAnnotation } from '../types';
+
+// 保持する履歴の最大数（会話ごと）
+const MAX_HISTORY = 100;
+
+interface HistoryStacks {
+    past: DialogueAnnotation[];
+    future: DialogueAnnotation[];
+}
+
+interface HistoryState {
+    current: DialogueAnnotation | null;
+    histories: { [conversationKey: string]: HistoryStacks };
+}
+
+type AnnotationUpdate =
+    | DialogueAnnotation
+    | null
+    | ((prev: DialogueAnnotation | null) => DialogueAnnotation | null);
+
+const EMPTY_STACKS: HistoryStacks = { past: [], future: [] };
+
+export const getConversationKey = (annotation: { customerId: string; conversationId: string }) =>
+    `${annotation.customerId}_${annotation.conversationId}`;
+
+/**
+ * currentAnnotationの編集履歴を会話ごとに管理するフック。
+ * setCurrentAnnotationによる変更は履歴に記録され、undo/redoで戻したりやり直したりできる。
+ * resetCurrentAnnotationは履歴に記録せずに置き換える（会話の読み込み用）。
+ */
+export const useAnnotationHistory = () => {
+    const [state, setState] = useState<HistoryState>({ current: null, histories: {} });
+
+    // 編集としてアノテーションを更新（履歴に記録）
+    const setCurrentAnnotation = useCallback((update: AnnotationUpdate) => {
+        setState(prev => {
+            const next = typeof update === 'function' ? update(prev.current) : update;
+            if (!prev.current || !next) {
+                return { ...prev, current: next };
+            }
+            // 内容が変わらない更新（フォーカス喪失時の再通知など）は記録しない
+            if (next === prev.current || JSON.stringify(next) === JSON.stringify(prev.current)) {
+                return prev;
+            }
+
+            const key = getConversationKey(prev.current);
+            const stacks = prev.histories[key] || EMPTY_STACKS;
+            return {
+                current: next,
+                histories: {
+                    ...prev.histories,
+                    [key]: {
+                        past: [...stacks.past, prev.current].slice(-MAX_HISTORY),
+                        future: []
+                    }
+                }
+            };
+        });
+    }, []);
+
+    // 履歴に記録せずにアノテーションを置き換え（会話の読み込み用）
+    const resetCurrentAnnotation = useCallback((annotation: DialogueAnnotation | null) => {
+        setState(prev => ({ ...prev, current: annotation }));
+    }, []);
+
+    const undo = useCallback(() => {
+        setState(prev => {
+            if (!prev.current) return prev;
+            const key = getConversationKey(prev.current);
+            const stacks = prev.histories[key] || EMPTY_STACKS;
+            if (stacks.past.length === 0) return prev;
+
+            const previous = stacks.past[stacks.past.length - 1];
+            return {
+                current: previous,
+                histories: {
+                    ...prev.histories,
+                    [key]: {
+                        past: stacks.past.slice(0, -1),
+                        future: [prev.current, ...stacks.future]
+                    }
+                }
+            };
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setState(prev => {
+            if (!prev.current) return prev;
+            const key = getConversationKey(prev.current);
+            const stacks = prev.histories[key] || EMPTY_STACKS;
+            if (stacks.future.length === 0) return prev;
+
+            const [next, ...rest] = stacks.future;
+            return {
+                current: next,
+                histories: {
+                    ...prev.histories,
+                    [key]: {
+                        past: [...stacks.past, prev.current],
+                        future: rest
+                    }
+                }
+            };
+        });
+    }, []);
+
+    // すべての会話の履歴を破棄（ディレクトリ読み込み時）
+    const clearHistory = useCallback(() => {
+        setState(prev => ({ ...prev, histories: {} }));
+    }, []);
+
+    const currentStacks = state.current
+        ? state.histories[getConversationKey(state.current)] || EMPTY_STACKS
+        : EMPTY_STACKS;
+
+    return {
+        currentAnnotation: state.current,
+        setCurrentAnnotation,
+        resetCurrentAnnotation,
+        undo,
+        redo,
+        canUndo: currentStacks.past.length > 0,
+        canRedo: currentStacks.future.length > 0,
+        clearHistory
+    };
+};
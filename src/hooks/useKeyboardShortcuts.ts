@@ -0,0 +1,43 @@
+import { useEffect, useRef } from 'react';
+import { KeyBindings, ShortcutAction } from '../types';
+import { eventToKeyString, isModalDialogOpen, isTextInputTarget } from '../utils/settingsUtils.ts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * キーバインド設定に従ってショートカットを登録するフック。
+ * handlersに含まれる操作のみを処理するため、コンポーネントごとに担当する操作を分けて登録できる。
+ * テキスト入力中（インテント・スロット入力など）・スライダー操作中・ダイアログ表示中は発火しない。
+ */
+export const useKeyboardShortcuts = (
+    keyBindings: KeyBindings,
+    handlers: ShortcutHandlers,
+    enabled: boolean = true
+) => {
+    // ハンドラーは毎レンダーで変わるため、リスナーを張り替えずに最新のものを参照する
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.repeat && event.key === ' ') return;
+            if (isTextInputTarget(event.target) || isModalDialogOpen()) return;
+
+            const keyString = eventToKeyString(event);
+            const action = (Object.keys(keyBindings) as ShortcutAction[])
+                .find(a => keyBindings[a] === keyString);
+            if (!action) return;
+
+            const handler = handlersRef.current[action];
+            if (!handler) return;
+
+            event.preventDefault();
+            handler();
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [keyBindings, enabled]);
+};
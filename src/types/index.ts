@@ -1,8 +1,22 @@
 export interface ConversationData {
     customerId: string;
     conversationId: string;
+    // アノテーションに使う音声（audio_processed.wavが無い場合はaudio.wav）
     audioFileHandle: FileSystemFileHandle;
+    // 元の音声（audio.wav）。チャンネルごとの表示に使う
+    originalAudioFileHandle?: FileSystemFileHandle;
+    // ブラウザ上で前処理した音声（ファイルに書き出さなかった場合）
+    processedAudioFile?: File;
     conversationLogHandle: FileSystemFileHandle;
+    // 会話ごとのフォルダ（会話がフォルダに分かれていない構成では無し）
+    conversationDirectoryHandle?: FileSystemDirectoryHandle;
+    // データディレクトリからの相対パス（ディレクトリ構成のプレビューに使う）
+    audioFilePath?: string;
+    conversationLogPath?: string;
+    // WAVファイルのヘッダーから読み取った再生時間（秒）
+    audioDuration?: number;
+    // 会話ログの発話テキストをつなげたもの（会話一覧の検索に使う）
+    logText?: string;
 }
 
 export interface ConversationLog {
@@ -14,32 +28,308 @@ export interface ConversationLog {
 export interface Segment {
     start: number;
     end: number;
+    // ステレオ表示で区間を設定したチャンネル（0: 左, 1: 右）
+    channel?: number;
+}
+
+// スロットの値を取り出した、ターンの書き起こし上の範囲（文字単位のオフセット、endは含まない）
+export interface SlotSpan {
+    start: number;
+    end: number;
+    // 書き起こしが紐付けた対話ログの行から作られている場合、範囲を含む行の番号（0始まり）
+    row?: number;
 }
 
 export interface SlotValue {
     key: string;
+    // 発話どおりの表記（範囲を指定した場合はその部分の文字列）
     value: string;
+    // スキーマの型に従って正規化した値（例: 日付はYYYY-MM-DD、時刻を含む場合はYYYY-MM-DDTHH:MM）
+    normalized?: string;
+    // 複数のインテントを持つターンで、スロットが属するインテント
+    intent?: string;
+    span?: SlotSpan;
+}
+
+/**
+ * 対話状態（ターンまでに確定したスロットの値、スロット名→値）。
+ * 値は正規化した値（無ければ発話どおりの表記）。
+ */
+export type DialogueState = Record<string, string>;
+
+// set: 値を上書き、delete: 状態から削除、keep: このターンのスロットを状態に反映しない
+export type DialogueStateOperationType = 'set' | 'delete' | 'keep';
+
+// ターンのスロットからの自動の導出を補正する、対話状態への明示的な操作
+export interface DialogueStateOperation {
+    key: string;
+    type: DialogueStateOperationType;
+    // setの値
+    value?: string;
+}
+
+// 対話行為の引数（none: 無し、slot: スロット名（例: request(日付)）、slotValue: スロット名と値（例: confirm(人数=3)））
+export type DialogueActArgument = 'none' | 'slot' | 'slotValue';
+
+// project.jsonのdialogueActsで宣言する対話行為（インテントとは別のラベル集合）
+export interface DialogueActDefinition {
+    name: string;
+    // 省略時はスロット名・値を任意で指定できる
+    argument?: DialogueActArgument;
+    description?: string;
+}
+
+// ターンでオペレーター（システム）側が行った対話行為
+export interface DialogueAct {
+    act: string;
+    slot?: string;
+    value?: string;
 }
 
 export interface Turn {
+    // 主たるインテント（1つのラベルを前提とする処理ではこれを使う）
     intent: string;
+    // 複数のインテントを持つ場合の発話順の一覧（主たるインテントを含む、1つ以下の場合は省略）
+    intents?: string[];
     slots: SlotValue[];
     segments: Segment[];
+    // 話者ロール（speakers.txtで定義、例: オペレーター、顧客）
+    speaker?: string;
+    // 自動区間検出で提案され、まだ承認されていないターン
+    isDraft?: boolean;
+    // 発話内容の書き起こし（入力したもの、または紐付けた対話ログの行のテキスト）
+    transcript?: string;
+    // 紐付けたconversation.csvのデータ行の番号（0始まり）
+    logRows?: number[];
+    // 対話状態の補正（スロット名ごとに1つ）
+    stateOperations?: DialogueStateOperation[];
+    // 対話行為（発話順）
+    acts?: DialogueAct[];
+    // 作業者のコメント
+    comment?: string;
+    // 聞き取れない・要確認などの印
+    flags?: ReviewFlag[];
+}
+
+// 判断に迷う箇所に付ける印（inaudible: 聞き取り不可、overlap: 発話の重なり、uncertainIntent: インテントが不確か、noise: 雑音、needsReview: 要確認）
+export type ReviewFlag = 'inaudible' | 'overlap' | 'uncertainIntent' | 'noise' | 'needsReview';
+
+// 会話全体の属性の入力形式（select: 選択肢、rating: 段階評価、boolean: はい・いいえ、text: 自由記述）
+export type ConversationLabelType = 'select' | 'rating' | 'boolean' | 'text';
+
+export type ConversationLabelValue = string | number | boolean;
+
+// project.jsonのconversationLabelsで宣言する会話全体の属性（タスクの成否・満足度など）
+export interface ConversationLabelDefinition {
+    key: string;
+    type: ConversationLabelType;
+    // selectの選択肢
+    values?: string[];
+    // ratingの段階数（省略時は5）
+    max?: number;
+    description?: string;
 }
 
 export interface DialogueAnnotation {
     customerId: string;
     conversationId: string;
-    turns: {
-        segments: Segment[];
-        intent: string;
-        slots: SlotValue[];
-    }[];
+    turns: Turn[];
     dialogueSlots: SlotValue[];
+    // 会話全体のインテント
     intent?: string;
+    // 会話全体の属性（属性のキー→値）
+    labels?: Record<string, ConversationLabelValue>;
+    // 会話全体へのコメントと印
+    comment?: string;
+    flags?: ReviewFlag[];
+    // 区間の時刻がどちらの音声を基準にしているか（未設定は処理済み音声）
+    audioSource?: AudioSource;
+    // 処理済み音声の先頭が元の音声の何秒目にあたるか（convert_to_mono.shで切り落とした時間）
+    audioOffset?: number;
+    // 「明日」などの相対的な日付を正規化する基準日（YYYY-MM-DD、未設定の場合は今日）
+    referenceDate?: string;
+    // 最後に保存した日時（ISO 8601、保存時に設定する）
+    updatedAt?: string;
+}
+
+// 会話一覧での作業状況（notStarted: 未着手、inProgress: 作業中、completed: 完了、needsReview: 要確認）
+export type ConversationStatus = 'notStarted' | 'inProgress' | 'completed' | 'needsReview';
+
+// processed: audio_processed.wav（モノラル）、original: audio.wav（ステレオ）
+export type AudioSource = 'processed' | 'original';
+
+// 音声ファイルと会話ログの配置
+// パターンは"/"区切りで、{customer}・{conversation}の位置からIDを取り出す（例: "{customer}/{conversation}/*.{ext}"）
+export interface DirectoryLayout {
+    audioPattern: string;
+    logPattern: string;
+    // {ext}に一致する音声の拡張子
+    audioExtensions: string[];
+    // 1つの会話に複数の音声がある場合に、処理済み音声・元の音声とみなすファイル名（拡張子を除く）
+    processedAudioName: string;
+    originalAudioName: string;
+}
+
+// 階層はnameを"/"で区切って表す（例: 予約/新規）
+export interface IntentDefinition {
+    name: string;
+    // 検索に使う読み（ひらがな・カタカナ）
+    reading?: string;
+    // 検索に使う別名
+    synonyms?: string[];
+    description?: string;
+    // アノテーターが判断に迷ったときに参照する発話例
+    examples?: string[];
+    // このインテントで入力が必要なスロットと、入力してもよいスロット
+    // どちらも省略した場合はすべてのスロットを受け付ける
+    requiredSlots?: string[];
+    optionalSlots?: string[];
+}
+
+// インテントで想定されていないスロットを入力したときの扱い（warn: 警告して受け付ける、block: 受け付けない）
+export type SlotConstraintPolicy = 'warn' | 'block';
+
+export type SlotType = 'text' | 'enum' | 'integer' | 'date' | 'time' | 'phone' | 'regex';
+
+export interface SlotDefinition {
+    key: string;
+    // 省略時は自由記述（text）
+    type?: SlotType;
+    // enumで選択できる値
+    values?: string[];
+    // regexで値全体が一致する必要がある正規表現
+    pattern?: string;
+    description?: string;
+}
+
+// 会話を完了とみなすために入力が必要な項目
+export interface RequiredFields {
+    // 全ターンの話者ロール
+    speaker?: boolean;
+    // 全ターンのインテント
+    turnIntent?: boolean;
+    // 対話全体のインテント
+    dialogueIntent?: boolean;
+    // 対話全体のスロットのキー
+    dialogueSlots?: string[];
+    // 会話全体の属性のキー
+    conversationLabels?: string[];
+}
+
+// path: 階層を含む名前（予約/新規）、leaf: 末尾の名前のみ（新規）
+export type IntentLabelFormat = 'path' | 'leaf';
+
+// 複数のインテントを持つターンの出力方法
+// primary: 主たるインテントのみ、joined: 区切り文字でつなげる、rows: インテントごとに1行
+export type MultiIntentExportMode = 'primary' | 'joined' | 'rows';
+
+export interface ExportPreferences {
+    // 指定した場合はユーザー設定より優先する
+    timeBase?: AudioSource;
+    // 省略時はpath
+    intentLabel?: IntentLabelFormat;
+    // 省略時はprimary
+    multiIntent?: MultiIntentExportMode;
+    // 書き起こしをトークンに分け、スロットの範囲をBIO形式でタグ付けした列を出力する（省略時は出力しない）
+    bioTags?: boolean;
+    fileName?: string;
+}
+
+// データディレクトリ直下のproject.jsonで宣言するプロジェクト設定
+// intents・slots・speakersを省略した場合はintent.txt・slot.txt・speakers.txtを読み込む
+export interface ProjectConfig {
+    intents?: IntentDefinition[];
+    slots?: SlotDefinition[];
+    // 省略時はwarn
+    slotConstraintPolicy?: SlotConstraintPolicy;
+    // 話者ロール（1番目が左チャンネル、2番目が右チャンネルの話者）
+    speakers?: string[];
+    // 省略時は既定の対話行為（greet・request・confirm・inform・offer・apologize・thank）
+    dialogueActs?: DialogueActDefinition[];
+    // 省略時は既定の属性（タスク成否・満足度・エスカレーション・問い合わせ理由・要約）
+    conversationLabels?: ConversationLabelDefinition[];
+    required?: RequiredFields;
+    export?: ExportPreferences;
+    // 全会話共通の音声オフセット（秒）。省略時は音声ファイルの再生時間の差から推定する
+    audioOffset?: number;
+    // 対話ログの開始・終了の列の時刻がどちらの音声を基準にしているか（省略時は元の音声）
+    logTimeBase?: AudioSource;
+    // 省略した項目は従来の構成（顧客ID/対話ID/audio_processed.wav, conversation.csv）
+    layout?: Partial<DirectoryLayout>;
+}
+
+// ディレクトリ読み込み時に見つかった問題
+// error: 会話として読み込まなかったもの、warning: 読み込んだが確認が必要なもの
+export type ScanIssueSeverity = 'error' | 'warning';
+export type ScanIssueCategory = 'skippedFolder' | 'csvParseError' | 'audioError' | 'duplicateId';
+
+export interface ScanIssue {
+    severity: ScanIssueSeverity;
+    category: ScanIssueCategory;
+    // データディレクトリからの相対パス
+    path: string;
+    message: string;
+    // CSVの行番号（ヘッダー行を1行目とする）
+    row?: number;
+}
+
+export interface ScanResult {
+    conversations: ConversationData[];
+    issues: ScanIssue[];
 }
 
 export interface AnnotationProgress {
     total: number;
     completed: number;
-} 
\ No newline at end of file
+}
+
+export type ShortcutAction =
+    | 'togglePlayPause'
+    | 'seekBackward'
+    | 'seekForward'
+    | 'seekBackwardLarge'
+    | 'seekForwardLarge'
+    | 'toggleAnnotationMode'
+    | 'setStartMarker'
+    | 'setEndMarker'
+    | 'confirmSegment'
+    | 'previousTurn'
+    | 'nextTurn'
+    | 'previousConversation'
+    | 'nextConversation'
+    | 'undo'
+    | 'redo'
+    | 'showShortcutHelp';
+
+export type KeyBindings = Record<ShortcutAction, string>;
+
+export type SpectrogramColorMap = 'viridis' | 'magma' | 'jet' | 'grayscale';
+
+export interface SpectrogramSettings {
+    enabled: boolean;
+    fftSize: number;
+    colorMap: SpectrogramColorMap;
+    melScale: boolean;
+}
+
+export interface VadParams {
+    frameMs: number;
+    // 最大フレームを0dBとしたときの発話判定閾値
+    energyThresholdDb: number;
+    zcrThreshold: number;
+    minSpeechMs: number;
+    minSilenceMs: number;
+    paddingMs: number;
+}
+
+export interface UserSettings {
+    keyBindings: KeyBindings;
+    seekStep: number;
+    largeSeekStep: number;
+    spectrogram: SpectrogramSettings;
+    vad: VadParams;
+    // 元音声がある会話をチャンネルごとに表示するか
+    stereoView: boolean;
+    // エクスポートするタイムスタンプの基準にする音声
+    exportTimeBase: AudioSource;
+}
@@ -0,0 +1,60 @@
+import { ConversationLog } from '../types';
+import { alignRowsToSegments, guessColumnMapping, parseTimestamp, rowsFromTimestamps } from './alignmentUtils.ts';
+
+describe('parseTimestamp', () => {
+    it('秒・ミリ秒・時:分:秒の形式を秒にする', () => {
+        expect(parseTimestamp('12.5', 'seconds')).toBe(12.5);
+        expect(parseTimestamp('83400', 'milliseconds')).toBe(83.4);
+        expect(parseTimestamp('00:01:23.5', 'seconds')).toBe(83.5);
+        expect(parseTimestamp('1:02', 'seconds')).toBe(62);
+    });
+
+    it('読み取れない値はnullを返す', () => {
+        expect(parseTimestamp('', 'seconds')).toBeNull();
+        expect(parseTimestamp('abc', 'seconds')).toBeNull();
+        expect(parseTimestamp('00:xx:10', 'seconds')).toBeNull();
+    });
+});
+
+describe('rowsFromTimestamps', () => {
+    const log = (row: Record<string, string>) => ({ customerId: 'C1', conversationId: 'D1', text: '', ...row }) as ConversationLog;
+
+    it('時刻を読み取れない行と終了が開始以前の行を除き、音声の時刻に変換する', () => {
+        const logs = [
+            log({ start_ms: '1000', end_ms: '2500', speaker: 'operator', utterance: 'お電話ありがとうございます' }),
+            log({ start_ms: '3000', end_ms: '3000', speaker: 'customer', utterance: 'はい' }),
+            log({ start_ms: '-', end_ms: '5000', speaker: 'customer', utterance: '予約したいです' }),
+            log({ start_ms: '4000', end_ms: '5000', speaker: '', utterance: '' })
+        ];
+        const mapping = guessColumnMapping(['start_ms', 'end_ms', 'speaker', 'utterance']);
+        expect(rowsFromTimestamps(logs, mapping, 'milliseconds', time => time + 0.5)).toEqual([
+            { row: 0, segment: { start: 1.5, end: 3 }, speaker: 'operator', text: 'お電話ありがとうございます' },
+            { row: 3, segment: { start: 4.5, end: 5.5 }, speaker: undefined, text: '' }
+        ]);
+    });
+});
+
+describe('alignRowsToSegments', () => {
+    it('行と区間が同数なら1つずつ割り当てる', () => {
+        const segments = [{ start: 0, end: 1 }, { start: 1.5, end: 3 }];
+        expect(alignRowsToSegments([1, 1], segments)).toEqual(segments);
+    });
+
+    it('文字数の割合に近くなるよう連続する区間をまとめる', () => {
+        const segments = [{ start: 3.5, end: 4 }, { start: 0, end: 1 }, { start: 2.5, end: 3 }, { start: 1.2, end: 2 }];
+        expect(alignRowsToSegments([3, 1], segments)).toEqual([{ start: 0, end: 3 }, { start: 3.5, end: 4 }]);
+    });
+
+    it('区間が行より少ない場合は最も長い区間を分割する', () => {
+        expect(alignRowsToSegments([1, 1, 1], [{ start: 0, end: 4 }, { start: 5, end: 6 }])).toEqual([
+            { start: 0, end: 2 },
+            { start: 2, end: 4 },
+            { start: 5, end: 6 }
+        ]);
+    });
+
+    it('行または区間が無い場合は空にする', () => {
+        expect(alignRowsToSegments([], [{ start: 0, end: 1 }])).toEqual([]);
+        expect(alignRowsToSegments([1], [])).toEqual([]);
+    });
+});
@@ -0,0 +1,140 @@
+import { ConversationLog, Segment } from '../types';
+
+// 対話ログの列とターンの項目の対応
+export interface LogColumnMapping {
+    start?: string;
+    end?: string;
+    speaker?: string;
+    text?: string;
+}
+
+export type TimestampUnit = 'seconds' | 'milliseconds';
+
+// 対話ログの行から作ったターンの候補
+export interface AlignedRow {
+    // データ行の番号（0始まり）
+    row: number;
+    segment: Segment;
+    speaker?: string;
+    text: string;
+}
+
+const COLUMN_PATTERNS: Record<keyof LogColumnMapping, RegExp> = {
+    start: /^(start|begin|開始)/i,
+    end: /^(end|stop|終了)/i,
+    speaker: /^(speaker|role|channel|話者)/i,
+    text: /^(text|utterance|transcript|発話|テキスト|内容)/i
+};
+
+// 列名から対応する項目を推測する
+export const guessColumnMapping = (columns: string[]): LogColumnMapping =>
+    (Object.keys(COLUMN_PATTERNS) as (keyof LogColumnMapping)[]).reduce<LogColumnMapping>((mapping, field) => {
+        const column = columns.find(name => COLUMN_PATTERNS[field].test(name.trim()));
+        return column ? { ...mapping, [field]: column } : mapping;
+    }, {});
+
+export const guessTimestampUnit = (column: string | undefined): TimestampUnit =>
+    column && /ms|msec|ミリ/i.test(column) ? 'milliseconds' : 'seconds';
+
+export const getLogValue = (log: ConversationLog, column: string | undefined): string => {
+    if (!column) return '';
+    const value = (log as unknown as Record<string, unknown>)[column];
+    return value === undefined || value === null ? '' : String(value).trim();
+};
+
+// 「12.5」「83400」（ミリ秒）「00:01:23.4」の形式の時刻を秒に変換する
+export const parseTimestamp = (text: string, unit: TimestampUnit): number | null => {
+    if (!text) return null;
+    if (text.includes(':')) {
+        const parts = text.split(':').map(Number);
+        if (parts.some(part => !isFinite(part))) return null;
+        return parts.reduce((total, part) => total * 60 + part, 0);
+    }
+    const value = Number(text);
+    if (!isFinite(value)) return null;
+    return unit === 'milliseconds' ? value / 1000 : value;
+};
+
+/**
+ * 開始・終了の列を持つ行から区間を作る。時刻を読み取れない行や、終了が開始より前の行は除く。
+ * toAudioTimeで対話ログの時刻を読み込んでいる音声の時刻に変換する。
+ */
+export const rowsFromTimestamps = (
+    logs: ConversationLog[],
+    mapping: LogColumnMapping,
+    unit: TimestampUnit,
+    toAudioTime: (time: number) => number = time => time
+): AlignedRow[] =>
+    logs.flatMap((log, row) => {
+        const start = parseTimestamp(getLogValue(log, mapping.start), unit);
+        const end = parseTimestamp(getLogValue(log, mapping.end), unit);
+        if (start === null || end === null || end <= start) return [];
+        return [{
+            row,
+            segment: { start: toAudioTime(start), end: toAudioTime(end) },
+            speaker: getLogValue(log, mapping.speaker) || undefined,
+            text: getLogValue(log, mapping.text)
+        }];
+    });
+
+// 区間が行より少ない場合は、最も長い区間を二等分して数を合わせる
+const splitSegmentsToCount = (segments: Segment[], count: number): Segment[] => {
+    const result = [...segments];
+    while (result.length > 0 && result.length < count) {
+        const index = result.reduce((longest, segment, i) =>
+            segment.end - segment.start > result[longest].end - result[longest].start ? i : longest, 0);
+        const { start, end } = result[index];
+        const middle = (start + end) / 2;
+        result.splice(index, 1, { start, end: middle }, { start: middle, end });
+    }
+    return result;
+};
+
+/**
+ * 時刻の無い行を、順序を保ったまま発話区間に割り当てる。
+ * 各行に連続する1つ以上の区間を割り当て、区間の長さの割合と行の文字数の割合の差（二乗和）が最小になる組み合わせを動的計画法で求める。
+ * 行ごとに、割り当てた区間の最初の開始から最後の終了までを1つの区間として返す。
+ */
+export const alignRowsToSegments = (weights: number[], segments: Segment[]): Segment[] => {
+    const rowCount = weights.length;
+    const sorted = splitSegmentsToCount([...segments].sort((a, b) => a.start - b.start), rowCount);
+    const segmentCount = sorted.length;
+    if (rowCount === 0 || segmentCount === 0) return [];
+
+    const durationSums = [0];
+    sorted.forEach(segment => durationSums.push(durationSums[durationSums.length - 1] + segment.end - segment.start));
+    const totalDuration = durationSums[segmentCount] || 1;
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+    // cost[i][j]: 最初のi行に最初のj区間を割り当てたときの最小コスト、from[i][j]: i行目に割り当てた区間の始まり
+    const cost = Array.from({ length: rowCount + 1 }, () => new Array<number>(segmentCount + 1).fill(Infinity));
+    const from = Array.from({ length: rowCount + 1 }, () => new Array<number>(segmentCount + 1).fill(0));
+    cost[0][0] = 0;
+    for (let i = 1; i <= rowCount; i++) {
+        const share = weights[i - 1] / totalWeight;
+        // 残りの行にも1区間ずつ割り当てられる範囲
+        for (let j = i; j <= segmentCount - (rowCount - i); j++) {
+            for (let k = i - 1; k < j; k++) {
+                if (cost[i - 1][k] === Infinity) continue;
+                const difference = (durationSums[j] - durationSums[k]) / totalDuration - share;
+                const total = cost[i - 1][k] + difference * difference;
+                if (total < cost[i][j]) {
+                    cost[i][j] = total;
+                    from[i][j] = k;
+                }
+            }
+        }
+    }
+
+    const result: Segment[] = [];
+    let end = segmentCount;
+    for (let i = rowCount; i > 0; i--) {
+        const start = from[i][end];
+        result.unshift({ start: sorted[start].start, end: sorted[end - 1].end });
+        end = start;
+    }
+    return result;
+};
+
+// 行の文字数（空白を除く、空の行も1とする）を割り当ての重みにする
+export const getTextWeight = (text: string) => Math.max(1, text.replace(/\s/g, '').length);
@@ -0,0 +1,113 @@
+import { AudioSource } from '../types';
+
+// ステレオ音声は全チャンネルを平均してモノラルにする
+export const getMonoSamples = (buffer: AudioBuffer): Float32Array => {
+    if (buffer.numberOfChannels === 1) {
+        return buffer.getChannelData(0).slice();
+    }
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < buffer.length; i++) {
+            samples[i] += data[i] / buffer.numberOfChannels;
+        }
+    }
+    return samples;
+};
+
+// 音声ファイルをデコードする（波形表示とは別に解析する場合に使う）
+export const decodeAudioFile = async (file: Blob): Promise<AudioBuffer> => {
+    const context = new AudioContext();
+    try {
+        return await context.decodeAudioData(await file.arrayBuffer());
+    } finally {
+        context.close();
+    }
+};
+
+// wavesurferのWebAudioバックエンドのうちチャンネルの切り替えに使う部分
+export interface ChannelRoutingBackend {
+    ac: AudioContext;
+    analyser: AudioNode;
+    gainNode: AudioNode;
+    filters: AudioNode[] | null;
+    disconnectFilters: () => void;
+}
+
+/**
+ * 再生するチャンネルを切り替える。channelがnullの場合は全チャンネルをそのまま再生し、
+ * それ以外の場合は指定したチャンネルだけを左右両方から再生する。
+ */
+export const setPlaybackChannel = (backend: ChannelRoutingBackend, channel: number | null) => {
+    backend.disconnectFilters();
+    if (channel === null) return;
+
+    const splitter = backend.ac.createChannelSplitter(2);
+    const merger = backend.ac.createChannelMerger(2);
+    splitter.connect(merger, channel, 0);
+    splitter.connect(merger, channel, 1);
+
+    backend.analyser.disconnect();
+    backend.analyser.connect(splitter);
+    merger.connect(backend.gainNode);
+    // disconnectFilters()で元の経路に戻せるようにフィルタとして登録しておく
+    backend.filters = [splitter, merger];
+};
+
+// WAVファイルのヘッダーから再生時間（秒）を読み取る（読み取れない場合はnull）
+export const readWavDuration = async (file: Blob): Promise<number | null> => {
+    const readView = async (start: number, length: number) =>
+        new DataView(await file.slice(start, start + length).arrayBuffer());
+    const readTag = (view: DataView, offset: number) =>
+        String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+
+    const header = await readView(0, 12);
+    if (header.byteLength < 12 || readTag(header, 0) !== 'RIFF' || readTag(header, 8) !== 'WAVE') {
+        return null;
+    }
+
+    let byteRate = 0;
+    let offset = 12;
+    while (offset + 8 <= file.size) {
+        const chunk = await readView(offset, 8);
+        const chunkId = readTag(chunk, 0);
+        const chunkSize = chunk.getUint32(4, true);
+
+        if (chunkId === 'fmt ') {
+            byteRate = (await readView(offset + 8, 12)).getUint32(8, true);
+        } else if (chunkId === 'data') {
+            if (!byteRate) return null;
+            // サイズが書き込まれていない（ストリーミング出力の）場合はファイル末尾までをデータとみなす
+            const dataSize = Math.min(chunkSize, file.size - offset - 8);
+            return dataSize / byteRate;
+        }
+        // チャンクは2バイト境界に揃えられている
+        offset += 8 + chunkSize + (chunkSize % 2);
+    }
+    return null;
+};
+
+/**
+ * 元の音声と処理済み音声の再生時間の差から、処理済み音声の先頭が元の音声の何秒目にあたるかを推定する。
+ * （convert_to_mono.shは先頭を切り落として処理済み音声を作るため、長さの差がそのまま切り落とした時間になる）
+ */
+export const detectAudioOffset = async (originalFile: Blob, processedFile: Blob): Promise<number | null> => {
+    const [originalDuration, processedDuration] = await Promise.all([
+        readWavDuration(originalFile),
+        readWavDuration(processedFile)
+    ]);
+    if (originalDuration === null || processedDuration === null) return null;
+    // ミリ秒単位に丸める
+    return Math.max(0, Math.round((originalDuration - processedDuration) * 1000) / 1000);
+};
+
+// 区間の時刻を、基準にしている音声から別の音声の時刻に変換する
+export const convertAudioTime = (
+    time: number,
+    from: AudioSource,
+    to: AudioSource,
+    audioOffset: number
+): number => {
+    if (from === to) return time;
+    return from === 'processed' ? time + audioOffset : Math.max(0, time - audioOffset);
+};
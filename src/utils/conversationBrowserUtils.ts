@@ -0,0 +1,132 @@
+import { ConversationData, ConversationStatus, DialogueAnnotation, RequiredFields, ReviewFlag } from '../types';
+import { isAnnotationCompleted } from './projectUtils.ts';
+import { getAnnotationFlags } from './reviewUtils.ts';
+import { getTurnIntents } from './intentUtils.ts';
+
+export const CONVERSATION_STATUS_LABELS: Record<ConversationStatus, string> = {
+    notStarted: '未着手',
+    inProgress: '作業中',
+    completed: '完了',
+    needsReview: '要確認'
+};
+
+export const CONVERSATION_STATUS_COLORS: Record<ConversationStatus, 'default' | 'primary' | 'success' | 'warning'> = {
+    notStarted: 'default',
+    inProgress: 'primary',
+    completed: 'success',
+    needsReview: 'warning'
+};
+
+// 会話一覧の絞り込み条件（空文字は絞り込まない）
+export interface ConversationFilter {
+    query: string;
+    intent: string;
+    slotKey: string;
+    flag: ReviewFlag | '';
+    status: ConversationStatus | '';
+}
+
+export const EMPTY_CONVERSATION_FILTER: ConversationFilter = {
+    query: '',
+    intent: '',
+    slotKey: '',
+    flag: '',
+    status: ''
+};
+
+export const findConversationAnnotation = (
+    annotations: DialogueAnnotation[],
+    conversation: ConversationData
+): DialogueAnnotation | undefined =>
+    annotations.find(annotation =>
+        annotation.customerId === conversation.customerId &&
+        annotation.conversationId === conversation.conversationId
+    );
+
+/**
+ * 会話の作業状況。「要確認」の印がある会話は要確認、何も入力していない会話は未着手とし、
+ * それ以外は完了の条件（進捗バーと同じ）を満たすかで完了・作業中に分ける。
+ */
+export const getConversationStatus = (
+    annotation: DialogueAnnotation | undefined,
+    required: RequiredFields | undefined
+): ConversationStatus => {
+    if (!annotation) return 'notStarted';
+    if (getAnnotationFlags(annotation).includes('needsReview')) return 'needsReview';
+    const isEmpty = annotation.turns.length === 0 &&
+        annotation.dialogueSlots.length === 0 &&
+        !annotation.intent &&
+        !annotation.labels &&
+        !annotation.comment &&
+        !annotation.flags;
+    if (isEmpty) return 'notStarted';
+    return isAnnotationCompleted(annotation, required) ? 'completed' : 'inProgress';
+};
+
+// 会話全体とターンに設定したインテント
+export const getAnnotationIntents = (annotation: DialogueAnnotation | undefined): string[] => {
+    if (!annotation) return [];
+    const intents = annotation.turns.flatMap(getTurnIntents);
+    return Array.from(new Set([...(annotation.intent ? [annotation.intent] : []), ...intents]));
+};
+
+// 会話全体とターンで入力したスロットのキー
+export const getAnnotationSlotKeys = (annotation: DialogueAnnotation | undefined): string[] => {
+    if (!annotation) return [];
+    const slots = [...annotation.dialogueSlots, ...annotation.turns.flatMap(turn => turn.slots)];
+    return Array.from(new Set(slots.map(slot => slot.key).filter(key => key)));
+};
+
+// テキスト検索の対象（ID・会話ログと書き起こし・インテント・スロット・会話の属性・コメント）
+const getSearchableTexts = (conversation: ConversationData, annotation: DialogueAnnotation | undefined): string[] => [
+    conversation.customerId,
+    conversation.conversationId,
+    conversation.logText || '',
+    ...(annotation ? [
+        ...annotation.turns.map(turn => turn.transcript || ''),
+        ...getAnnotationIntents(annotation),
+        ...[...annotation.dialogueSlots, ...annotation.turns.flatMap(turn => turn.slots)]
+            .map(slot => `${slot.key} ${slot.value}`),
+        ...Object.entries(annotation.labels || {}).map(([key, value]) => `${key} ${value}`),
+        annotation.comment || '',
+        ...annotation.turns.map(turn => turn.comment || '')
+    ] : [])
+];
+
+export const matchesConversationFilter = (
+    conversation: ConversationData,
+    annotation: DialogueAnnotation | undefined,
+    filter: ConversationFilter,
+    required: RequiredFields | undefined
+): boolean => {
+    if (filter.status && getConversationStatus(annotation, required) !== filter.status) return false;
+    if (filter.flag && !getAnnotationFlags(annotation).includes(filter.flag)) return false;
+    if (filter.intent && !getAnnotationIntents(annotation).includes(filter.intent)) return false;
+    if (filter.slotKey && !getAnnotationSlotKeys(annotation).includes(filter.slotKey)) return false;
+
+    // 空白で区切った語をすべて含むもの（大文字・小文字は区別しない）
+    const terms = filter.query.toLowerCase().split(/\s+/).filter(term => term);
+    if (terms.length === 0) return true;
+    const text = getSearchableTexts(conversation, annotation).join('\n').toLowerCase();
+    return terms.every(term => text.includes(term));
+};
+
+// 顧客IDごとにまとめる（顧客・会話の順序は元の並びのまま）
+export const groupConversationsByCustomer = <T extends { conversation: ConversationData }>(items: T[]): { customerId: string; items: T[] }[] => {
+    const groups: { customerId: string; items: T[] }[] = [];
+    items.forEach(item => {
+        const group = groups.find(g => g.customerId === item.conversation.customerId);
+        if (group) {
+            group.items.push(item);
+        } else {
+            groups.push({ customerId: item.conversation.customerId, items: [item] });
+        }
+    });
+    return groups;
+};
+
+// 再生時間を「m:ss」の形式にする
+export const formatDuration = (seconds: number): string => {
+    const total = Math.round(seconds);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,43 @@
+import {
+    ConversationLabelDefinition,
+    ConversationLabelType,
+    ConversationLabelValue,
+    DialogueAnnotation,
+    ProjectConfig
+} from '../types';
+
+// project.jsonでconversationLabelsを省略した場合の属性
+export const DEFAULT_CONVERSATION_LABELS: ConversationLabelDefinition[] = [
+    { key: 'タスク成否', type: 'select', values: ['成功', '失敗', '途中切断'] },
+    { key: '満足度', type: 'rating', max: 5, description: '顧客の満足度（1: 不満〜5: 満足）' },
+    { key: 'エスカレーション', type: 'boolean', description: '上位の担当者・部署への引き継ぎがあったか' },
+    { key: '問い合わせ理由', type: 'select', values: ['予約', '変更', 'キャンセル', '問い合わせ', '苦情', 'その他'] },
+    { key: '要約', type: 'text' }
+];
+
+export const CONVERSATION_LABEL_TYPE_LABELS: Record<ConversationLabelType, string> = {
+    select: '選択肢',
+    rating: '段階評価',
+    boolean: 'はい・いいえ',
+    text: '自由記述'
+};
+
+export const DEFAULT_RATING_MAX = 5;
+
+export const getConversationLabelDefinitions = (config: ProjectConfig): ConversationLabelDefinition[] =>
+    config.conversationLabels && config.conversationLabels.length > 0 ? config.conversationLabels : DEFAULT_CONVERSATION_LABELS;
+
+export const hasConversationLabelValue = (value: ConversationLabelValue | undefined): boolean =>
+    value !== undefined && value !== '';
+
+// 属性の値を設定する（valueが未入力の場合は属性を外す）
+export const setConversationLabel = (
+    annotation: DialogueAnnotation,
+    key: string,
+    value: ConversationLabelValue | undefined
+): DialogueAnnotation => {
+    const { [key]: _previous, ...others } = annotation.labels || {};
+    const labels = hasConversationLabelValue(value) ? { ...others, [key]: value! } : others;
+    const { labels: _labels, ...rest } = annotation;
+    return Object.keys(labels).length > 0 ? { ...rest, labels } : rest;
+};
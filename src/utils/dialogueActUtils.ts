@@ -0,0 +1,51 @@
+import { DialogueAct, DialogueActArgument, DialogueActDefinition, ProjectConfig } from '../types';
+
+// project.jsonでdialogueActsを省略した場合の対話行為
+export const DEFAULT_DIALOGUE_ACTS: DialogueActDefinition[] = [
+    { name: 'greet', argument: 'none', description: '挨拶' },
+    { name: 'request', argument: 'slot', description: '情報を尋ねる' },
+    { name: 'confirm', argument: 'slotValue', description: '値を確認する' },
+    { name: 'inform', argument: 'slotValue', description: '情報を伝える' },
+    { name: 'offer', argument: 'slotValue', description: '候補を提示する' },
+    { name: 'apologize', argument: 'none', description: '謝罪' },
+    { name: 'thank', argument: 'none', description: 'お礼' }
+];
+
+// 空文字は引数の指定を省略した場合
+export const DIALOGUE_ACT_ARGUMENT_LABELS: Record<DialogueActArgument | '', string> = {
+    '': 'スロット・値は任意',
+    none: '引数なし',
+    slot: 'スロット名',
+    slotValue: 'スロット名=値'
+};
+
+export const getDialogueActDefinitions = (config: ProjectConfig): DialogueActDefinition[] =>
+    config.dialogueActs && config.dialogueActs.length > 0 ? config.dialogueActs : DEFAULT_DIALOGUE_ACTS;
+
+// 「request(日付)」「confirm(人数=3)」の形式にする
+export const formatDialogueAct = ({ act, slot, value }: DialogueAct): string => {
+    if (!slot) return act;
+    return value !== undefined && value !== '' ? `${act}(${slot}=${value})` : `${act}(${slot})`;
+};
+
+// 「request(日付)」「confirm(人数=3)」の形式の文字列を読み取る（形式が違う場合はnull）
+export const parseDialogueAct = (text: string): DialogueAct | null => {
+    const match = text.trim().match(/^([^()=\s]+)(?:\(\s*([^()=]*?)\s*(?:=\s*([^()]*?)\s*)?\))?$/);
+    if (!match) return null;
+    const [, act, slot, value] = match;
+    return {
+        act,
+        ...(slot ? { slot } : {}),
+        ...(slot && value ? { value } : {})
+    };
+};
+
+// 定義の引数の指定に合わない点（無ければnull）
+export const validateDialogueAct = (act: DialogueAct, definitions: DialogueActDefinition[]): string | null => {
+    const definition = definitions.find(item => item.name === act.act);
+    if (!definition) return `${act.act}は定義されていない対話行為です`;
+    if (definition.argument === 'none' && act.slot) return `${act.act}は引数を取りません`;
+    if (definition.argument === 'slot' && (!act.slot || act.value)) return `${act.act}はスロット名だけを指定します（例: ${act.act}(日付)）`;
+    if (definition.argument === 'slotValue' && (!act.slot || !act.value)) return `${act.act}はスロット名と値を指定します（例: ${act.act}(人数=3)）`;
+    return null;
+};
@@ -0,0 +1,65 @@
+import { DialogueStateOperation, SlotValue, Turn } from '../types';
+import { deriveDialogueStates, setStateOperation } from './dialogueStateUtils.ts';
+
+const turn = (slots: SlotValue[], stateOperations?: DialogueStateOperation[], isDraft?: boolean): Turn => ({
+    intent: '予約',
+    slots,
+    segments: [],
+    ...(stateOperations ? { stateOperations } : {}),
+    ...(isDraft ? { isDraft } : {})
+});
+
+describe('deriveDialogueStates', () => {
+    it('ターンのスロットの値を累積し、正規化した値を優先する', () => {
+        const states = deriveDialogueStates([
+            turn([{ key: '人数', value: '2人', normalized: '2' }]),
+            turn([{ key: '日付', value: '明日', normalized: '2026-10-20' }])
+        ]);
+        expect(states[1].state).toEqual({ 人数: '2', 日付: '2026-10-20' });
+        expect(states[1].changes).toEqual([{ key: '日付', value: '2026-10-20', explicit: false }]);
+    });
+
+    it('値が未入力のスロットは状態を変えない', () => {
+        const states = deriveDialogueStates([
+            turn([{ key: '人数', value: '2' }]),
+            turn([{ key: '人数', value: '' }, { key: '日付', value: '  ' }])
+        ]);
+        expect(states[1].state).toEqual({ 人数: '2' });
+        expect(states[1].changes).toEqual([]);
+    });
+
+    it('deleteの操作だけが値を消し、keepはターンのスロットを無視する', () => {
+        const states = deriveDialogueStates([
+            turn([{ key: '人数', value: '2' }]),
+            turn([{ key: '人数', value: '3' }], [{ key: '人数', type: 'keep' }]),
+            turn([], [{ key: '人数', type: 'delete' }])
+        ]);
+        expect(states[1].state).toEqual({ 人数: '2' });
+        expect(states[2].state).toEqual({});
+        expect(states[2].changes).toEqual([{ key: '人数', previous: '2', explicit: true }]);
+    });
+
+    it('setの操作はスロットの値より優先する', () => {
+        const states = deriveDialogueStates([
+            turn([{ key: '人数', value: '3' }], [{ key: '人数', type: 'set', value: '4' }])
+        ]);
+        expect(states[0].state).toEqual({ 人数: '4' });
+        expect(states[0].changes).toEqual([{ key: '人数', value: '4', explicit: true }]);
+    });
+
+    it('下書きのターンは状態を変えない', () => {
+        const states = deriveDialogueStates([
+            turn([{ key: '人数', value: '2' }]),
+            turn([{ key: '人数', value: '5' }], undefined, true)
+        ]);
+        expect(states[1]).toEqual({ state: { 人数: '2' }, changes: [] });
+    });
+});
+
+describe('setStateOperation', () => {
+    it('同じスロットの操作を置き換え、nullで外す', () => {
+        const updated = setStateOperation(turn([], [{ key: '人数', type: 'keep' }]), '人数', { key: '人数', type: 'delete' });
+        expect(updated.stateOperations).toEqual([{ key: '人数', type: 'delete' }]);
+        expect(setStateOperation(updated, '人数', null)).not.toHaveProperty('stateOperations');
+    });
+});
@@ -0,0 +1,73 @@
+import { DialogueState, DialogueStateOperation, Turn } from '../types';
+
+// ターンで対話状態が変わったスロット
+export interface DialogueStateChange {
+    key: string;
+    // 変化後の値（削除した場合は無し）
+    value?: string;
+    previous?: string;
+    // 明示的な操作による変化か
+    explicit: boolean;
+}
+
+export interface TurnDialogueState {
+    // ターンの後の対話状態
+    state: DialogueState;
+    changes: DialogueStateChange[];
+}
+
+// スロットが対話状態に入れる値
+const getStateValue = (slot: { value: string; normalized?: string }) => slot.normalized || slot.value;
+
+/**
+ * ターンの順に対話状態を導出する（MultiWOZのbelief stateと同様に、ターンまでの累積）。
+ * 各ターンの値のあるスロットで値を上書きした後、ターンの明示的な操作（set・delete・keep）を適用する。
+ * 下書きのターンは状態を変えない。
+ */
+export const deriveDialogueStates = (turns: Turn[]): TurnDialogueState[] => {
+    let state: DialogueState = {};
+    return turns.map(turn => {
+        if (turn.isDraft) return { state, changes: [] };
+
+        const operations = new Map((turn.stateOperations || []).map(operation => [operation.key, operation]));
+        const next: DialogueState = { ...state };
+        // 値が未入力のスロットは状態を変えない（値を消すのは明示的なdeleteの操作だけ）
+        turn.slots.forEach(slot => {
+            const value = getStateValue(slot);
+            if (value.trim() && operations.get(slot.key)?.type !== 'keep') next[slot.key] = value;
+        });
+        operations.forEach(operation => {
+            if (operation.type === 'set' && operation.value !== undefined) {
+                next[operation.key] = operation.value;
+            } else if (operation.type === 'delete') {
+                delete next[operation.key];
+            }
+        });
+
+        const keys = Array.from(new Set([...Object.keys(state), ...Object.keys(next)]));
+        const changes = keys
+            .filter(key => state[key] !== next[key])
+            .map(key => ({
+                key,
+                ...(key in next ? { value: next[key] } : {}),
+                ...(key in state ? { previous: state[key] } : {}),
+                explicit: operations.has(key) && operations.get(key)!.type !== 'keep'
+            }));
+        state = next;
+        return { state, changes };
+    });
+};
+
+// スロットの操作を設定する（operationがnullの場合は外す）。同じスロットの操作は置き換える
+export const setStateOperation = (
+    turn: Turn,
+    key: string,
+    operation: DialogueStateOperation | null
+): Turn => {
+    const { stateOperations: previous = [], ...rest } = turn;
+    const operations = [
+        ...previous.filter(item => item.key !== key),
+        ...(operation ? [operation] : [])
+    ];
+    return operations.length > 0 ? { ...rest, stateOperations: operations } : rest;
+};
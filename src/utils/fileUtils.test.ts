@@ -0,0 +1,198 @@
+import Papa from 'papaparse';
+import { ConversationData, DialogueAnnotation } from '../types';
+import { DEFAULT_DIRECTORY_LAYOUT } from './layoutUtils.ts';
+import { exportAnnotations, resolveAudioOffset, scanDirectory } from './fileUtils.ts';
+
+const annotation: DialogueAnnotation = {
+    customerId: 'C1',
+    conversationId: 'D1',
+    dialogueSlots: [],
+    turns: [
+        { intent: '予約/新規', slots: [], segments: [{ start: 1, end: 2 }, { start: 2.5, end: 4 }] },
+        { intent: 'キャンセル', slots: [], segments: [{ start: 5, end: 6 }], isDraft: true }
+    ]
+};
+
+const multiIntentAnnotation: DialogueAnnotation = {
+    ...annotation,
+    turns: [
+        {
+            intent: '予約/新規',
+            intents: ['予約/新規', '問い合わせ/営業時間'],
+            slots: [
+                { key: '人数', value: '2', intent: '予約/新規' },
+                { key: '時間', value: '何時まで', intent: '問い合わせ/営業時間' },
+                { key: '店舗', value: '渋谷' }
+            ],
+            segments: [{ start: 1, end: 2 }, { start: 2.5, end: 4 }]
+        },
+        { intent: 'キャンセル', slots: [], segments: [{ start: 5, end: 6 }], isDraft: true }
+    ]
+};
+
+const parseRows = (csv: string): Record<string, string>[] => Papa.parse(csv.trim(), { header: true }).data;
+const slotKeys = (row: Record<string, string>) => JSON.parse(row.turnSlots).map((slot: { key: string }) => slot.key);
+
+describe('exportAnnotations', () => {
+    it('以前からある列の位置を変えず、追加した列はその後ろに出力する', () => {
+        const [header] = exportAnnotations([annotation], 'processed').split('\n');
+        expect(header.split(',').slice(0, 11)).toEqual([
+            'customerId', 'conversationId', 'turnIndex', 'utteranceStart', 'utteranceEnd',
+            'segmentStart', 'segmentEnd', 'intent', 'turnSlots', 'dialogueSlots', 'segments'
+        ]);
+    });
+
+    it('primaryでは主たるインテントの1行にすべてのスロットを出力し、下書きのターンは除く', () => {
+        const rows = parseRows(exportAnnotations([multiIntentAnnotation], 'processed', { multiIntent: 'primary' }));
+        expect(rows).toHaveLength(1);
+        expect(rows[0].intent).toBe('予約/新規');
+        expect(JSON.parse(rows[0].intents)).toEqual(['予約/新規', '問い合わせ/営業時間']);
+        expect(slotKeys(rows[0])).toEqual(['人数', '時間', '店舗']);
+        expect([rows[0].utteranceStart, rows[0].utteranceEnd]).toEqual(['1', '4']);
+    });
+
+    it('joinedではインテントを発話順につなげた1行にする', () => {
+        const rows = parseRows(exportAnnotations([multiIntentAnnotation], 'processed', { multiIntent: 'joined', intentLabel: 'leaf' }));
+        expect(rows).toHaveLength(1);
+        expect(rows[0].intent).toBe('新規|営業時間');
+        expect(rows[0].primaryIntent).toBe('新規');
+    });
+
+    it('rowsではインテントごとの行に、そのインテントのスロットと割り当ての無いスロットを出力する', () => {
+        const rows = parseRows(exportAnnotations([multiIntentAnnotation], 'processed', { multiIntent: 'rows' }));
+        expect(rows.map(row => row.intent)).toEqual(['予約/新規', '問い合わせ/営業時間']);
+        expect(rows.map(row => row.turnIndex)).toEqual(['0', '0']);
+        expect(slotKeys(rows[0])).toEqual(['人数', '店舗']);
+        expect(slotKeys(rows[1])).toEqual(['時間', '店舗']);
+    });
+
+    it('インテントが1つのターンはどの指定でも1行にする', () => {
+        expect(parseRows(exportAnnotations([annotation], 'processed', { multiIntent: 'rows' })).map(row => row.intent)).toEqual(['予約/新規']);
+    });
+
+    it('区間をすべて削除したターンは時刻の列を空にして出力する', () => {
+        const withoutSegments = { ...annotation, turns: [{ intent: '案内', slots: [], segments: [] }] };
+        expect(parseRows(exportAnnotations([withoutSegments], 'processed'))[0]).toMatchObject({
+            intent: '案内',
+            utteranceStart: '',
+            utteranceEnd: '',
+            segments: '[]'
+        });
+    });
+
+    it('project.jsonの音声オフセットをアノテーションの値より優先して時刻を変換する', () => {
+        const withOffset = { ...annotation, audioOffset: 0.5 };
+        expect(parseRows(exportAnnotations([withOffset], 'original'))[0]).toMatchObject({ utteranceStart: '1.5', audioOffset: '0.5' });
+        expect(parseRows(exportAnnotations([withOffset], 'original', {}, { audioOffset: 2 }))[0])
+            .toMatchObject({ utteranceStart: '3', utteranceEnd: '6', audioOffset: '2' });
+    });
+
+    it('時刻の変換が必要な会話で音声オフセットが決まらない場合はエラーにする', () => {
+        expect(() => exportAnnotations([annotation], 'original')).toThrow('C1_D1');
+        // 変換の要らない会話や、出力するターンの無い会話はオフセットが無くても出力する
+        expect(parseRows(exportAnnotations([annotation], 'processed'))[0].audioOffset).toBe('');
+        const draftsOnly = { ...annotation, turns: annotation.turns.filter(turn => turn.isDraft) };
+        expect(parseRows(exportAnnotations([draftsOnly], 'original'))).toEqual([]);
+    });
+});
+
+describe('resolveAudioOffset', () => {
+    const conversation = {
+        customerId: 'C1',
+        conversationId: 'D1',
+        audioFileHandle: {} as FileSystemFileHandle,
+        conversationLogHandle: {} as FileSystemFileHandle
+    } as ConversationData;
+
+    it('project.json、保存済みのアノテーションの順に音声オフセットを使う', async () => {
+        await expect(resolveAudioOffset(conversation, { ...annotation, audioOffset: 0.5 }, { audioOffset: 2 })).resolves.toBe(2);
+        await expect(resolveAudioOffset(conversation, { ...annotation, audioOffset: 0.5 }, {})).resolves.toBe(0.5);
+    });
+
+    it('元の音声が無い会話では音声オフセットを決めない', async () => {
+        await expect(resolveAudioOffset(conversation, annotation, {})).resolves.toBeUndefined();
+        await expect(resolveAudioOffset(conversation, undefined, {})).resolves.toBeUndefined();
+    });
+});
+
+// メモリ上のディレクトリ（名前→内容、オブジェクトはフォルダ）
+type FakeTree = { [name: string]: FakeTree | Uint8Array };
+
+// 1秒あたり100バイトのWAVファイル
+const createWav = (seconds: number): Uint8Array => {
+    const dataSize = seconds * 100;
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeTag = (offset: number, tag: string) =>
+        Array.from(tag).forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint32(28, 100, true);
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+    return new Uint8Array(view.buffer);
+};
+
+const createFileHandle = (name: string, bytes: Uint8Array) => ({
+    kind: 'file',
+    name,
+    getFile: async () => ({
+        name,
+        size: bytes.length,
+        slice: (start: number, end: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer })
+    })
+});
+
+const createDirectoryHandle = (name: string, tree: FakeTree): FileSystemDirectoryHandle => ({
+    kind: 'directory',
+    name,
+    values: async function* () {
+        for (const [childName, child] of Object.entries(tree)) {
+            yield child instanceof Uint8Array ? createFileHandle(childName, child) : createDirectoryHandle(childName, child);
+        }
+    }
+}) as unknown as FileSystemDirectoryHandle;
+
+describe('scanDirectory', () => {
+    const csv = new Uint8Array([0x61]);
+
+    it('これまでの「顧客ID/対話ID/」の構成から会話を探し、処理済み音声と元の音声を使い分ける', async () => {
+        const root = createDirectoryHandle('data', {
+            C001: {
+                D01: { 'audio_processed.wav': createWav(3), 'audio.wav': createWav(4), 'conversation.csv': csv },
+                D02: { 'memo.txt': csv }
+            },
+            '.cache': { 'C001_D01.json': csv }
+        });
+        const { conversations, issues } = await scanDirectory(root);
+        expect(conversations).toHaveLength(1);
+        expect(conversations[0]).toMatchObject({
+            customerId: 'C001',
+            conversationId: 'D01',
+            audioFilePath: 'C001/D01/audio_processed.wav',
+            conversationLogPath: 'C001/D01/conversation.csv',
+            audioDuration: 3
+        });
+        expect(conversations[0].originalAudioFileHandle?.name).toBe('audio.wav');
+        expect(issues.filter(issue => issue.category === 'skippedFolder').map(issue => issue.path)).toEqual(['C001/D02']);
+    });
+
+    it('パターンに従って探し、{customer}が無ければデータディレクトリ名を顧客IDにする', async () => {
+        const root = createDirectoryHandle('C009', {
+            audio: { 'D01.mp3': csv, extra: { 'D03.mp3': csv } },
+            logs: { 'D01.csv': csv, 'D02.csv': csv }
+        });
+        const { conversations, issues } = await scanDirectory(root, {
+            ...DEFAULT_DIRECTORY_LAYOUT,
+            audioPattern: 'audio/{conversation}.{ext}',
+            logPattern: 'logs/{conversation}.csv',
+            audioExtensions: ['mp3']
+        });
+        expect(conversations.map(conversation => [conversation.customerId, conversation.conversationId])).toEqual([['C009', 'D01']]);
+        const skipped = issues.filter(issue => issue.category === 'skippedFolder');
+        expect(skipped.map(issue => issue.path)).toEqual(['audio/extra/D03.mp3', 'audio/extra', 'logs/D02.csv']);
+        expect(skipped[0].message).toContain('階層が深すぎる');
+    });
+});
@@ -1,67 +1,360 @@
-import { ConversationData, ConversationLog, DialogueAnnotation } from '../types';
+import {
+    AudioSource,
+    ConversationData,
+    ConversationLog,
+    DialogueAnnotation,
+    DirectoryLayout,
+    IntentLabelFormat,
+    MultiIntentExportMode,
+    ProjectConfig,
+    ScanIssue,
+    ScanResult
+} from '../types';
+import { convertAudioTime, detectAudioOffset, readWavDuration } from './audioUtils.ts';
+import {
+    DEFAULT_DIRECTORY_LAYOUT,
+    PatternMatch,
+    compilePattern,
+    getFileExtension,
+    getFileStem,
+    matchPattern
+} from './layoutUtils.ts';
+import { INTENT_JOIN_SEPARATOR, formatIntentLabel, getTurnIntents } from './intentUtils.ts';
+import { LegacyLists, normalizeProjectConfig } from './projectUtils.ts';
+import { toBioTags } from './spanUtils.ts';
+import { deriveDialogueStates } from './dialogueStateUtils.ts';
+import { formatDialogueAct } from './dialogueActUtils.ts';
 import Papa from 'papaparse';
 
-export const scanDirectory = async (directoryHandle: FileSystemDirectoryHandle): Promise<ConversationData[]> => {
+// 音声ファイルを開けるか確認し、問題があれば内容を返す（WAVファイルはヘッダーも確認し、再生時間を返す）
+const checkAudioFile = async (fileHandle: FileSystemFileHandle): Promise<{ error: string | null; duration?: number }> => {
+    try {
+        const file = await fileHandle.getFile();
+        if (file.size === 0) {
+            return { error: `${fileHandle.name}のサイズが0バイトです` };
+        }
+        if (getFileExtension(fileHandle.name) !== 'wav') {
+            return { error: null };
+        }
+        const duration = await readWavDuration(file);
+        if (duration === null) {
+            return { error: `${fileHandle.name}をWAVファイルとして読み取れません` };
+        }
+        return { error: null, duration };
+    } catch (error) {
+        return { error: `${fileHandle.name}を開けません（${error instanceof Error ? error.message : String(error)}）` };
+    }
+};
+
+interface ScannedFile {
+    // データディレクトリからの相対パス
+    path: string;
+    handle: FileSystemFileHandle;
+    parentHandle: FileSystemDirectoryHandle;
+}
+
+interface ScannedDirectory {
+    path: string;
+    parentPath: string;
+}
+
+interface ConversationCandidate {
+    customerId: string;
+    conversationId: string;
+    // 会話フォルダのパス（会話フォルダが無い構成では音声・会話ログのパス）
+    path: string;
+    audioFiles: ScannedFile[];
+    logFile?: ScannedFile;
+    directoryHandle?: FileSystemDirectoryHandle;
+}
+
+// パターンより1階層深いところまでファイルを集める（深すぎる階層に置かれたファイルを報告するため）
+const collectFiles = async (
+    directoryHandle: FileSystemDirectoryHandle,
+    prefix: string,
+    remainingDepth: number,
+    files: ScannedFile[],
+    directories: ScannedDirectory[]
+) => {
+    for await (const handle of directoryHandle.values()) {
+        // .cacheなどの隠しファイル・ディレクトリは対象外
+        if (handle.name.startsWith('.')) continue;
+        const path = prefix ? `${prefix}/${handle.name}` : handle.name;
+        if (handle.kind === 'file') {
+            files.push({ path, handle: handle as FileSystemFileHandle, parentHandle: directoryHandle });
+        } else if (remainingDepth > 1) {
+            directories.push({ path, parentPath: prefix });
+            await collectFiles(handle as FileSystemDirectoryHandle, path, remainingDepth - 1, files, directories);
+        }
+    }
+};
+
+const getParentPath = (path: string) => path.split('/').slice(0, -1).join('/');
+
+// 1つの会話の音声ファイルから、アノテーションに使う音声と元の音声を選ぶ
+const classifyAudioFiles = (
+    candidate: ConversationCandidate,
+    layout: DirectoryLayout,
+    issues: ScanIssue[]
+): { audioFileHandle: FileSystemFileHandle; originalAudioFileHandle?: FileSystemFileHandle } => {
+    const findByStem = (name: string) => candidate.audioFiles.find(
+        file => getFileStem(file.handle.name).toLowerCase() === name.toLowerCase()
+    )?.handle;
+    const processed = findByStem(layout.processedAudioName);
+    const original = findByStem(layout.originalAudioName);
+
+    if (processed || original) {
+        // 処理済み音声が無い場合は元の音声でアノテーションする
+        return {
+            audioFileHandle: (processed || original)!,
+            ...(original ? { originalAudioFileHandle: original } : {})
+        };
+    }
+
+    const [first, ...rest] = [...candidate.audioFiles].sort((a, b) => a.path.localeCompare(b.path));
+    if (rest.length > 0) {
+        issues.push({
+            severity: 'warning',
+            category: 'audioError',
+            path: candidate.path,
+            message: `音声ファイルが${candidate.audioFiles.length}個あるため${first.handle.name}を使います` +
+                `（${layout.processedAudioName}・${layout.originalAudioName}という名前にすると使い分けられます）`
+        });
+    }
+    return { audioFileHandle: first.handle };
+};
+
+/**
+ * layoutのパターンに従ってデータディレクトリから会話を探す。
+ * {customer}を含まないパターンではデータディレクトリ名を顧客ID、{conversation}を含まない音声のパターンではファイル名を対話IDとする。
+ */
+export const scanDirectory = async (
+    directoryHandle: FileSystemDirectoryHandle,
+    layout: DirectoryLayout = DEFAULT_DIRECTORY_LAYOUT
+): Promise<ScanResult> => {
     const conversations: ConversationData[] = [];
+    const issues: ScanIssue[] = [];
 
-    for await (const customerHandle of directoryHandle.values()) {
-        if (customerHandle.kind === 'directory') {
-            const customerId = customerHandle.name;
-
-            for await (const conversationHandle of (customerHandle as FileSystemDirectoryHandle).values()) {
-                if (conversationHandle.kind === 'directory') {
-                    const conversationId = conversationHandle.name;
-                    let audioFileHandle: FileSystemFileHandle | null = null;
-                    let conversationLogHandle: FileSystemFileHandle | null = null;
-
-                    for await (const fileHandle of (conversationHandle as FileSystemDirectoryHandle).values()) {
-                        if (fileHandle.kind === 'file') {
-                            if (fileHandle.name === 'audio_processed.wav') {
-                                audioFileHandle = fileHandle as FileSystemFileHandle;
-                            } else if (fileHandle.name === 'conversation.csv') {
-                                conversationLogHandle = fileHandle as FileSystemFileHandle;
-                            }
-                        }
-                    }
+    const audioPattern = compilePattern(layout.audioPattern, layout.audioExtensions);
+    const logPattern = compilePattern(layout.logPattern);
+    const logExtension = getFileExtension(layout.logPattern);
+    const maxDepth = Math.max(audioPattern.depth, logPattern.depth);
 
-                    if (audioFileHandle && conversationLogHandle) {
-                        conversations.push({
-                            customerId,
-                            conversationId,
-                            audioFileHandle,
-                            conversationLogHandle
-                        });
-                    }
-                }
+    const files: ScannedFile[] = [];
+    const directories: ScannedDirectory[] = [];
+    await collectFiles(directoryHandle, '', maxDepth + 1, files, directories);
+    files.sort((a, b) => a.path.localeCompare(b.path));
+
+    const candidates = new Map<string, ConversationCandidate>();
+    const matchedPaths: string[] = [];
+    const getCandidate = (file: ScannedFile, match: PatternMatch, hasConversationDirectory: boolean) => {
+        const customerId = match.customerId || directoryHandle.name;
+        const conversationId = match.conversationId || getFileStem(file.handle.name);
+        const key = `${customerId}/${conversationId}`;
+        let candidate = candidates.get(key);
+        if (!candidate) {
+            candidate = {
+                customerId,
+                conversationId,
+                path: hasConversationDirectory ? getParentPath(file.path) : file.path,
+                audioFiles: []
+            };
+            candidates.set(key, candidate);
+        }
+        if (hasConversationDirectory) {
+            candidate.directoryHandle = file.parentHandle;
+        }
+        return candidate;
+    };
+
+    files.forEach(file => {
+        const logMatch = matchPattern(logPattern, file.path);
+        const audioMatch = logMatch ? null : matchPattern(audioPattern, file.path);
+        if (logMatch) {
+            const candidate = getCandidate(file, logMatch, logPattern.hasConversationDirectory);
+            if (candidate.logFile) {
+                issues.push({
+                    severity: 'error',
+                    category: 'duplicateId',
+                    path: file.path,
+                    message: `顧客ID ${candidate.customerId}・対話ID ${candidate.conversationId} の会話ログが複数あります（${candidate.logFile.path}を使います）`
+                });
+            } else {
+                candidate.logFile = file;
+            }
+            matchedPaths.push(file.path);
+        } else if (audioMatch) {
+            getCandidate(file, audioMatch, audioPattern.hasConversationDirectory).audioFiles.push(file);
+            matchedPaths.push(file.path);
+        } else {
+            const extension = getFileExtension(file.handle.name);
+            if (layout.audioExtensions.some(ext => ext.toLowerCase() === extension) || extension === logExtension) {
+                const depth = file.path.split('/').length;
+                issues.push({
+                    severity: 'error',
+                    category: 'skippedFolder',
+                    path: file.path,
+                    message: 'パターンに一致しないため読み込まれません' +
+                        (depth > maxDepth ? '（階層が深すぎる可能性があります）' : '')
+                });
             }
         }
+    });
+
+    // 音声も会話ログも見つからなかったフォルダ（一番上の階層のみ報告）
+    const isUnused = (path: string) => !matchedPaths.some(filePath => filePath.startsWith(`${path}/`));
+    directories
+        .filter(directory => isUnused(directory.path) && (!directory.parentPath || !isUnused(directory.parentPath)))
+        .forEach(directory => issues.push({
+            severity: 'error',
+            category: 'skippedFolder',
+            path: directory.path,
+            message: '音声ファイルも会話ログも見つかりません'
+        }));
+
+    for (const candidate of Array.from(candidates.values())) {
+        const { customerId, conversationId, path, logFile } = candidate;
+        if (candidate.audioFiles.length === 0 || !logFile) {
+            const missing = [
+                ...(candidate.audioFiles.length === 0 ? [`音声ファイル（${layout.audioPattern}）`] : []),
+                ...(!logFile ? [`会話ログ（${layout.logPattern}）`] : [])
+            ];
+            issues.push({
+                severity: 'error',
+                category: 'skippedFolder',
+                path,
+                message: `${missing.join('と')}がありません`
+            });
+            continue;
+        }
+
+        const { audioFileHandle, originalAudioFileHandle } = classifyAudioFiles(candidate, layout, issues);
+        const { error: audioError, duration } = await checkAudioFile(audioFileHandle);
+        if (audioError) {
+            issues.push({ severity: 'error', category: 'audioError', path, message: audioError });
+            continue;
+        }
+
+        let logText: string | undefined;
+        try {
+            const { logs, errors } = await parseConversationLog(await loadConversationLogFile(logFile.handle));
+            logText = logs.map(log => log.text).join('\n');
+            errors.forEach(error => issues.push({
+                severity: 'warning',
+                category: 'csvParseError',
+                path: logFile.path,
+                message: error.message,
+                row: error.row
+            }));
+            if (logs.length === 0) {
+                issues.push({
+                    severity: 'warning',
+                    category: 'csvParseError',
+                    path: logFile.path,
+                    message: 'データ行がありません'
+                });
+            }
+        } catch (error) {
+            issues.push({
+                severity: 'warning',
+                category: 'csvParseError',
+                path: logFile.path,
+                message: `読み込めません（${error instanceof Error ? error.message : String(error)}）`
+            });
+        }
+
+        const audioFile = candidate.audioFiles.find(file => file.handle === audioFileHandle)!;
+        conversations.push({
+            customerId,
+            conversationId,
+            audioFileHandle,
+            ...(originalAudioFileHandle ? { originalAudioFileHandle } : {}),
+            conversationLogHandle: logFile.handle,
+            ...(candidate.directoryHandle ? { conversationDirectoryHandle: candidate.directoryHandle } : {}),
+            audioFilePath: audioFile.path,
+            conversationLogPath: logFile.path,
+            ...(duration !== undefined ? { audioDuration: duration } : {}),
+            ...(logText ? { logText } : {})
+        });
     }
 
-    return conversations;
+    return { conversations, issues };
 };
 
+// 処理済み音声があるか、ブラウザ上で前処理済みか
+export const hasProcessedAudio = (conversation: ConversationData): boolean =>
+    !!conversation.processedAudioFile ||
+    !conversation.originalAudioFileHandle ||
+    conversation.audioFileHandle !== conversation.originalAudioFileHandle;
+
 export const loadAudioFile = async (fileHandle: FileSystemFileHandle): Promise<File> => {
     const file = await fileHandle.getFile();
     return new File([file], file.name, { type: file.type });
 };
 
+// 処理済み音声を読み込む（ブラウザ上で前処理した音声を優先）
+export const loadProcessedAudioFile = async (conversation: ConversationData): Promise<File> =>
+    conversation.processedAudioFile || loadAudioFile(conversation.audioFileHandle);
+
+/**
+ * 処理済み音声と元の音声の時刻のずれを決める。
+ * project.jsonで宣言されていればそれを優先し、無ければ保存済みの値、音声ファイルの再生時間の差の順に使う
+ * （どちらかの音声しか無い会話ではずれは決まらないためundefined）
+ */
+export const resolveAudioOffset = async (
+    conversation: ConversationData,
+    annotation: DialogueAnnotation | undefined,
+    config: ProjectConfig
+): Promise<number | undefined> => {
+    if (config.audioOffset !== undefined) return config.audioOffset;
+    if (annotation?.audioOffset !== undefined) return annotation.audioOffset;
+
+    const { originalAudioFileHandle } = conversation;
+    if (!originalAudioFileHandle || !hasProcessedAudio(conversation)) return undefined;
+    try {
+        const offset = await detectAudioOffset(
+            await originalAudioFileHandle.getFile(),
+            await loadProcessedAudioFile(conversation)
+        );
+        if (offset !== null) return offset;
+    } catch (error) {
+        console.error('Failed to detect audio offset:', error);
+    }
+    console.warn(`Could not detect audio offset for ${conversation.customerId}_${conversation.conversationId}`);
+    return undefined;
+};
+
 export const loadConversationLogFile = async (fileHandle: FileSystemFileHandle): Promise<File> => {
     const file = await fileHandle.getFile();
     return new File([file], file.name, { type: 'text/csv' });
 };
 
+export interface CsvParseError {
+    // ヘッダー行を1行目とした行番号
+    row?: number;
+    message: string;
+}
+
+// 会話ログ（CSV・TSV）を読み込み、PapaParseが報告した行ごとのエラーも返す
+export const parseConversationLog = async (file: File): Promise<{ logs: ConversationLog[]; errors: CsvParseError[] }> => {
+    const text = await file.text();
+    const results = Papa.parse(text, { header: true, skipEmptyLines: true });
+    return {
+        logs: results.data as ConversationLog[],
+        errors: results.errors.map((error: { row?: number; message: string }) => ({
+            // error.rowはデータ行の0始まりの番号
+            row: error.row !== undefined ? error.row + 2 : undefined,
+            message: error.message
+        }))
+    };
+};
+
 export const readConversationLog = async (file: File): Promise<ConversationLog[]> => {
-    return new Promise((resolve, reject) => {
-        Papa.parse(file, {
-            header: true,
-            complete: (results) => {
-                resolve(results.data as ConversationLog[]);
-            },
-            error: (error) => {
-                reject(error);
-            }
-        });
-    });
+    const { logs, errors } = await parseConversationLog(file);
+    if (errors.length > 0) {
+        console.warn(`${file.name}: ${errors.length} parse error(s)`, errors);
+    }
+    return logs;
 };
 
 export const readTextFile = async (file: File): Promise<string[]> => {
@@ -69,7 +362,24 @@ export const readTextFile = async (file: File): Promise<string[]> => {
     return text.split('\n').map(line => line.trim()).filter(line => line);
 };
 
-export const exportAnnotations = (annotations: DialogueAnnotation[]): string => {
+export interface ExportOptions {
+    intentLabel?: IntentLabelFormat;
+    multiIntent?: MultiIntentExportMode;
+    // tokens列・bioTags列を追加する
+    bioTags?: boolean;
+}
+
+/**
+ * timeBaseで指定した音声を基準にしたタイムスタンプで出力する。
+ * 音声オフセットはproject.jsonの値、アノテーションの値の順に使い（開いていない会話は事前にresolveAudioOffsetで決めておく）、
+ * 時刻の変換が必要な会話でオフセットが決まらない場合はエラーにする。
+ */
+export const exportAnnotations = (
+    annotations: DialogueAnnotation[],
+    timeBase: AudioSource = 'processed',
+    options: ExportOptions = {},
+    config: ProjectConfig = {}
+): string => {
     // ヘッダー行の定義
     const headers = [
         'customerId',
@@ -81,40 +391,137 @@ export const exportAnnotations = (annotations: DialogueAnnotation[]): string =>
         'segmentEnd',
         'intent',
         'turnSlots',
-        'dialogueSlots'
+        'dialogueSlots',
+        'segments',
+        'speaker',
+        'timeBase',
+        'audioOffset',
+        'referenceDate',
+        'primaryIntent',
+        'intents',
+        'transcript',
+        'logRows',
+        'dialogueState',
+        'dialogueActs',
+        'dialogueIntent',
+        'conversationLabels',
+        'comment',
+        'flags',
+        'dialogueComment',
+        'dialogueFlags',
+        ...(options.bioTags ? ['tokens', 'bioTags'] : [])
     ];
 
     // CSVヘッダー行の作成
     let csv = headers.join(',') + '\n';
 
+    const unresolved = annotations.filter(annotation =>
+        (annotation.audioSource || 'processed') !== timeBase &&
+        (config.audioOffset ?? annotation.audioOffset) === undefined &&
+        annotation.turns.some(turn => !turn.isDraft)
+    );
+    if (unresolved.length > 0) {
+        throw new Error(
+            `音声オフセットが決まらないため、${timeBase === 'original' ? '元の音声' : '処理済み音声'}の時刻に変換できません: ` +
+            unresolved.map(annotation => `${annotation.customerId}_${annotation.conversationId}`).join('、')
+        );
+    }
+
     // 各アノテーションデータの処理
     annotations.forEach(annotation => {
-        // 各ターンについて1レコードを作成
-        annotation.turns.forEach((turn, turnIndex) => {
-            const row = [
-                annotation.customerId,
-                annotation.conversationId,
-                turnIndex,
-                turn.segments[0].start,
-                turn.segments[0].end,
-                Math.max(0, turn.segments[0].end - 0.1),
-                Math.min(turn.segments[0].end + 0.1),
-                turn.intent,
-                JSON.stringify(turn.slots),
-                JSON.stringify(annotation.dialogueSlots)
-            ];
+        const audioOffset = config.audioOffset ?? annotation.audioOffset;
+        const toTimeBase = (time: number) =>
+            convertAudioTime(time, annotation.audioSource || 'processed', timeBase, audioOffset ?? 0);
 
-            // 値のエスケープ処理
-            const escapedRow = row.map(value => {
-                if (typeof value === 'string') {
-                    if (value.includes(',') || value.includes('"')) {
-                        return `"${value.replace(/"/g, '""')}"`;
-                    }
+        // 出力する各ターンの後の対話状態（下書きのターンは状態を変えない）
+        const dialogueStates = deriveDialogueStates(annotation.turns)
+            .filter((_, index) => !annotation.turns[index].isDraft)
+            .map(({ state }) => state);
+
+        // 各ターンについて1レコードを作成（未承認の下書きターンは除外）
+        annotation.turns.filter(turn => !turn.isDraft).forEach((turn, turnIndex) => {
+            // 複数の区間を持つターンは最初の区間の開始から最後の区間の終了までを発話区間とし、
+            // 各区間はsegments列に出力する（区間をすべて削除したターンは時刻の列を空にする）
+            const segments = turn.segments.map(segment => ({
+                ...segment,
+                start: toTimeBase(segment.start),
+                end: toTimeBase(segment.end)
+            }));
+            const firstSegment = segments[0];
+            const lastSegment = segments[segments.length - 1];
+            const timeColumns = firstSegment && lastSegment
+                ? [
+                    firstSegment.start,
+                    lastSegment.end,
+                    Math.max(0, lastSegment.end - 0.1),
+                    Math.min(lastSegment.end + 0.1)
+                ]
+                : ['', '', '', ''];
+            const toLabel = (name: string) => formatIntentLabel(name, options.intentLabel);
+            const turnIntents = getTurnIntents(turn);
+            const toSlotColumn = (slots: typeof turn.slots) =>
+                JSON.stringify(slots.map(slot => (slot.intent ? { ...slot, intent: toLabel(slot.intent) } : slot)));
+
+            // 複数のインテントを持つターンは、指定に応じて主たるインテントのみ・つなげた1行・インテントごとの行で出力する
+            // インテントごとの行には、そのインテントに割り当てたスロットと割り当ての無いスロットを出力する
+            const entries = options.multiIntent === 'rows' && turnIntents.length > 1
+                ? turnIntents.map(name => ({
+                    intent: toLabel(name),
+                    slots: turn.slots.filter(slot => !slot.intent || slot.intent === name)
+                }))
+                : [{
+                    intent: options.multiIntent === 'joined'
+                        ? turnIntents.map(toLabel).join(INTENT_JOIN_SEPARATOR)
+                        : toLabel(turn.intent),
+                    slots: turn.slots
+                }];
+
+            entries.forEach(entry => {
+                const row = [
+                    annotation.customerId,
+                    annotation.conversationId,
+                    turnIndex,
+                    ...timeColumns,
+                    entry.intent,
+                    toSlotColumn(entry.slots),
+                    JSON.stringify(annotation.dialogueSlots),
+                    JSON.stringify(segments),
+                    turn.speaker || '',
+                    timeBase,
+                    audioOffset ?? '',
+                    annotation.referenceDate || '',
+                    toLabel(turn.intent),
+                    JSON.stringify(turnIntents.map(toLabel)),
+                    turn.transcript || '',
+                    JSON.stringify(turn.logRows || []),
+                    JSON.stringify(dialogueStates[turnIndex]),
+                    JSON.stringify((turn.acts || []).map(formatDialogueAct)),
+                    annotation.intent ? toLabel(annotation.intent) : '',
+                    JSON.stringify(annotation.labels || {}),
+                    turn.comment || '',
+                    JSON.stringify(turn.flags || []),
+                    annotation.comment || '',
+                    JSON.stringify(annotation.flags || [])
+                ];
+                // 書き起こしのトークンと、行に出力したスロットの範囲のBIOタグ
+                if (options.bioTags) {
+                    const { tokens, tags } = toBioTags(turn.transcript || '', entry.slots);
+                    row.push(JSON.stringify(tokens), JSON.stringify(tags));
                 }
-                return value;
-            });
 
-            csv += escapedRow.join(',') + '\n';
+                // 値のエスケープ処理
+                const escapedRow = row.map(value => {
+                    if (typeof value === 'string') {
+                        // 書き起こしは改行を含むことがある
+                        if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+                            return `"${value.replace(/"/g, '""')}"`;
+                        }
+                    }
+                    return value;
+                });
+
+                csv += escapedRow.join(',') + '\n';
+            });
         });
     });
 
@@ -126,7 +533,9 @@ export interface AnnotationData extends DialogueAnnotation {
     conversationId: string;
     turns: Array<{
         segments: Array<{ start: number; end: number }>;
+        speaker?: string;
         intent: string;
+        intents?: string[];
         slots: Array<{ key: string; value: string }>;
     }>;
     dialogueSlots: Array<{ key: string; value: string }>;
@@ -137,7 +546,7 @@ export const saveAnnotation = async (
     conversationId: string,
     annotationData: DialogueAnnotation,
     directoryHandle: FileSystemDirectoryHandle
-): Promise<void> => {
+): Promise<DialogueAnnotation> => {
     try {
         // .cacheディレクトリを取得または作成
         let cacheHandle: FileSystemDirectoryHandle;
@@ -151,11 +560,12 @@ export const saveAnnotation = async (
         const filename = `${customerId}_${conversationId}.json`;
         const fileHandle = await cacheHandle.getFileHandle(filename, { create: true });
 
-        // ファイルに書き込み
+        // ファイルに書き込み（保存した日時を付ける）
+        const savedAnnotation: DialogueAnnotation = { ...annotationData, updatedAt: new Date().toISOString() };
         const writable = await fileHandle.createWritable();
-        await writable.write(JSON.stringify(annotationData, null, 2));
+        await writable.write(JSON.stringify(savedAnnotation, null, 2));
         await writable.close();
-
+        return savedAnnotation;
     } catch (error) {
         console.error('Failed to save annotation:', error);
         throw error;
@@ -178,10 +588,13 @@ export const loadAnnotation = async (
             const data = await file.text();
             const parsed = JSON.parse(data);
             return {
+                ...parsed,
                 customerId,
                 conversationId,
                 turns: parsed.turns || [],
-                dialogueSlots: parsed.dialogueSlots || []
+                dialogueSlots: parsed.dialogueSlots || [],
+                // 保存日時の無い以前のファイルはファイルの更新日時を使う
+                updatedAt: parsed.updatedAt || new Date(file.lastModified).toISOString()
             };
         } catch {
             return null;
@@ -192,6 +605,77 @@ export const loadAnnotation = async (
     }
 };
 
+// 旧形式の一覧ファイル（1行に1項目）を読み込む。無い場合はundefined
+const readLegacyList = async (directoryHandle: FileSystemDirectoryHandle, fileName: string): Promise<string[] | undefined> => {
+    try {
+        const fileHandle = await directoryHandle.getFileHandle(fileName);
+        const items = await readTextFile(await fileHandle.getFile());
+        return items.length > 0 ? items : undefined;
+    } catch (error) {
+        console.log(`${fileName} not found in directory`);
+        return undefined;
+    }
+};
+
+/**
+ * project.jsonを読み込む。インテント・スロット・話者ロールが宣言されていない場合は
+ * intent.txt・slot.txt・speakers.txtを読み込み、使った旧形式のファイル名をlegacyFilesで返す。
+ * project.jsonはあるが読み取れない場合は、内容をerrorで返す（上書きして壊さないよう、保存はしないこと）。
+ */
+export const loadProjectConfig = async (
+    directoryHandle: FileSystemDirectoryHandle
+): Promise<{ config: ProjectConfig; legacyFiles: string[]; error?: string }> => {
+    let raw: ProjectConfig = {};
+    let error: string | undefined;
+    let fileHandle: FileSystemFileHandle | undefined;
+    try {
+        fileHandle = await directoryHandle.getFileHandle('project.json');
+    } catch {
+        console.log('project.json not found in directory');
+    }
+    if (fileHandle) {
+        try {
+            const parsed = JSON.parse(await (await fileHandle.getFile()).text());
+            if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                throw new Error('オブジェクトではありません');
+            }
+            raw = parsed;
+        } catch (parseError) {
+            console.error('Failed to parse project.json:', parseError);
+            error = `project.jsonを読み取れません（${parseError instanceof Error ? parseError.message : String(parseError)}）`;
+        }
+    }
+
+    const legacy: LegacyLists = {};
+    const legacyFiles: string[] = [];
+    const legacyTargets: [keyof LegacyLists, string][] = [
+        ['intents', 'intent.txt'],
+        ['slots', 'slot.txt'],
+        ['speakers', 'speakers.txt']
+    ];
+    for (const [field, fileName] of legacyTargets) {
+        if (raw[field]) continue;
+        const items = await readLegacyList(directoryHandle, fileName);
+        if (items) {
+            legacy[field] = items;
+            legacyFiles.push(fileName);
+        }
+    }
+
+    return { config: normalizeProjectConfig(raw, legacy), legacyFiles, ...(error ? { error } : {}) };
+};
+
+// project.jsonを書き出す（既存の内容は置き換える）
+export const saveProjectConfig = async (
+    directoryHandle: FileSystemDirectoryHandle,
+    config: ProjectConfig
+): Promise<void> => {
+    const fileHandle = await directoryHandle.getFileHandle('project.json', { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(JSON.stringify(config, null, 2));
+    await writable.close();
+};
+
 export const clearCache = async (directoryHandle: FileSystemDirectoryHandle) => {
     try {
         // .cacheディレクトリを取得
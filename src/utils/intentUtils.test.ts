@@ -0,0 +1,66 @@
+import { normalizeSearchText, romajiToHiragana, searchIntents } from './intentUtils.ts';
+
+describe('romajiToHiragana', () => {
+    it('ヘボン式・訓令式のローマ字をひらがなにする', () => {
+        expect(romajiToHiragana('yoyaku')).toBe('よやく');
+        expect(romajiToHiragana('shinki')).toBe('しんき');
+        expect(romajiToHiragana('sinki')).toBe('しんき');
+        expect(romajiToHiragana('kyanseru')).toBe('きゃんせる');
+    });
+
+    it('子音の重なりは促音、子音の前と語末のnは撥音にする', () => {
+        expect(romajiToHiragana('kippu')).toBe('きっぷ');
+        expect(romajiToHiragana('kantan')).toBe('かんたん');
+        expect(romajiToHiragana('hon')).toBe('ほん');
+    });
+
+    it('母音・yが続くnnは2つ目のnを次の音に使う', () => {
+        expect(romajiToHiragana('annai')).toBe('あんない');
+        expect(romajiToHiragana('konnichiha')).toBe('こんにちは');
+        expect(romajiToHiragana('shinnyou')).toBe('しんにょう');
+        expect(romajiToHiragana('minnna')).toBe('みんな');
+        expect(romajiToHiragana('nn')).toBe('ん');
+    });
+
+    it('変換できない文字はそのまま残す', () => {
+        expect(romajiToHiragana('予約q')).toBe('予約q');
+    });
+});
+
+describe('normalizeSearchText', () => {
+    it('全角・カタカナ・大文字をそろえる', () => {
+        expect(normalizeSearchText('ＡＮＮＡＩ')).toBe('あんない');
+        expect(normalizeSearchText('キャンセル')).toBe('きゃんせる');
+    });
+});
+
+describe('searchIntents', () => {
+    const intents = [
+        { name: '予約/新規', reading: 'よやく/しんき' },
+        { name: '予約/変更', reading: 'よやく/へんこう', synonyms: ['日程変更'] },
+        { name: '案内', reading: 'あんない', description: '店舗の場所や営業時間を案内する' },
+        { name: 'キャンセル' }
+    ];
+    const names = (query: string) => searchIntents(intents, query).map(intent => intent.name);
+
+    it('ローマ字・ひらがな・カタカナの読みで検索できる', () => {
+        expect(names('annai')).toEqual(['案内']);
+        expect(names('あんない')).toEqual(['案内']);
+        expect(names('kyanseru')).toEqual(['キャンセル']);
+    });
+
+    it('入力途中のローマ字は無視する', () => {
+        expect(names('henk')).toEqual(['予約/変更']);
+    });
+
+    it('同義語で検索でき、名前での一致を説明での一致より優先する', () => {
+        expect(names('日程')).toEqual(['予約/変更']);
+        expect(names('営業時間')).toEqual(['案内']);
+        expect(names('yoyaku')).toEqual(['予約/新規', '予約/変更']);
+    });
+
+    it('空の検索語ではすべてを返し、一致しない場合は空にする', () => {
+        expect(names('')).toHaveLength(4);
+        expect(names('zzz')).toEqual([]);
+    });
+});
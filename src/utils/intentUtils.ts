@@ -0,0 +1,193 @@
+import { IntentDefinition, IntentLabelFormat, Turn } from '../types';
+import { toHalfWidth } from './slotUtils.ts';
+
+// インテント名の階層の区切り（例: 予約/新規）
+export const INTENT_PATH_SEPARATOR = '/';
+
+// 複数のインテントを1列にまとめて出力するときの区切り
+export const INTENT_JOIN_SEPARATOR = '|';
+
+// project.jsonではchildrenで階層を書くこともできる
+export type IntentTreeNode = string | (IntentDefinition & { children?: IntentTreeNode[] });
+
+export const getIntentLeaf = (name: string) => name.split(INTENT_PATH_SEPARATOR).pop() || name;
+
+// 末尾の要素を除いたカテゴリのパス（最上位のインテントでは空文字）
+export const getIntentCategory = (name: string) =>
+    name.split(INTENT_PATH_SEPARATOR).slice(0, -1).join(INTENT_PATH_SEPARATOR);
+
+export const formatIntentLabel = (name: string, format: IntentLabelFormat = 'path') =>
+    format === 'leaf' ? getIntentLeaf(name) : name;
+
+// ターンのインテントを発話順に返す（intentsを持たない以前のデータは主たるインテントのみ）
+export const getTurnIntents = (turn: Pick<Turn, 'intent' | 'intents'>): string[] =>
+    turn.intents && turn.intents.length > 0 ? turn.intents : turn.intent ? [turn.intent] : [];
+
+/**
+ * ターンのインテントの一覧と主たるインテントを更新する。
+ * 主たるインテントが一覧に無い場合は先頭を使い、一覧から外れたインテントへのスロットの割り当ては解除する。
+ * インテントが1つ以下になった場合はintentsとスロットの割り当てを省く。
+ */
+export const withTurnIntents = <T extends Turn>(turn: T, intents: string[], primary?: string): T => {
+    const uniqueIntents = Array.from(new Set(intents.filter(intent => intent)));
+    const isMultiple = uniqueIntents.length > 1;
+    const { intents: _previous, ...rest } = turn;
+    return {
+        ...rest,
+        intent: primary && uniqueIntents.includes(primary) ? primary : uniqueIntents[0] || '',
+        ...(isMultiple ? { intents: uniqueIntents } : {}),
+        slots: turn.slots.map(({ intent, ...slot }) =>
+            isMultiple && intent && uniqueIntents.includes(intent) ? { ...slot, intent } : slot
+        )
+    } as T;
+};
+
+/**
+ * childrenで書かれた階層を「親/子」の名前を持つ一覧に展開する。
+ * 子を持つ項目はカテゴリとして扱い、選択肢には含めない。読みは親の読みとつなげる。
+ */
+export const flattenIntentTree = (
+    nodes: IntentTreeNode[],
+    parent?: { name: string; reading?: string }
+): IntentDefinition[] =>
+    nodes.flatMap(node => {
+        const { children, ...definition } = typeof node === 'string' ? { name: node, children: undefined } : node;
+        const name = parent ? `${parent.name}${INTENT_PATH_SEPARATOR}${definition.name}` : definition.name;
+        const reading = parent?.reading
+            ? `${parent.reading}${INTENT_PATH_SEPARATOR}${definition.reading || definition.name}`
+            : definition.reading;
+        if (children && children.length > 0) {
+            return flattenIntentTree(children, { name, reading });
+        }
+        return [{ ...definition, name, ...(reading ? { reading } : {}) }];
+    });
+
+const ROMAJI_TABLE: Record<string, string> = {
+    a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+    ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+    sa: 'さ', si: 'し', shi: 'し', su: 'す', se: 'せ', so: 'そ',
+    ta: 'た', ti: 'ち', chi: 'ち', tu: 'つ', tsu: 'つ', te: 'て', to: 'と',
+    na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+    ha: 'は', hi: 'ひ', hu: 'ふ', fu: 'ふ', he: 'へ', ho: 'ほ',
+    ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+    ya: 'や', yu: 'ゆ', yo: 'よ',
+    ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+    wa: 'わ', wo: 'を',
+    ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+    za: 'ざ', zi: 'じ', ji: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+    da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+    ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+    pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+    kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+    sha: 'しゃ', shu: 'しゅ', sho: 'しょ', sya: 'しゃ', syu: 'しゅ', syo: 'しょ',
+    cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ',
+    nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+    hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+    mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+    rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+    gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+    ja: 'じゃ', ju: 'じゅ', jo: 'じょ', zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ',
+    bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+    pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+    '-': 'ー'
+};
+
+// カタカナをひらがなに変換
+export const toHiragana = (text: string) =>
+    text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+
+/**
+ * ローマ字をひらがなに変換する（ヘボン式・訓令式の両方を受け付ける）。
+ * 変換できない文字はそのまま残す。
+ */
+export const romajiToHiragana = (text: string): string => {
+    let result = '';
+    let i = 0;
+    while (i < text.length) {
+        const rest = text.slice(i);
+        // 子音の重なりは促音
+        if (/^([bcdfghjkmpqrstvwxyz])\1/.test(rest)) {
+            result += 'っ';
+            i += 1;
+            continue;
+        }
+        // nnは撥音。母音・yが続く場合は2つ目のnを次の音（annai→あんない）に使う
+        if (/^nn/.test(rest)) {
+            result += 'ん';
+            i += /^nn[aiueoy]/.test(rest) ? 1 : 2;
+            continue;
+        }
+        // 子音の前・語末のnは撥音
+        if (/^n(?![aiueoyn])/.test(rest)) {
+            result += 'ん';
+            i += 1;
+            continue;
+        }
+        const length = [3, 2, 1].find(n => ROMAJI_TABLE[rest.slice(0, n)]);
+        if (length) {
+            result += ROMAJI_TABLE[rest.slice(0, length)];
+            i += length;
+        } else {
+            result += rest[0];
+            i += 1;
+        }
+    }
+    return result;
+};
+
+// 検索用に表記をそろえる（半角・小文字・ひらがな、ローマ字はひらがなに変換）
+export const normalizeSearchText = (text: string) =>
+    romajiToHiragana(toHiragana(toHalfWidth(text).toLowerCase()));
+
+// 部分一致を優先し、文字が順に含まれていれば一致とみなす。一致しない場合はnull
+const fuzzyScore = (query: string, target: string, substringOnly = false): number | null => {
+    if (!query) return 0;
+    const index = target.indexOf(query);
+    if (index >= 0) {
+        return 100 - Math.min(index, 50) + (index === 0 ? 20 : 0);
+    }
+    if (substringOnly) return null;
+    let position = 0;
+    let gaps = 0;
+    for (const char of query) {
+        const found = target.indexOf(char, position);
+        if (found < 0) return null;
+        gaps += found - position;
+        position = found + 1;
+    }
+    return Math.max(1, 50 - gaps);
+};
+
+/**
+ * 名前・説明・同義語・読みからインテントをあいまい検索し、一致度の高い順に返す。
+ * 名前（とその読み）での一致を説明での一致より優先する。
+ */
+export const searchIntents = (intents: IntentDefinition[], query: string): IntentDefinition[] => {
+    // ローマ字の入力途中（「yoyakuh」の「h」など）は無視する
+    const normalizedQuery = normalizeSearchText(query.trim()).replace(/([ぁ-ゖー])[a-z]+$/, '$1');
+    if (!normalizedQuery) return intents;
+
+    return intents
+        .map(intent => {
+            const nameFields = [intent.name, getIntentLeaf(intent.name), intent.reading || '', ...(intent.synonyms || [])];
+            const scores = [
+                ...nameFields.map(field => fuzzyScore(normalizedQuery, normalizeSearchText(field))),
+                // 説明は長いため部分一致のみ
+                ...[intent.description || ''].map(field => {
+                    const score = fuzzyScore(normalizedQuery, normalizeSearchText(field), true);
+                    return score !== null ? score / 2 : null;
+                })
+            ].filter((score): score is number => score !== null);
+            return { intent, score: scores.length > 0 ? Math.max(...scores) : null };
+        })
+        .filter((result): result is { intent: IntentDefinition; score: number } => result.score !== null)
+        .sort((a, b) => b.score - a.score)
+        .map(result => result.intent);
+};
+
+// カテゴリごとにまとめて表示するため、カテゴリ・名前の順に並べる
+export const sortIntentsByCategory = (intents: IntentDefinition[]) =>
+    [...intents].sort((a, b) =>
+        getIntentCategory(a.name).localeCompare(getIntentCategory(b.name), 'ja') ||
+        a.name.localeCompare(b.name, 'ja')
+    );
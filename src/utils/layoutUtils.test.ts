@@ -0,0 +1,56 @@
+import { DEFAULT_DIRECTORY_LAYOUT, compilePattern, matchPattern, validateLayout } from './layoutUtils.ts';
+
+describe('compilePattern・matchPattern', () => {
+    it('{customer}・{conversation}をIDとして取り出す', () => {
+        const compiled = compilePattern('{customer}/{conversation}/conversation.csv');
+        expect(matchPattern(compiled, 'C001/D01/conversation.csv')).toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(compiled.depth).toBe(3);
+        expect(compiled.hasConversationDirectory).toBe(true);
+    });
+
+    it('ファイル名の一部のIDと、*・それ以外の{name}・{ext}を扱う', () => {
+        const compiled = compilePattern('{customer}/call_{conversation}_{date}.{ext}', ['wav', 'mp3']);
+        expect(matchPattern(compiled, 'C001/call_D01_20261019.MP3')).toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(compiled.hasConversationDirectory).toBe(false);
+        expect(matchPattern(compilePattern('logs/*.csv'), 'logs/D01.csv')).toEqual({ customerId: undefined, conversationId: undefined });
+    });
+
+    it('一致しないパスはnullを返す', () => {
+        const compiled = compilePattern('{customer}/{conversation}/*.{ext}', ['wav']);
+        // 拡張子が違う
+        expect(matchPattern(compiled, 'C001/D01/audio.mp3')).toBeNull();
+        // 階層が浅い・深い
+        expect(matchPattern(compiled, 'C001/audio.wav')).toBeNull();
+        expect(matchPattern(compiled, 'C001/D01/extra/audio.wav')).toBeNull();
+        // 「.」などの記号は文字どおりに一致させる
+        expect(matchPattern(compilePattern('{conversation}.csv'), 'D01xcsv')).toBeNull();
+    });
+
+    it('深い階層のパターンでは各階層の値を取り出す', () => {
+        const compiled = compilePattern('{year}/{customer}/calls/{conversation}/audio/*.{ext}', ['wav']);
+        expect(compiled.depth).toBe(6);
+        expect(matchPattern(compiled, '2026/C001/calls/D01/audio/audio_processed.wav'))
+            .toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(matchPattern(compiled, '2026/C001/D01/audio/audio_processed.wav')).toBeNull();
+    });
+});
+
+describe('DEFAULT_DIRECTORY_LAYOUT', () => {
+    it('これまでの「顧客ID/対話ID/」の構成に一致する', () => {
+        const audio = compilePattern(DEFAULT_DIRECTORY_LAYOUT.audioPattern, DEFAULT_DIRECTORY_LAYOUT.audioExtensions);
+        const log = compilePattern(DEFAULT_DIRECTORY_LAYOUT.logPattern);
+        expect(matchPattern(audio, 'C001/D01/audio_processed.wav')).toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(matchPattern(audio, 'C001/D01/audio.wav')).toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(matchPattern(log, 'C001/D01/conversation.csv')).toEqual({ customerId: 'C001', conversationId: 'D01' });
+        expect(matchPattern(log, 'C001/D01/other.csv')).toBeNull();
+        expect(validateLayout(DEFAULT_DIRECTORY_LAYOUT)).toBeNull();
+    });
+});
+
+describe('validateLayout', () => {
+    it('会話ログのパターンに{conversation}が無い場合や拡張子が無い場合はエラーにする', () => {
+        expect(validateLayout({ ...DEFAULT_DIRECTORY_LAYOUT, logPattern: '{customer}/log.csv' })).not.toBeNull();
+        expect(validateLayout({ ...DEFAULT_DIRECTORY_LAYOUT, audioExtensions: [] })).not.toBeNull();
+        expect(validateLayout({ ...DEFAULT_DIRECTORY_LAYOUT, audioPattern: ' ' })).not.toBeNull();
+    });
+});
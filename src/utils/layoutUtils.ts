@@ -0,0 +1,80 @@
+import { DirectoryLayout } from '../types';
+
+// これまでの「顧客ID/対話ID/audio_processed.wav, conversation.csv」の構成
+export const DEFAULT_DIRECTORY_LAYOUT: DirectoryLayout = {
+    audioPattern: '{customer}/{conversation}/*.{ext}',
+    logPattern: '{customer}/{conversation}/conversation.csv',
+    audioExtensions: ['wav'],
+    processedAudioName: 'audio_processed',
+    originalAudioName: 'audio'
+};
+
+export interface CompiledPattern {
+    regex: RegExp;
+    // パターンの階層の深さ（"/"で区切った要素数）
+    depth: number;
+    // 会話ごとのフォルダがあるか（{conversation}がファイル名ではなくフォルダ名に含まれるか）
+    hasConversationDirectory: boolean;
+}
+
+export interface PatternMatch {
+    customerId?: string;
+    conversationId?: string;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+?^$()|[\]\\]/g, '\\$&');
+
+// パターンの1要素を正規表現に変換
+// {customer}・{conversation}はIDとして取り出し、それ以外の{name}と*は任意の文字列、{ext}は音声の拡張子に一致する
+const compileSegment = (segment: string, extensions: string[]): string =>
+    segment.split(/(\{\w+\}|\*)/).map(token => {
+        if (token === '{customer}') return '(?<customer>[^/]+?)';
+        if (token === '{conversation}') return '(?<conversation>[^/]+?)';
+        if (token === '{ext}') return `(?:${extensions.map(escapeRegExp).join('|')})`;
+        if (token === '*' || /^\{\w+\}$/.test(token)) return '[^/]*?';
+        return escapeRegExp(token);
+    }).join('');
+
+/**
+ * "{customer}/{conversation}/*.{ext}"のようなパターンを、データディレクトリからの相対パスに一致する正規表現に変換する。
+ * 拡張子の大文字・小文字は区別しない。
+ */
+export const compilePattern = (pattern: string, extensions: string[] = []): CompiledPattern => {
+    const segments = pattern.split('/').filter(segment => segment);
+    const source = segments.map(segment => compileSegment(segment, extensions)).join('/');
+    return {
+        regex: new RegExp(`^${source}$`, 'i'),
+        depth: segments.length,
+        hasConversationDirectory: segments.slice(0, -1).some(segment => segment.includes('{conversation}'))
+    };
+};
+
+export const matchPattern = (compiled: CompiledPattern, path: string): PatternMatch | null => {
+    const match = compiled.regex.exec(path);
+    if (!match) return null;
+    return {
+        customerId: match.groups?.customer,
+        conversationId: match.groups?.conversation
+    };
+};
+
+// パターンの書式を確認し、問題があれば内容を返す
+export const validateLayout = (layout: DirectoryLayout): string | null => {
+    if (!layout.audioPattern.trim() || !layout.logPattern.trim()) {
+        return '音声と会話ログのパターンを入力してください';
+    }
+    if (!layout.logPattern.includes('{conversation}')) {
+        return '会話ログのパターンには{conversation}を含めてください';
+    }
+    if (layout.audioExtensions.length === 0) {
+        return '音声の拡張子を1つ以上指定してください';
+    }
+    return null;
+};
+
+export const getFileStem = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+export const getFileExtension = (fileName: string) => {
+    const match = fileName.match(/\.([^.]+)$/);
+    return match ? match[1].toLowerCase() : '';
+};
@@ -0,0 +1,38 @@
+type TimeListener = (time: number) => void;
+
+/**
+ * 波形の再生位置を、App全体を再描画せずに他のコンポーネントと共有するためのストア。
+ * （Appの状態を更新すると波形が作り直されて再生が止まるため、再生中の位置はこれで受け渡す）
+ */
+export interface PlaybackSync {
+    // 波形から現在の再生位置を通知する
+    publishTime: (time: number) => void;
+    subscribeTime: (listener: TimeListener) => () => void;
+    // 波形の外から再生位置の移動を要求する
+    requestSeek: (time: number) => void;
+    subscribeSeek: (listener: TimeListener) => () => void;
+}
+
+const createChannel = () => {
+    const listeners = new Set<TimeListener>();
+    return {
+        emit: (time: number) => listeners.forEach(listener => listener(time)),
+        subscribe: (listener: TimeListener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    };
+};
+
+export const createPlaybackSync = (): PlaybackSync => {
+    const time = createChannel();
+    const seek = createChannel();
+    return {
+        publishTime: time.emit,
+        subscribeTime: time.subscribe,
+        requestSeek: seek.emit,
+        subscribeSeek: seek.subscribe
+    };
+};
@@ -0,0 +1,119 @@
+// 処理済み音声のサンプリングレート
+export const PROCESSED_SAMPLE_RATE = 16000;
+// convert_to_mono.shと同じく先頭を切り落とす時間（秒）
+export const DEFAULT_TRIM_SECONDS = 2;
+
+// mix: 全チャンネルの平均、first: 先頭（左）チャンネルのみ（convert_to_mono.shと同じ）
+export type DownmixMode = 'mix' | 'first';
+
+export interface PreprocessOptions {
+    trimSeconds: number;
+    downmixMode: DownmixMode;
+}
+
+// ワーカーに渡すデコード済みの音声（各チャンネルのサンプル）と前処理の設定
+export interface PreprocessWorkerRequest extends PreprocessOptions {
+    channels: Float32Array[];
+    sampleRate: number;
+}
+
+// リサンプリングに使う窓付きsinc関数の片側のゼロ交差数と、テーブルの分解能（1ゼロ交差あたり）
+const SINC_ZERO_CROSSINGS = 8;
+const SINC_TABLE_RESOLUTION = 512;
+
+// ハン窓を掛けたsinc関数のテーブル（0からSINC_ZERO_CROSSINGSまで）
+const createSincTable = (): Float32Array => {
+    const table = new Float32Array(SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION + 1);
+    for (let i = 0; i < table.length; i++) {
+        const x = i / SINC_TABLE_RESOLUTION;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+        const window = 0.5 * (1 + Math.cos((Math.PI * x) / SINC_ZERO_CROSSINGS));
+        table[i] = sinc * window;
+    }
+    return table;
+};
+
+export const downmixChannels = (channels: Float32Array[], mode: DownmixMode): Float32Array => {
+    if (mode === 'first' || channels.length === 1) {
+        return channels[0].slice();
+    }
+    const samples = new Float32Array(channels[0].length);
+    channels.forEach(data => {
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] += data[i] / channels.length;
+        }
+    });
+    return samples;
+};
+
+/**
+ * 窓付きsinc補間でサンプリングレートを変換する。
+ * ダウンサンプリング時はカットオフを変換後のナイキスト周波数に下げてエイリアシングを防ぐ。
+ */
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+    if (fromRate === toRate) return samples.slice();
+
+    const ratio = toRate / fromRate;
+    // 元のナイキスト周波数に対するカットオフ
+    const cutoff = Math.min(1, ratio);
+    const halfWidth = SINC_ZERO_CROSSINGS / cutoff;
+    const table = createSincTable();
+    const output = new Float32Array(Math.floor(samples.length * ratio));
+
+    for (let i = 0; i < output.length; i++) {
+        const center = i / ratio;
+        const first = Math.max(0, Math.ceil(center - halfWidth));
+        const last = Math.min(samples.length - 1, Math.floor(center + halfWidth));
+        let sum = 0;
+        let weightSum = 0;
+        for (let j = first; j <= last; j++) {
+            const weight = table[Math.round(Math.abs(j - center) * cutoff * SINC_TABLE_RESOLUTION)];
+            sum += samples[j] * weight;
+            weightSum += weight;
+        }
+        output[i] = weightSum !== 0 ? sum / weightSum : 0;
+    }
+    return output;
+};
+
+// モノラルの16bit PCM WAVファイルを作成
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+    const dataSize = samples.length * 2;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+    const writeTag = (offset: number, tag: string) => {
+        for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+    };
+
+    writeTag(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeTag(8, 'WAVE');
+    writeTag(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // モノラル
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * 2, true);
+    view.setUint16(32, 2, true);
+    view.setUint16(34, 16, true);
+    writeTag(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    for (let i = 0; i < samples.length; i++) {
+        const sample = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    }
+    return buffer;
+};
+
+// デコード済みの各チャンネルから処理済み音声（16kHzモノラルのWAV）を作成
+export const preprocessAudio = (
+    channels: Float32Array[],
+    sampleRate: number,
+    options: PreprocessOptions
+): ArrayBuffer => {
+    const trimSamples = Math.min(channels[0].length, Math.round(options.trimSeconds * sampleRate));
+    const trimmed = channels.map(data => data.subarray(trimSamples));
+    const mono = downmixChannels(trimmed, options.downmixMode);
+    return encodeWav(resample(mono, sampleRate, PROCESSED_SAMPLE_RATE), PROCESSED_SAMPLE_RATE);
+};
@@ -0,0 +1,251 @@
+import {
+    ConversationLabelDefinition,
+    DialogueActDefinition,
+    DialogueAnnotation,
+    IntentDefinition,
+    ProjectConfig,
+    RequiredFields,
+    SlotConstraintPolicy,
+    SlotDefinition,
+    SlotType,
+    SlotValue
+} from '../types';
+import { IntentTreeNode, flattenIntentTree } from './intentUtils.ts';
+import { hasConversationLabelValue } from './conversationLabelUtils.ts';
+
+export const DEFAULT_EXPORT_FILE_NAME = 'annotations.csv';
+
+export const SLOT_TYPE_LABELS: Record<SlotType, string> = {
+    text: '自由記述',
+    enum: '選択肢',
+    integer: '整数',
+    date: '日付',
+    time: '時刻',
+    phone: '電話番号',
+    regex: '正規表現'
+};
+
+// 旧形式のintent.txt・slot.txt・speakers.txtから読み込んだ一覧
+export interface LegacyLists {
+    intents?: string[];
+    slots?: string[];
+    speakers?: string[];
+}
+
+// 手書きのproject.jsonでは名前だけの配列や、childrenによるインテントの階層も受け付ける
+type RawProjectConfig = Omit<ProjectConfig, 'intents' | 'slots' | 'dialogueActs' | 'conversationLabels'> & {
+    intents?: IntentTreeNode[];
+    slots?: (string | SlotDefinition)[];
+    dialogueActs?: (string | DialogueActDefinition)[];
+    conversationLabels?: (string | ConversationLabelDefinition)[];
+};
+
+/**
+ * project.jsonの内容を読み込み、省略されたインテント・スロット・話者ロールを旧形式の一覧で補う。
+ */
+export const normalizeProjectConfig = (raw: RawProjectConfig, legacy: LegacyLists = {}): ProjectConfig => {
+    const { intents, slots, speakers, dialogueActs, conversationLabels, ...rest } = raw;
+    return {
+        ...rest,
+        ...(intents || legacy.intents ? {
+            intents: flattenIntentTree(intents || legacy.intents!)
+        } : {}),
+        ...(slots || legacy.slots ? {
+            slots: (slots || legacy.slots!).map(slot =>
+                typeof slot === 'string' ? { key: slot } : slot
+            )
+        } : {}),
+        ...(speakers || legacy.speakers ? { speakers: speakers || legacy.speakers } : {}),
+        ...(dialogueActs ? {
+            dialogueActs: dialogueActs.map(act => (typeof act === 'string' ? { name: act } : act))
+        } : {}),
+        ...(conversationLabels ? {
+            conversationLabels: conversationLabels.map(label =>
+                typeof label === 'string' ? { key: label, type: 'text' as const } : label
+            )
+        } : {})
+    };
+};
+
+export const getIntentNames = (config: ProjectConfig): string[] =>
+    (config.intents || []).map(intent => intent.name);
+
+export const getSlotKeys = (config: ProjectConfig): string[] =>
+    (config.slots || []).map(slot => slot.key);
+
+export const getIntentDefinition = (intents: IntentDefinition[] | undefined, name: string | undefined) =>
+    name ? (intents || []).find(intent => intent.name === name) : undefined;
+
+export const hasRequiredFields = (required: RequiredFields | undefined): boolean =>
+    !!required && (!!required.speaker || !!required.turnIntent || !!required.dialogueIntent ||
+        (required.dialogueSlots || []).length > 0 || (required.conversationLabels || []).length > 0);
+
+// 保存前に空の項目を除き、省略可能な項目の空の値を取り除く
+export const cleanProjectConfig = (config: ProjectConfig): ProjectConfig => {
+    const intents = (config.intents || [])
+        .filter(intent => intent.name.trim())
+        .map(({ name, reading, synonyms, description, examples, requiredSlots, optionalSlots }) => ({
+            name: name.trim(),
+            ...(reading?.trim() ? { reading: reading.trim() } : {}),
+            ...(synonyms && synonyms.length > 0 ? { synonyms } : {}),
+            ...(description?.trim() ? { description: description.trim() } : {}),
+            ...(examples && examples.length > 0 ? { examples } : {}),
+            ...(requiredSlots && requiredSlots.length > 0 ? { requiredSlots } : {}),
+            ...(optionalSlots && optionalSlots.length > 0 ? { optionalSlots } : {})
+        }));
+    const slots = (config.slots || [])
+        .filter(slot => slot.key.trim())
+        .map(({ key, type, values, pattern, description }) => ({
+            key: key.trim(),
+            ...(type && type !== 'text' ? { type } : {}),
+            ...(type === 'enum' && values && values.length > 0 ? { values } : {}),
+            ...(type === 'regex' && pattern ? { pattern } : {}),
+            ...(description?.trim() ? { description: description.trim() } : {})
+        }));
+    const speakers = (config.speakers || []).map(speaker => speaker.trim()).filter(speaker => speaker);
+    const dialogueActs = (config.dialogueActs || [])
+        .filter(act => act.name.trim())
+        .map(({ name, argument, description }) => ({
+            name: name.trim(),
+            ...(argument ? { argument } : {}),
+            ...(description?.trim() ? { description: description.trim() } : {})
+        }));
+    const conversationLabels = (config.conversationLabels || [])
+        .filter(label => label.key.trim())
+        .map(({ key, type, values, max, description }) => ({
+            key: key.trim(),
+            type,
+            ...(type === 'select' && values && values.length > 0 ? { values } : {}),
+            ...(type === 'rating' && max ? { max } : {}),
+            ...(description?.trim() ? { description: description.trim() } : {})
+        }));
+    const {
+        required,
+        export: exportPreferences,
+        slotConstraintPolicy,
+        dialogueActs: _dialogueActs,
+        conversationLabels: _conversationLabels,
+        ...rest
+    } = config;
+    return {
+        ...rest,
+        ...(slotConstraintPolicy === 'block' ? { slotConstraintPolicy } : {}),
+        intents,
+        slots,
+        ...(speakers.length > 0 ? { speakers } : {}),
+        ...(dialogueActs.length > 0 ? { dialogueActs } : {}),
+        ...(conversationLabels.length > 0 ? { conversationLabels } : {}),
+        ...(hasRequiredFields(required) ? { required } : {}),
+        ...(exportPreferences && Object.values(exportPreferences).some(value => value) ? { export: exportPreferences } : {})
+    };
+};
+
+// インテントでスロットを制限しているか（必須・任意のスロットのどちらかを宣言しているか）
+export const hasSlotConstraints = (intent: IntentDefinition | undefined): intent is IntentDefinition =>
+    !!intent && ((intent.requiredSlots || []).length > 0 || (intent.optionalSlots || []).length > 0);
+
+export const isSlotAllowed = (intent: IntentDefinition | undefined, key: string): boolean =>
+    !hasSlotConstraints(intent) ||
+    (intent.requiredSlots || []).includes(key) ||
+    (intent.optionalSlots || []).includes(key);
+
+export const findMissingRequiredSlots = (intent: IntentDefinition | undefined, slots: SlotValue[]): string[] =>
+    (intent?.requiredSlots || []).filter(key => !slots.some(slot => slot.key === key && slot.value));
+
+/**
+ * 複数のインテントを持つターンで、各インテントの必須スロットのうち入力されていないものを返す。
+ * 別のインテントに割り当てたスロットは数えない。
+ */
+export const findMissingRequiredSlotsByIntent = (
+    intents: IntentDefinition[] | undefined,
+    turnIntents: string[],
+    slots: SlotValue[]
+): { intent: string; key: string }[] =>
+    turnIntents.flatMap(name =>
+        findMissingRequiredSlots(
+            getIntentDefinition(intents, name),
+            slots.filter(slot => !slot.intent || slot.intent === name)
+        ).map(key => ({ intent: name, key }))
+    );
+
+/**
+ * 複数のインテントの必須・任意のスロットをまとめる。
+ * スロットを制限していないインテントが含まれる場合はどのスロットも想定内とするため、undefinedを返す。
+ */
+export const mergeIntentDefinitions = (definitions: (IntentDefinition | undefined)[]): IntentDefinition | undefined => {
+    if (definitions.length === 0 || !definitions.every(hasSlotConstraints)) return undefined;
+    if (definitions.length === 1) return definitions[0];
+    const requiredSlots = Array.from(new Set(definitions.flatMap(definition => definition.requiredSlots || [])));
+    return {
+        name: definitions.map(definition => definition.name).join(', '),
+        requiredSlots,
+        optionalSlots: Array.from(new Set(definitions.flatMap(definition => definition.optionalSlots || [])))
+            .filter(key => !requiredSlots.includes(key))
+    };
+};
+
+/**
+ * スロットキーをインテントで想定されている順（必須、任意、その他）に並べる。
+ * 想定外のスロットはblockの場合は除く。
+ */
+export const sortSlotKeysForIntent = (
+    keys: string[],
+    intent: IntentDefinition | undefined,
+    policy: SlotConstraintPolicy = 'warn'
+): string[] => {
+    if (!hasSlotConstraints(intent)) return keys;
+    const required = (intent.requiredSlots || []).filter(key => keys.includes(key));
+    const optional = (intent.optionalSlots || []).filter(key => keys.includes(key) && !required.includes(key));
+    const others = policy === 'block' ? [] : keys.filter(key => !required.includes(key) && !optional.includes(key));
+    return [...required, ...optional, ...others];
+};
+
+// 名前が重複している項目を返す
+export const findDuplicateNames = (names: string[]): string[] =>
+    Array.from(new Set(names.filter((name, index) => name && names.indexOf(name) !== index)));
+
+/**
+ * project.jsonの必須項目のうち、アノテーションで未入力のものを返す（下書きのターンは対象外）。
+ */
+export const findMissingRequiredFields = (
+    annotation: DialogueAnnotation,
+    required: RequiredFields | undefined
+): string[] => {
+    if (!required || !hasRequiredFields(required)) return [];
+    const missing: string[] = [];
+    const turns = annotation.turns.filter(turn => !turn.isDraft);
+
+    if (turns.length === 0) {
+        missing.push('ターン');
+    }
+    turns.forEach((turn, index) => {
+        if (required.speaker && !turn.speaker) {
+            missing.push(`ターン${index + 1}の話者`);
+        }
+        if (required.turnIntent && !turn.intent) {
+            missing.push(`ターン${index + 1}のインテント`);
+        }
+    });
+    if (required.dialogueIntent && !annotation.intent) {
+        missing.push('対話全体のインテント');
+    }
+    (required.dialogueSlots || []).forEach(key => {
+        if (!annotation.dialogueSlots.some(slot => slot.key === key && slot.value)) {
+            missing.push(`対話全体のスロット「${key}」`);
+        }
+    });
+    (required.conversationLabels || []).forEach(key => {
+        if (!hasConversationLabelValue(annotation.labels?.[key])) {
+            missing.push(`会話の属性「${key}」`);
+        }
+    });
+    return missing;
+};
+
+/**
+ * 完了した会話か（必須項目を指定している場合はすべて入力されているか、指定していない場合はインテントが設定されているか）。
+ */
+export const isAnnotationCompleted = (annotation: DialogueAnnotation, required: RequiredFields | undefined): boolean =>
+    hasRequiredFields(required)
+        ? findMissingRequiredFields(annotation, required).length === 0
+        : !!annotation.intent || annotation.turns.some(turn => turn.intent);
@@ -0,0 +1,49 @@
+import { DialogueAnnotation, ReviewFlag } from '../types';
+
+export interface ReviewFlagDefinition {
+    flag: ReviewFlag;
+    label: string;
+    // バッジの色
+    color: string;
+}
+
+export const REVIEW_FLAGS: ReviewFlagDefinition[] = [
+    { flag: 'inaudible', label: '聞き取り不可', color: '#d32f2f' },
+    { flag: 'overlap', label: '重なり', color: '#7b1fa2' },
+    { flag: 'uncertainIntent', label: 'インテント不確か', color: '#ed6c02' },
+    { flag: 'noise', label: '雑音', color: '#616161' },
+    { flag: 'needsReview', label: '要確認', color: '#0288d1' }
+];
+
+export const getReviewFlagDefinition = (flag: ReviewFlag): ReviewFlagDefinition =>
+    REVIEW_FLAGS.find(item => item.flag === flag) || { flag, label: flag, color: '#616161' };
+
+// 印の有無を切り替える（REVIEW_FLAGSの順に並べる）
+export const toggleReviewFlag = (flags: ReviewFlag[] | undefined, flag: ReviewFlag): ReviewFlag[] => {
+    const current = flags || [];
+    const next = current.includes(flag) ? current.filter(item => item !== flag) : [...current, flag];
+    return REVIEW_FLAGS.map(item => item.flag).filter(item => next.includes(item));
+};
+
+// コメントと印を設定する（空の場合は項目を外す）
+export const setReviewNotes = <T extends { comment?: string; flags?: ReviewFlag[] }>(
+    target: T,
+    notes: { comment?: string; flags?: ReviewFlag[] }
+): T => {
+    const { comment: _comment, flags: _flags, ...rest } = target;
+    const comment = notes.comment !== undefined ? notes.comment.trim() : target.comment;
+    const flags = notes.flags !== undefined ? notes.flags : target.flags;
+    return {
+        ...rest,
+        ...(comment ? { comment } : {}),
+        ...(flags && flags.length > 0 ? { flags } : {})
+    } as T;
+};
+
+// 会話全体と各ターンに付いている印（会話一覧の絞り込みに使う）
+export const getAnnotationFlags = (annotation: DialogueAnnotation | undefined): ReviewFlag[] => {
+    if (!annotation) return [];
+    const flags = new Set<ReviewFlag>(annotation.flags || []);
+    annotation.turns.forEach(turn => (turn.flags || []).forEach(flag => flags.add(flag)));
+    return REVIEW_FLAGS.map(item => item.flag).filter(flag => flags.has(flag));
+};
@@ -0,0 +1,44 @@
+import { ScanIssue, ScanIssueCategory, ScanIssueSeverity } from '../types';
+
+export const SCAN_ISSUE_CATEGORY_LABELS: Record<ScanIssueCategory, string> = {
+    skippedFolder: 'スキップしたフォルダ',
+    csvParseError: 'CSVの解析エラー',
+    audioError: '音声ファイルの問題',
+    duplicateId: 'IDの重複'
+};
+
+export const SCAN_ISSUE_SEVERITY_LABELS: Record<ScanIssueSeverity, string> = {
+    error: '読み込み対象外',
+    warning: '要確認'
+};
+
+// データ担当者がそのまま修正作業に使えるよう、問題を1行ずつ並べたテキスト
+export const formatScanReportText = (issues: ScanIssue[], conversationCount: number): string => {
+    const lines = [
+        'スキャンレポート',
+        `読み込んだ会話: ${conversationCount}件`,
+        `読み込み対象外: ${issues.filter(issue => issue.severity === 'error').length}件`,
+        `要確認: ${issues.filter(issue => issue.severity === 'warning').length}件`,
+        ''
+    ];
+    issues.forEach(issue => {
+        const row = issue.row !== undefined ? ` (${issue.row}行目)` : '';
+        lines.push(
+            `[${SCAN_ISSUE_SEVERITY_LABELS[issue.severity]}] [${SCAN_ISSUE_CATEGORY_LABELS[issue.category]}] ${issue.path}${row}: ${issue.message}`
+        );
+    });
+    return lines.join('\n') + '\n';
+};
+
+export const formatScanReportCsv = (issues: ScanIssue[]): string => {
+    const escape = (value: string) =>
+        value.includes(',') || value.includes('"') || value.includes('\n') ? `"${value.replace(/"/g, '""')}"` : value;
+    const rows = issues.map(issue => [
+        issue.severity,
+        issue.category,
+        issue.path,
+        issue.row !== undefined ? String(issue.row) : '',
+        issue.message
+    ].map(escape).join(','));
+    return ['severity,category,path,row,message', ...rows].join('\n') + '\n';
+};
@@ -0,0 +1,152 @@
+import { KeyBindings, ShortcutAction, UserSettings } from '../types';
+import { DEFAULT_VAD_PARAMS } from './vadUtils.ts';
+
+const SETTINGS_STORAGE_KEY = 'annotation-tool-settings';
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+    togglePlayPause: 'Space',
+    seekBackward: 'ArrowLeft',
+    seekForward: 'ArrowRight',
+    seekBackwardLarge: 'Shift+ArrowLeft',
+    seekForwardLarge: 'Shift+ArrowRight',
+    toggleAnnotationMode: 'a',
+    setStartMarker: 's',
+    setEndMarker: 'e',
+    confirmSegment: 'Enter',
+    previousTurn: 'ArrowUp',
+    nextTurn: 'ArrowDown',
+    previousConversation: 'PageUp',
+    nextConversation: 'PageDown',
+    undo: 'Ctrl+z',
+    redo: 'Ctrl+Shift+z',
+    showShortcutHelp: '?'
+};
+
+// チートシートに表示する操作名（表示順もこの順）
+export const SHORTCUT_ACTION_LABELS: Record<ShortcutAction, string> = {
+    togglePlayPause: '再生 / 一時停止',
+    seekBackward: '再生位置を戻す',
+    seekForward: '再生位置を進める',
+    seekBackwardLarge: '再生位置を大きく戻す',
+    seekForwardLarge: '再生位置を大きく進める',
+    toggleAnnotationMode: 'アノテーション開始 / 終了',
+    setStartMarker: '現在位置に発話開始マーカーを設定',
+    setEndMarker: '現在位置に発話終了マーカーを設定',
+    confirmSegment: 'マーカー位置を確定',
+    previousTurn: '前のターンへ移動',
+    nextTurn: '次のターンへ移動',
+    previousConversation: '前の会話へ移動',
+    nextConversation: '次の会話へ移動',
+    undo: '元に戻す',
+    redo: 'やり直し',
+    showShortcutHelp: 'ショートカット一覧を表示'
+};
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    seekStep: 0.1,
+    largeSeekStep: 1.0,
+    spectrogram: {
+        enabled: false,
+        fftSize: 512,
+        colorMap: 'viridis',
+        melScale: false
+    },
+    vad: DEFAULT_VAD_PARAMS,
+    stereoView: false,
+    exportTimeBase: 'processed'
+};
+
+// localStorageからユーザー設定を読み込む（未保存の項目はデフォルト値で補完）
+export const loadUserSettings = (): UserSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (!stored) return DEFAULT_USER_SETTINGS;
+
+        const parsed = JSON.parse(stored);
+        return {
+            ...DEFAULT_USER_SETTINGS,
+            ...parsed,
+            keyBindings: {
+                ...DEFAULT_KEY_BINDINGS,
+                ...(parsed.keyBindings || {})
+            },
+            spectrogram: {
+                ...DEFAULT_USER_SETTINGS.spectrogram,
+                ...(parsed.spectrogram || {})
+            },
+            vad: {
+                ...DEFAULT_VAD_PARAMS,
+                ...(parsed.vad || {})
+            }
+        };
+    } catch (error) {
+        console.warn('Failed to load user settings:', error);
+        return DEFAULT_USER_SETTINGS;
+    }
+};
+
+export const saveUserSettings = (settings: UserSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Failed to save user settings:', error);
+    }
+};
+
+/**
+ * キーボードイベントをキーバインド文字列に変換する。
+ * 例: Ctrl+Shift+z, Shift+ArrowLeft, Space, ?
+ * Macの⌘キーはCtrlとして扱う。記号はShiftを含んだ文字そのもので表す。
+ */
+export const eventToKeyString = (
+    event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string => {
+    let key = event.key;
+    if (key === ' ') {
+        key = 'Space';
+    } else if (key.length === 1) {
+        key = key.toLowerCase();
+    }
+
+    const modifiers: string[] = [];
+    if (event.ctrlKey || event.metaKey) modifiers.push('Ctrl');
+    if (event.altKey) modifiers.push('Alt');
+    // 記号キーはShiftの有無が文字自体に反映されるため修飾キーとして扱わない
+    if (event.shiftKey && (key.length > 1 || /[a-z0-9]/.test(key))) modifiers.push('Shift');
+
+    return [...modifiers, key].join('+');
+};
+
+// 表示用にキーバインド文字列を整形
+export const formatKeyString = (keyString: string): string =>
+    keyString
+        .split('+')
+        .map(part => {
+            switch (part) {
+                case 'ArrowLeft': return '←';
+                case 'ArrowRight': return '→';
+                case 'ArrowUp': return '↑';
+                case 'ArrowDown': return '↓';
+                default: return part.length === 1 ? part.toUpperCase() : part;
+            }
+        })
+        .join(' + ');
+
+// テキスト入力中・スライダー操作中かどうか（矢印キーなどが入力と重ならないよう、ショートカットを無効にする）
+// MUIのSliderは非表示のrange入力にフォーカスが当たる
+export const isTextInputTarget = (target: EventTarget | null): boolean => {
+    if (!(target instanceof HTMLElement)) return false;
+    if (target.isContentEditable) return true;
+    if (target.getAttribute('role') === 'slider') return true;
+    if (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return true;
+    if (target.tagName === 'INPUT') {
+        const type = (target as HTMLInputElement).type;
+        return !['checkbox', 'radio', 'button'].includes(type);
+    }
+    return false;
+};
+
+// モーダルのダイアログが開いているか（開いている間はショートカットを無効にする）
+export const isModalDialogOpen = (): boolean =>
+    document.querySelector('[role="dialog"][aria-modal="true"]') !== null;
@@ -0,0 +1,72 @@
+import { normalizeDate, normalizeTime, validateSlotValue } from './slotUtils.ts';
+
+describe('normalizeDate', () => {
+    it('相対的な日付を基準日から決める', () => {
+        expect(normalizeDate('明日', '2026-10-19')).toBe('2026-10-20');
+        expect(normalizeDate('一昨日', '2026-10-19')).toBe('2026-10-17');
+        expect(normalizeDate('3日後', '2026-10-30')).toBe('2026-11-02');
+        // 2026-10-19は月曜
+        expect(normalizeDate('来週の水曜', '2026-10-19')).toBe('2026-10-28');
+    });
+
+    it('年を省略した日付が基準日より前なら翌年、日だけなら翌月とみなす', () => {
+        expect(normalizeDate('5月1日', '2026-06-01')).toBe('2027-05-01');
+        expect(normalizeDate('3月2日', '2026-03-02')).toBe('2026-03-02');
+        expect(normalizeDate('5日', '2026-12-20')).toBe('2027-01-05');
+        expect(normalizeDate('２０日', '2026-10-19')).toBe('2026-10-20');
+    });
+
+    it('時刻を含む場合は日時で返す', () => {
+        expect(normalizeDate('明日の3時', '2026-10-19')).toBe('2026-10-20T15:00');
+    });
+
+    it('存在しない日付は翌月に繰り越さずnullを返す', () => {
+        expect(normalizeDate('2月30日', '2026-01-10')).toBeNull();
+        expect(normalizeDate('4月31日', '2025-04-01')).toBeNull();
+        expect(normalizeDate('13月5日', '2025-06-01')).toBeNull();
+        // 4月は30日まで
+        expect(normalizeDate('31日', '2026-04-10')).toBeNull();
+        expect(normalizeDate('2027年2月29日', '2026-01-01')).toBeNull();
+        expect(normalizeDate('2028年2月29日', '2026-01-01')).toBe('2028-02-29');
+    });
+
+    it('基準日が正しくない場合や読み取れない場合はnullを返す', () => {
+        expect(normalizeDate('明日', '2026/10/19')).toBeNull();
+        expect(normalizeDate('そのうち', '2026-10-19')).toBeNull();
+    });
+});
+
+describe('normalizeTime', () => {
+    it('午前・午後の指定が無い1〜7時は午後とみなす', () => {
+        expect(normalizeTime('3時半')).toBe('15:30');
+        expect(normalizeTime('午前9時')).toBe('09:00');
+        expect(normalizeTime('15:30')).toBe('15:30');
+        expect(normalizeTime('25時')).toBeNull();
+    });
+});
+
+describe('validateSlotValue', () => {
+    it('日付型は正規化した値を返し、存在しない日付はエラーにする', () => {
+        expect(validateSlotValue({ key: '日付', type: 'date' }, '明日', '2026-10-19')).toEqual({ normalized: '2026-10-20' });
+        expect(validateSlotValue({ key: '日付', type: 'date' }, '2月30日', '2026-01-10').error).toBeDefined();
+    });
+
+    it('選択肢は全角・半角と大文字・小文字の違いを無視して一致させる', () => {
+        const definition = { key: '席', type: 'enum' as const, values: ['VIP', '一般'] };
+        expect(validateSlotValue(definition, 'ｖｉｐ')).toEqual({ normalized: 'VIP' });
+        expect(validateSlotValue(definition, '特別').error).toBeDefined();
+    });
+
+    it('整数・電話番号・正規表現の型を検証する', () => {
+        expect(validateSlotValue({ key: '人数', type: 'integer' }, '３人')).toEqual({ normalized: '3' });
+        expect(validateSlotValue({ key: '電話', type: 'phone' }, '+81 90-1234-5678')).toEqual({ normalized: '09012345678' });
+        expect(validateSlotValue({ key: '電話', type: 'phone' }, '1234').error).toBeDefined();
+        expect(validateSlotValue({ key: '番号', type: 'regex', pattern: '[A-Z]\\d{3}' }, 'A123')).toEqual({ normalized: 'A123' });
+        expect(validateSlotValue({ key: '番号', type: 'regex', pattern: '(' }, 'A123').error).toBeDefined();
+    });
+
+    it('空の値はエラー、スキーマに無いスロットは自由記述として受け付ける', () => {
+        expect(validateSlotValue(undefined, '  ').error).toBeDefined();
+        expect(validateSlotValue(undefined, '窓側')).toEqual({});
+    });
+});
@@ -0,0 +1,217 @@
+import { SlotDefinition } from '../types';
+
+export interface SlotValidationResult {
+    // 正規化した値（自由記述のスロットでは無し）
+    normalized?: string;
+    error?: string;
+}
+
+const KANJI_DIGITS: Record<string, number> = {
+    '〇': 0, '零': 0, '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9
+};
+const KANJI_UNITS: Record<string, number> = { '十': 10, '百': 100, '千': 1000 };
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// 全角の英数字・記号を半角に変換
+export const toHalfWidth = (text: string) =>
+    text.replace(/[！-～]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0)).replace(/　/g, ' ');
+
+// 万未満の漢数字を数値に変換（「二十三」「二〇」のどちらの書き方も受け付ける）
+export const parseKanjiNumber = (text: string): number | null => {
+    if (!/^[〇零一二三四五六七八九十百千]+$/.test(text)) return null;
+    let total = 0;
+    let current = 0;
+    for (const char of text) {
+        if (char in KANJI_DIGITS) {
+            current = current * 10 + KANJI_DIGITS[char];
+        } else {
+            total += (current || 1) * KANJI_UNITS[char];
+            current = 0;
+        }
+    }
+    return total + current;
+};
+
+// 全角数字・漢数字を半角数字にそろえる
+const normalizeDigits = (text: string) =>
+    toHalfWidth(text).replace(/[〇零一二三四五六七八九十百千]+/g, match => String(parseKanjiNumber(match)));
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatDate = (date: Date) =>
+    `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+export const getTodayDateString = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const parseDateString = (text: string): Date | null => {
+    const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+};
+
+// 年・月（0始まり）・日から日付を作る（2月30日などの存在しない日付は翌月に繰り越さずnull）
+const createDate = (year: number, monthIndex: number, day: number): Date | null => {
+    const date = new Date(Date.UTC(year, monthIndex, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === monthIndex && date.getUTCDate() === day ? date : null;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+export const normalizeInteger = (text: string): string | null => {
+    const match = normalizeDigits(text).replace(/[,\s]/g, '').match(/^(-?\d+)\D*$/);
+    return match ? String(parseInt(match[1], 10)) : null;
+};
+
+/**
+ * 「15:30」「3時半」「午後3時」などをHH:MMに変換する。
+ * 午前・午後の指定が無い1〜7時は午後とみなす（予約の会話で早朝・深夜の時刻はまれなため）。
+ */
+export const normalizeTime = (text: string): string | null => {
+    const normalized = normalizeDigits(text);
+    if (normalized.includes('正午')) return '12:00';
+
+    let hour: number;
+    let minute = 0;
+    const colonMatch = normalized.match(/(\d{1,2}):(\d{2})/);
+    const kanjiMatch = normalized.match(/(\d{1,2})時(?:(\d{1,2})分|(半))?/);
+    if (colonMatch) {
+        hour = Number(colonMatch[1]);
+        minute = Number(colonMatch[2]);
+    } else if (kanjiMatch) {
+        hour = Number(kanjiMatch[1]);
+        minute = kanjiMatch[3] ? 30 : Number(kanjiMatch[2] || 0);
+    } else {
+        return null;
+    }
+
+    const isAm = /午前|朝|AM/i.test(normalized);
+    const isPm = /午後|夕方|夜|晩|PM/i.test(normalized);
+    if ((isPm || (!isAm && hour >= 1 && hour <= 7)) && hour < 12) {
+        hour += 12;
+    } else if (isAm && hour === 12) {
+        hour = 0;
+    }
+    if (hour > 23 || minute > 59) return null;
+    return `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * 「明日」「来週の月曜」「5月1日」などを基準日（YYYY-MM-DD）から見た日付に変換する。
+ * 年を省略した日付が基準日より前の場合は翌年、日だけの場合は翌月とみなす。
+ * 時刻も含む場合（「明日の3時」）はYYYY-MM-DDTHH:MMで返す。
+ */
+export const normalizeDate = (text: string, referenceDate: string): string | null => {
+    const reference = parseDateString(referenceDate);
+    if (!reference) return null;
+    // 「一昨日」の「一」などを数字に変えないよう、語句の判定には元の表記を使う
+    const plain = toHalfWidth(text);
+    const normalized = normalizeDigits(text);
+    let date: Date | null = null;
+
+    const fullMatch = normalized.match(/(\d{4})[-/年](\d{1,2})[-/月](\d{1,2})/);
+    const monthDayMatch = normalized.match(/(\d{1,2})[/月](\d{1,2})/);
+    const daysLaterMatch = normalized.match(/(\d+)(日|週間)後/);
+    const weekdayMatch = plain.match(/(今週|来週|再来週)?の?([日月火水木金土])曜/);
+    const dayMatch = normalized.match(/(\d{1,2})日/);
+
+    if (fullMatch) {
+        date = createDate(Number(fullMatch[1]), Number(fullMatch[2]) - 1, Number(fullMatch[3]));
+    } else if (monthDayMatch) {
+        const month = Number(monthDayMatch[1]) - 1;
+        const day = Number(monthDayMatch[2]);
+        const isPast = month < reference.getUTCMonth() || (month === reference.getUTCMonth() && day < reference.getUTCDate());
+        date = createDate(reference.getUTCFullYear() + (isPast ? 1 : 0), month, day);
+    } else if (/明後日|あさって/.test(plain)) {
+        date = addDays(reference, 2);
+    } else if (/一昨日|おととい/.test(plain)) {
+        date = addDays(reference, -2);
+    } else if (/明日|あした|あす/.test(plain)) {
+        date = addDays(reference, 1);
+    } else if (/昨日|きのう/.test(plain)) {
+        date = addDays(reference, -1);
+    } else if (/今日|本日|きょう/.test(plain)) {
+        date = reference;
+    } else if (daysLaterMatch) {
+        date = addDays(reference, Number(daysLaterMatch[1]) * (daysLaterMatch[2] === '週間' ? 7 : 1));
+    } else if (weekdayMatch) {
+        const weekday = WEEKDAYS.indexOf(weekdayMatch[2]);
+        const referenceWeekday = reference.getUTCDay();
+        if (weekdayMatch[1]) {
+            // 週は月曜始まりとする
+            const monday = addDays(reference, -((referenceWeekday + 6) % 7));
+            const weeks = { '今週': 0, '来週': 1, '再来週': 2 }[weekdayMatch[1]] || 0;
+            date = addDays(monday, weeks * 7 + (weekday + 6) % 7);
+        } else {
+            date = addDays(reference, (weekday - referenceWeekday + 7) % 7);
+        }
+    } else if (dayMatch) {
+        const day = Number(dayMatch[1]);
+        const isPast = day < reference.getUTCDate();
+        // 12月の翌月は翌年の1月
+        const month = new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() + (isPast ? 1 : 0), 1));
+        date = createDate(month.getUTCFullYear(), month.getUTCMonth(), day);
+    }
+
+    if (!date || isNaN(date.getTime())) return null;
+    const time = normalizeTime(text);
+    return time ? `${formatDate(date)}T${time}` : formatDate(date);
+};
+
+// ハイフン・空白を除いた数字のみの電話番号に変換する（+81は0に置き換える）
+export const normalizePhoneNumber = (text: string): string | null => {
+    const digits = toHalfWidth(text).replace(/[\s\-‐－ー()（）]/g, '').replace(/^\+81/, '0');
+    return /^0\d{9,10}$/.test(digits) ? digits : null;
+};
+
+/**
+ * スキーマの型に従ってスロットの値（発話どおりの表記）を検証し、正規化した値を返す。
+ * スキーマに無いスロットは自由記述として扱う。
+ */
+export const validateSlotValue = (
+    definition: SlotDefinition | undefined,
+    value: string,
+    referenceDate: string = getTodayDateString()
+): SlotValidationResult => {
+    const text = value.trim();
+    if (!text) return { error: '値を入力してください' };
+
+    switch (definition?.type) {
+        case 'enum': {
+            const values = definition.values || [];
+            const match = values.find(option => option === text) ||
+                values.find(option => toHalfWidth(option).toLowerCase() === toHalfWidth(text).toLowerCase());
+            return match !== undefined
+                ? { normalized: match }
+                : { error: `選択肢（${values.join('、')}）にありません` };
+        }
+        case 'integer': {
+            const normalized = normalizeInteger(text);
+            return normalized !== null ? { normalized } : { error: '整数として読み取れません' };
+        }
+        case 'date': {
+            const normalized = normalizeDate(text, referenceDate);
+            return normalized !== null ? { normalized } : { error: '日付として読み取れません（例: 5月1日、明日、来週の月曜）' };
+        }
+        case 'time': {
+            const normalized = normalizeTime(text);
+            return normalized !== null ? { normalized } : { error: '時刻として読み取れません（例: 15:30、3時半、午後3時）' };
+        }
+        case 'phone': {
+            const normalized = normalizePhoneNumber(text);
+            return normalized !== null ? { normalized } : { error: '電話番号として読み取れません（0から始まる10〜11桁）' };
+        }
+        case 'regex': {
+            try {
+                return new RegExp(`^(?:${definition.pattern || ''})$`).test(text)
+                    ? { normalized: text }
+                    : { error: `形式（${definition.pattern}）に一致しません` };
+            } catch {
+                return { error: `スロット「${definition.key}」の正規表現が正しくありません` };
+            }
+        }
+        default:
+            return {};
+    }
+};
@@ -0,0 +1,70 @@
+import { getLogRowRanges, relocateSlotSpans, toBioTags, tokenizeText } from './spanUtils.ts';
+
+describe('tokenizeText', () => {
+    it('英数字の連続を1トークン、それ以外を1文字ずつに分け、空白は除く', () => {
+        expect(tokenizeText('TEL 0901234 明日')).toEqual([
+            { text: 'TEL', start: 0, end: 3 },
+            { text: '0901234', start: 4, end: 11 },
+            { text: '明', start: 12, end: 13 },
+            { text: '日', start: 13, end: 14 }
+        ]);
+    });
+});
+
+describe('toBioTags', () => {
+    const text = 'TEL 0901234 明日の予約';
+
+    it('範囲の最初のトークンをB、続くトークンをI、それ以外をOにする', () => {
+        const slots = [
+            { key: '電話', value: '0901234', span: { start: 4, end: 11 } },
+            { key: '日付', value: '明日', span: { start: 12, end: 14 } },
+            { key: '用件', value: '予約' }
+        ];
+        expect(toBioTags(text, slots)).toEqual({
+            tokens: ['TEL', '0901234', '明', '日', 'の', '予', '約'],
+            tags: ['O', 'B-電話', 'B-日付', 'I-日付', 'O', 'O', 'O']
+        });
+    });
+
+    it('トークンの一部だけを含む範囲もそのトークンに付け、先に付けたタグは上書きしない', () => {
+        const slots = [
+            { key: '電話', value: '012', span: { start: 5, end: 8 } },
+            { key: '番号', value: '0901234', span: { start: 4, end: 11 } }
+        ];
+        expect(toBioTags(text, slots).tags.slice(0, 3)).toEqual(['O', 'B-電話', 'O']);
+    });
+});
+
+describe('relocateSlotSpans', () => {
+    it('範囲の文字列が値と一致する間はそのまま返す', () => {
+        const slots = [{ key: '日付', value: '明日', span: { start: 0, end: 2 } }];
+        expect(relocateSlotSpans(slots, '明日の予約')[0]).toBe(slots[0]);
+    });
+
+    it('一致しなくなった範囲を元の位置に最も近い同じ文字列に移す', () => {
+        const slots = [{ key: '日付', value: '明日', span: { start: 6, end: 8 } }];
+        expect(relocateSlotSpans(slots, '明日ではなく、明日の予約')).toEqual([
+            { key: '日付', value: '明日', span: { start: 7, end: 9 } }
+        ]);
+    });
+
+    it('値が見つからなければ範囲だけを外す', () => {
+        const slots = [{ key: '日付', value: '明日', normalized: '2026-10-20', span: { start: 0, end: 2 } }];
+        expect(relocateSlotSpans(slots, '明後日の予約')).toEqual([{ key: '日付', value: '明日', normalized: '2026-10-20' }]);
+    });
+
+    it('対話ログの行から作った書き起こしでは範囲を含む行を付け直す', () => {
+        const logs = [
+            { customerId: 'C1', conversationId: 'D1', text: 'はい' },
+            { customerId: 'C1', conversationId: 'D1', text: '明日でお願いします' }
+        ];
+        const transcript = 'はい 明日でお願いします';
+        const ranges = getLogRowRanges(transcript, logs, [0, 1]);
+        expect(ranges).toEqual([{ row: 0, start: 0, end: 2 }, { row: 1, start: 3, end: 12 }]);
+        expect(relocateSlotSpans([{ key: '日付', value: '明日', span: { start: 0, end: 2 } }], transcript, ranges)).toEqual([
+            { key: '日付', value: '明日', span: { start: 3, end: 5, row: 1 } }
+        ]);
+        // 書き起こしを編集して行のテキストと一致しない場合は行を持たない
+        expect(getLogRowRanges('はい、明日でお願いします', logs, [0, 1])).toEqual([]);
+    });
+});
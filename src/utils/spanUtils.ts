@@ -0,0 +1,139 @@
+import { ConversationLog, SlotSpan, SlotValue } from '../types';
+
+// 書き起こしの中で対話ログの行が占める範囲
+export interface LogRowRange {
+    row: number;
+    start: number;
+    end: number;
+}
+
+// 範囲の強調表示で使う、ある範囲と割り当てたスロット
+export interface TextPiece {
+    start: number;
+    end: number;
+    key?: string;
+    row?: number;
+}
+
+export interface BioToken {
+    text: string;
+    start: number;
+    end: number;
+}
+
+// スロットの範囲の表示色（スロット名から決める）
+const SLOT_SPAN_COLORS = ['#ffb300', '#43a047', '#1e88e5', '#e53935', '#8e24aa', '#00acc1', '#6d4c41', '#f4511e'];
+
+export const getSlotSpanColor = (key: string): string => {
+    const hash = Array.from(key).reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 0);
+    return SLOT_SPAN_COLORS[hash % SLOT_SPAN_COLORS.length];
+};
+
+/**
+ * 書き起こしが紐付けた行のテキストをつなげたもの（joinLogRowsText）の場合、各行が占める範囲を返す。
+ * 書き起こしを編集していて行のテキストと一致しない場合は空配列。
+ */
+export const getLogRowRanges = (transcript: string, logs: ConversationLog[], rows: number[]): LogRowRange[] => {
+    const ranges: LogRowRange[] = [];
+    let position = 0;
+    rows.forEach(row => {
+        const text = logs[row]?.text || '';
+        if (!text) return;
+        if (ranges.length > 0) position += 1;
+        ranges.push({ row, start: position, end: position + text.length });
+        position += text.length;
+    });
+    const joined = ranges.map(range => logs[range.row].text).join(' ');
+    return joined === transcript ? ranges : [];
+};
+
+// 範囲を含む対話ログの行（行をまたぐ場合は無し）
+const findRangeRow = (span: SlotSpan, ranges: LogRowRange[]): number | undefined =>
+    ranges.find(range => range.start <= span.start && span.end <= range.end)?.row;
+
+export const createSlotSpan = (start: number, end: number, ranges: LogRowRange[] = []): SlotSpan => {
+    const row = findRangeRow({ start, end }, ranges);
+    return row !== undefined ? { start, end, row } : { start, end };
+};
+
+// 他のスロットの範囲と重なるスロット（同じスロットは除く）
+export const findOverlappingSpanSlot = (slots: SlotValue[], span: SlotSpan, key: string): SlotValue | undefined =>
+    slots.find(slot => slot.key !== key && slot.span && slot.span.start < span.end && span.start < slot.span.end);
+
+/**
+ * 書き起こしが変わったときに、スロットの範囲を新しい書き起こしに合わせる。
+ * 範囲の文字列が値と一致しなくなった場合は、元の位置に最も近い同じ文字列に移し、見つからなければ範囲を外す（値は残す）。
+ */
+export const relocateSlotSpans = (slots: SlotValue[], transcript: string, ranges: LogRowRange[] = []): SlotValue[] =>
+    slots.map(slot => {
+        if (!slot.span) return slot;
+        const { span: previous, ...rest } = slot;
+        let start = transcript.slice(previous.start, previous.end) === slot.value ? previous.start : -1;
+        if (start < 0 && slot.value) {
+            for (let index = transcript.indexOf(slot.value); index >= 0; index = transcript.indexOf(slot.value, index + 1)) {
+                if (start < 0 || Math.abs(index - previous.start) < Math.abs(start - previous.start)) start = index;
+            }
+        }
+        if (start < 0) return rest;
+        const span = createSlotSpan(start, start + slot.value.length, ranges);
+        if (span.start === previous.start && span.end === previous.end && span.row === previous.row) return slot;
+        return { ...rest, span };
+    });
+
+/**
+ * 書き起こしを、スロットの範囲と対話ログの行の境目で区切る（強調表示用）。
+ */
+export const splitTextBySpans = (text: string, slots: SlotValue[], ranges: LogRowRange[] = []): TextPiece[] => {
+    const spans = slots
+        .filter(slot => slot.span && slot.span.end <= text.length)
+        .map(slot => ({ key: slot.key, start: slot.span!.start, end: slot.span!.end }));
+    const boundaries = Array.from(new Set([
+        0,
+        text.length,
+        ...spans.flatMap(span => [span.start, span.end]),
+        ...ranges.flatMap(range => [range.start, range.end])
+    ])).filter(position => position <= text.length).sort((a, b) => a - b);
+
+    const pieces: TextPiece[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+        const start = boundaries[i];
+        const end = boundaries[i + 1];
+        const key = spans.find(span => span.start <= start && end <= span.end)?.key;
+        const row = ranges.find(range => range.start <= start && end <= range.end)?.row;
+        pieces.push({
+            start,
+            end,
+            ...(key !== undefined ? { key } : {}),
+            ...(row !== undefined ? { row } : {})
+        });
+    }
+    return pieces;
+};
+
+// 英数字の連続は1トークン、それ以外（日本語など）は1文字を1トークンとする（空白は区切り）
+export const tokenizeText = (text: string): BioToken[] =>
+    Array.from(text.matchAll(/[A-Za-z0-9Ａ-Ｚａ-ｚ０-９]+|\S/gu)).map(match => ({
+        text: match[0],
+        start: match.index ?? 0,
+        end: (match.index ?? 0) + match[0].length
+    }));
+
+/**
+ * 書き起こしのトークンにスロットの範囲をBIO形式でタグ付けする。
+ * 範囲と重なるトークンのうち最初のものをB-スロット名、続くものをI-スロット名、それ以外をOとする。
+ */
+export const toBioTags = (text: string, slots: SlotValue[]): { tokens: string[]; tags: string[] } => {
+    const tokens = tokenizeText(text);
+    const tags = tokens.map(() => 'O');
+    slots.forEach(slot => {
+        if (!slot.span) return;
+        let inside = false;
+        tokens.forEach((token, index) => {
+            if (token.start < slot.span!.end && slot.span!.start < token.end && tags[index] === 'O') {
+                tags[index] = `${inside ? 'I' : 'B'}-${slot.key}`;
+                inside = true;
+            }
+        });
+    });
+    return { tokens: tokens.map(token => token.text), tags };
+};
@@ -0,0 +1,26 @@
+// speakers.txtが無い場合の話者ロール
+export const DEFAULT_SPEAKER_ROLES = ['オペレーター', '顧客'];
+
+// ロールの表示色（speakers.txtの並び順に割り当てる）
+const SPEAKER_COLORS = ['#1976d2', '#e91e63', '#7b1fa2', '#00897b', '#f57c00', '#5d4037'];
+
+// ロールに対応する表示色を取得（ロール未設定・未定義のロールはundefined）
+export const getSpeakerColor = (speaker: string | undefined, speakerRoles: string[]): string | undefined => {
+    if (!speaker) return undefined;
+    const index = speakerRoles.indexOf(speaker);
+    return index >= 0 ? SPEAKER_COLORS[index % SPEAKER_COLORS.length] : undefined;
+};
+
+// #rrggbb形式の色を透明度付きのrgba()に変換
+export const withAlpha = (hexColor: string, alpha: number): string => {
+    const value = parseInt(hexColor.slice(1), 16);
+    return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+// 対話ログの話者の値をロールに対応付ける（チャンネル番号の0・1はspeakers.txtの並び順のロールとみなす）
+export const resolveSpeakerRole = (value: string | undefined, speakerRoles: string[]): string | undefined => {
+    if (!value) return undefined;
+    if (speakerRoles.includes(value)) return value;
+    if (/^\d+$/.test(value) && speakerRoles[Number(value)]) return speakerRoles[Number(value)];
+    return value;
+};
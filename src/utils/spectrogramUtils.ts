@@ -0,0 +1,199 @@
+import { SpectrogramColorMap } from '../types';
+
+export interface SpectrogramOptions {
+    fftSize: number;
+    melScale: boolean;
+}
+
+export interface SpectrogramResult {
+    // フレームごとに周波数ビンの強度（0-255）を並べたもの（低い周波数から順）
+    data: Uint8Array;
+    numFrames: number;
+    numBins: number;
+}
+
+// メルスケール表示時のバンド数
+const MEL_BANDS = 128;
+// 表示するダイナミックレンジ（dB）
+const DYNAMIC_RANGE_DB = 80;
+// 結果の最大サイズ（フレーム数 × ビン数）
+const MAX_CELLS = 8 * 1024 * 1024;
+
+// 周波数(Hz)とメル尺度の相互変換
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+interface MelFilter {
+    // 重みが0でない最初のFFTビン
+    startBin: number;
+    weights: Float32Array;
+}
+
+// 三角フィルタによるメルフィルタバンクを作成
+const createMelFilterBank = (fftSize: number, sampleRate: number, numBands: number): MelFilter[] => {
+    const numFftBins = fftSize / 2;
+    const maxMel = hzToMel(sampleRate / 2);
+    const binPoints: number[] = [];
+    for (let i = 0; i < numBands + 2; i++) {
+        const hz = melToHz((maxMel * i) / (numBands + 1));
+        binPoints.push(Math.min(numFftBins - 1, Math.floor(((fftSize + 1) * hz) / sampleRate)));
+    }
+
+    const filters: MelFilter[] = [];
+    for (let band = 1; band <= numBands; band++) {
+        const left = binPoints[band - 1];
+        const center = binPoints[band];
+        const right = binPoints[band + 1];
+        // 低域でフィルタ幅が0になる場合も最低1ビンは拾う
+        const weights = new Float32Array(Math.max(1, right - left + 1));
+        for (let bin = left; bin <= right; bin++) {
+            if (bin < center) {
+                weights[bin - left] = (bin - left) / Math.max(1, center - left);
+            } else if (bin === center) {
+                weights[bin - left] = 1;
+            } else {
+                weights[bin - left] = (right - bin) / Math.max(1, right - center);
+            }
+        }
+        filters.push({ startBin: left, weights });
+    }
+    return filters;
+};
+
+// 基数2のインプレースFFT（real, imagを書き換える）
+// cosTable/sinTableは長さn/2の回転因子 exp(-2πik/n)
+const fft = (real: Float32Array, imag: Float32Array, cosTable: Float32Array, sinTable: Float32Array) => {
+    const n = real.length;
+
+    // ビット反転による並べ替え
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) {
+            j ^= bit;
+        }
+        j ^= bit;
+        if (i < j) {
+            [real[i], real[j]] = [real[j], real[i]];
+            [imag[i], imag[j]] = [imag[j], imag[i]];
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const halfSize = size >> 1;
+        const tableStep = n / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < halfSize; k++) {
+                const cos = cosTable[k * tableStep];
+                const sin = sinTable[k * tableStep];
+                const evenIndex = start + k;
+                const oddIndex = evenIndex + halfSize;
+                const tReal = real[oddIndex] * cos - imag[oddIndex] * sin;
+                const tImag = real[oddIndex] * sin + imag[oddIndex] * cos;
+                real[oddIndex] = real[evenIndex] - tReal;
+                imag[oddIndex] = imag[evenIndex] - tImag;
+                real[evenIndex] += tReal;
+                imag[evenIndex] += tImag;
+            }
+        }
+    }
+};
+
+/**
+ * 音声サンプルから短時間フーリエ変換によるスペクトログラムを計算する。
+ * 長い音声でも結果が大きくなりすぎないよう、ホップ長はMAX_CELLSに収まるように調整する。
+ */
+export const computeSpectrogram = (
+    samples: Float32Array,
+    sampleRate: number,
+    options: SpectrogramOptions
+): SpectrogramResult => {
+    const { fftSize, melScale } = options;
+    const numFftBins = fftSize / 2;
+    const numBins = melScale ? MEL_BANDS : numFftBins;
+
+    const maxFrames = Math.max(1, Math.floor(MAX_CELLS / numBins));
+    const hopSize = Math.max(fftSize / 4, Math.ceil(samples.length / maxFrames));
+    const numFrames = Math.max(1, Math.ceil(samples.length / hopSize));
+
+    // ハン窓
+    const hannWindow = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+        hannWindow[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+    }
+
+    const cosTable = new Float32Array(numFftBins);
+    const sinTable = new Float32Array(numFftBins);
+    for (let k = 0; k < numFftBins; k++) {
+        cosTable[k] = Math.cos((-2 * Math.PI * k) / fftSize);
+        sinTable[k] = Math.sin((-2 * Math.PI * k) / fftSize);
+    }
+
+    const melFilters = melScale ? createMelFilterBank(fftSize, sampleRate, MEL_BANDS) : null;
+    const power = new Float32Array(numFrames * numBins);
+    const real = new Float32Array(fftSize);
+    const imag = new Float32Array(fftSize);
+    let maxDb = -Infinity;
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        const offset = frame * hopSize - fftSize / 2;
+        for (let i = 0; i < fftSize; i++) {
+            const index = offset + i;
+            real[i] = index >= 0 && index < samples.length ? samples[index] * hannWindow[i] : 0;
+            imag[i] = 0;
+        }
+        fft(real, imag, cosTable, sinTable);
+
+        for (let bin = 0; bin < numBins; bin++) {
+            let value = 0;
+            if (melFilters) {
+                const { startBin, weights } = melFilters[bin];
+                for (let k = 0; k < weights.length; k++) {
+                    const fftBin = startBin + k;
+                    value += weights[k] * (real[fftBin] * real[fftBin] + imag[fftBin] * imag[fftBin]);
+                }
+            } else {
+                value = real[bin] * real[bin] + imag[bin] * imag[bin];
+            }
+            const db = 10 * Math.log10(value + 1e-10);
+            power[frame * numBins + bin] = db;
+            if (db > maxDb) maxDb = db;
+        }
+    }
+
+    // 最大値から DYNAMIC_RANGE_DB の範囲を0-255に正規化
+    const minDb = maxDb - DYNAMIC_RANGE_DB;
+    const data = new Uint8Array(power.length);
+    for (let i = 0; i < power.length; i++) {
+        const normalized = (power[i] - minDb) / DYNAMIC_RANGE_DB;
+        data[i] = Math.round(Math.min(1, Math.max(0, normalized)) * 255);
+    }
+
+    return { data, numFrames, numBins };
+};
+
+// カラーマップの基準色（0から1まで等間隔）
+const COLOR_MAP_STOPS: Record<SpectrogramColorMap, [number, number, number][]> = {
+    viridis: [[68, 1, 84], [59, 82, 139], [33, 145, 140], [94, 201, 98], [253, 231, 37]],
+    magma: [[0, 0, 4], [81, 18, 124], [183, 55, 121], [252, 137, 97], [252, 253, 191]],
+    jet: [[0, 0, 131], [0, 60, 255], [5, 255, 250], [255, 252, 0], [250, 0, 0], [128, 0, 0]],
+    grayscale: [[255, 255, 255], [0, 0, 0]]
+};
+
+export const SPECTROGRAM_COLOR_MAPS = Object.keys(COLOR_MAP_STOPS) as SpectrogramColorMap[];
+
+// 強度0-255に対応するRGBAのルックアップテーブルを作成
+export const createColorMapLut = (colorMap: SpectrogramColorMap): Uint8ClampedArray => {
+    const stops = COLOR_MAP_STOPS[colorMap];
+    const lut = new Uint8ClampedArray(256 * 4);
+    for (let i = 0; i < 256; i++) {
+        const position = (i / 255) * (stops.length - 1);
+        const lower = Math.floor(position);
+        const upper = Math.min(stops.length - 1, lower + 1);
+        const ratio = position - lower;
+        for (let c = 0; c < 3; c++) {
+            lut[i * 4 + c] = stops[lower][c] + (stops[upper][c] - stops[lower][c]) * ratio;
+        }
+        lut[i * 4 + 3] = 255;
+    }
+    return lut;
+};
@@ -0,0 +1,100 @@
+import { AudioSource, ConversationLog, ProjectConfig, Segment, Turn } from '../types';
+import { getLogValue, guessColumnMapping, guessTimestampUnit, parseTimestamp } from './alignmentUtils.ts';
+import { convertAudioTime } from './audioUtils.ts';
+import { getLogRowRanges, relocateSlotSpans } from './spanUtils.ts';
+
+// 対話ログの行をターンにドラッグするときのデータ形式
+export const LOG_ROW_DRAG_TYPE = 'application/x-conversation-log-row';
+
+// 紐付けた行のテキストをつなげた書き起こし
+export const joinLogRowsText = (logs: ConversationLog[], rows: number[]) =>
+    rows.map(row => logs[row]?.text || '').filter(text => text).join(' ');
+
+// 対話ログの行番号から、紐付いているターンの番号を引く
+export const getLogRowTurnMap = (turns: Turn[]): Map<number, number> => {
+    const map = new Map<number, number>();
+    turns.forEach((turn, turnIndex) => {
+        (turn.logRows || []).forEach(row => map.set(row, turnIndex));
+    });
+    return map;
+};
+
+/**
+ * 対話ログの行をターンに紐付ける（turnIndexがnullの場合は解除する）。
+ * 1つの行は1つのターンにのみ紐付け、紐付けが変わったターンの書き起こしは紐付いた行のテキストをつなげたものに置き換える。
+ * スロットの範囲は新しい書き起こしに合わせて移す。
+ */
+export const setLogRowLink = (
+    turns: Turn[],
+    rowIndex: number,
+    turnIndex: number | null,
+    logs: ConversationLog[]
+): Turn[] =>
+    turns.map((turn, index) => {
+        const rows = turn.logRows || [];
+        const isTarget = index === turnIndex;
+        if (isTarget === rows.includes(rowIndex)) return turn;
+
+        const newRows = isTarget
+            ? [...rows, rowIndex].sort((a, b) => a - b)
+            : rows.filter(row => row !== rowIndex);
+        const { logRows: _previous, ...rest } = turn;
+        const transcript = joinLogRowsText(logs, newRows);
+        return {
+            ...rest,
+            ...(newRows.length > 0 ? { logRows: newRows } : {}),
+            transcript,
+            slots: relocateSlotSpans(turn.slots, transcript, getLogRowRanges(transcript, logs, newRows))
+        };
+    });
+
+// 対話ログの時刻の基準（project.jsonで省略した場合は元の音声）
+export const getLogTimeBase = (config: ProjectConfig): AudioSource => config.logTimeBase || 'original';
+
+// 対話ログの時刻を、読み込んでいる音声の時刻に変換するための情報
+export interface LogTimeConversion {
+    // 対話ログの開始・終了の列の時刻の基準
+    timestampSource: AudioSource;
+    // 読み込んでいる音声（ターンの区間の時刻の基準）と音声オフセット
+    audioSource: AudioSource;
+    audioOffset: number;
+}
+
+/**
+ * 対話ログの各行の時間範囲（時刻が分からない行はundefined）。
+ * 紐付いたターンがあればその区間、無ければ開始・終了の列の時刻を読み込んでいる音声の時刻に変換して使う。
+ */
+export const getLogRowSpans = (
+    logs: ConversationLog[],
+    turns: Turn[],
+    { timestampSource, audioSource, audioOffset }: LogTimeConversion
+): (Segment | undefined)[] => {
+    const rowTurns = getLogRowTurnMap(turns);
+    const mapping = guessColumnMapping(logs.length > 0 ? Object.keys(logs[0]) : []);
+    const unit = guessTimestampUnit(mapping.start);
+    const toAudioTime = (time: number) => convertAudioTime(time, timestampSource, audioSource, audioOffset);
+    return logs.map((log, row) => {
+        const turn = turns[rowTurns.get(row) ?? -1];
+        if (turn && turn.segments.length > 0) {
+            return { start: turn.segments[0].start, end: turn.segments[turn.segments.length - 1].end };
+        }
+        const start = parseTimestamp(getLogValue(log, mapping.start), unit);
+        const end = parseTimestamp(getLogValue(log, mapping.end), unit);
+        if (start === null) return undefined;
+        return {
+            start: toAudioTime(start),
+            end: toAudioTime(end !== null && end > start ? end : start)
+        };
+    });
+};
+
+// 再生位置を含む行（複数ある場合は最も後に始まる行）。含む行が無い場合はnull
+export const findLogRowAtTime = (spans: (Segment | undefined)[], time: number): number | null => {
+    let found: number | null = null;
+    spans.forEach((span, row) => {
+        if (span && span.start <= time && time < span.end && (found === null || span.start >= spans[found]!.start)) {
+            found = row;
+        }
+    });
+    return found;
+};
@@ -0,0 +1,35 @@
+import { Segment, Turn } from '../types';
+import { matchTurnsToSegments } from './turnUtils.ts';
+
+const turn = (intent: string, segments: Segment[]): Turn => ({ intent, slots: [{ key: '人数', value: intent }], segments });
+
+describe('matchTurnsToSegments', () => {
+    const turns = [turn('挨拶', [{ start: 0, end: 1 }]), turn('予約', [{ start: 2, end: 3 }, { start: 3.5, end: 4 }])];
+
+    it('区間の重なりが最も大きいターンを対応付ける', () => {
+        const matched = matchTurnsToSegments(turns, [
+            [{ start: 0, end: 0.8 }],
+            [{ start: 1.5, end: 1.8 }],
+            [{ start: 2.2, end: 3 }, { start: 3.5, end: 4 }]
+        ]);
+        expect(matched).toEqual([turns[0], undefined, turns[1]]);
+    });
+
+    it('元の区間と重ならない位置へ動かしたターンも失わずに対応付ける', () => {
+        // 挨拶のターンを予約のターンの後ろへ動かした（時間順に並べ替え済み）
+        const matched = matchTurnsToSegments(turns, [
+            [{ start: 2, end: 3 }, { start: 3.5, end: 4 }],
+            [{ start: 5, end: 6 }]
+        ]);
+        expect(matched).toEqual([turns[1], turns[0]]);
+    });
+
+    it('対応付けの残ったターンが無い区間は新しいターンとする', () => {
+        const matched = matchTurnsToSegments(turns, [
+            [{ start: 0, end: 1 }],
+            [{ start: 2, end: 4 }],
+            [{ start: 6, end: 7 }]
+        ]);
+        expect(matched).toEqual([turns[0], turns[1], undefined]);
+    });
+});
@@ -0,0 +1,29 @@
+import { Segment, Turn } from '../types';
+
+// 2つの区間の一覧が重なる時間の合計
+const getOverlapDuration = (a: Segment[], b: Segment[]): number =>
+    a.reduce((total, x) =>
+        total + b.reduce((sum, y) => sum + Math.max(0, Math.min(x.end, y.end) - Math.max(x.start, y.start)), 0), 0);
+
+/**
+ * マーカーの操作後の区間（ターンごと）に、既存のターンを対応付ける。
+ * 区間の重なりの合計が最も大きいターンを対応付け（途中に区間が挿入・削除されてもインテントやスロットがずれないようにする）、
+ * マーカーを動かして元の区間と重ならなくなったターンは、対応付けの残ったターンを元の順に割り当てる。
+ * 対応するターンが無い区間（新しく追加した区間）はundefined。
+ */
+export const matchTurnsToSegments = (turns: Turn[], turnSegments: Segment[][]): (Turn | undefined)[] => {
+    const remaining = [...turns];
+    const matched = turnSegments.map(segments => {
+        let bestIndex = -1;
+        let bestOverlap = 0;
+        remaining.forEach((turn, index) => {
+            const overlap = getOverlapDuration(turn.segments, segments);
+            if (overlap > bestOverlap) {
+                bestOverlap = overlap;
+                bestIndex = index;
+            }
+        });
+        return bestIndex >= 0 ? remaining.splice(bestIndex, 1)[0] : undefined;
+    });
+    return matched.map(turn => turn || remaining.shift());
+};
@@ -0,0 +1,124 @@
+import { Segment, VadParams } from '../types';
+
+export const DEFAULT_VAD_PARAMS: VadParams = {
+    frameMs: 20,
+    energyThresholdDb: -35,
+    zcrThreshold: 0.25,
+    minSpeechMs: 250,
+    minSilenceMs: 300,
+    paddingMs: 100
+};
+
+// 無声子音とみなすエネルギーの下限（energyThresholdDbからの差）
+const UNVOICED_ENERGY_MARGIN_DB = 10;
+
+export interface FrameFeatures {
+    // 最大フレームを0dBとした各フレームのエネルギー
+    energyDb: Float32Array;
+    // 各フレームのゼロ交差率（0-1）
+    zcr: Float32Array;
+    frameDuration: number;
+}
+
+// フレームごとのエネルギーとゼロ交差率を計算
+export const computeFrameFeatures = (
+    samples: Float32Array,
+    sampleRate: number,
+    frameMs: number
+): FrameFeatures => {
+    const frameLength = Math.max(1, Math.round((sampleRate * frameMs) / 1000));
+    const numFrames = Math.ceil(samples.length / frameLength);
+    const energyDb = new Float32Array(numFrames);
+    const zcr = new Float32Array(numFrames);
+    let maxDb = -Infinity;
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        const start = frame * frameLength;
+        const end = Math.min(samples.length, start + frameLength);
+        let energy = 0;
+        let crossings = 0;
+        for (let i = start; i < end; i++) {
+            energy += samples[i] * samples[i];
+            if (i > start && (samples[i] >= 0) !== (samples[i - 1] >= 0)) {
+                crossings++;
+            }
+        }
+        const length = Math.max(1, end - start);
+        energyDb[frame] = 10 * Math.log10(energy / length + 1e-12);
+        zcr[frame] = crossings / length;
+        if (energyDb[frame] > maxDb) maxDb = energyDb[frame];
+    }
+
+    for (let frame = 0; frame < numFrames; frame++) {
+        energyDb[frame] -= maxDb;
+    }
+
+    return { energyDb, zcr, frameDuration: frameLength / sampleRate };
+};
+
+/**
+ * フレーム特徴量から発話区間を検出する。
+ * エネルギーが閾値以上のフレーム、または閾値に近いエネルギーでゼロ交差率が高いフレーム（無声子音）を発話とみなし、
+ * 短い無音を埋め、短い発話を除外したうえで前後に余白を付ける。
+ */
+export const detectSpeechSegments = (features: FrameFeatures, params: VadParams): Segment[] => {
+    const { energyDb, zcr, frameDuration } = features;
+    const numFrames = energyDb.length;
+    const totalDuration = numFrames * frameDuration;
+
+    const isSpeech = (frame: number) =>
+        energyDb[frame] >= params.energyThresholdDb ||
+        (energyDb[frame] >= params.energyThresholdDb - UNVOICED_ENERGY_MARGIN_DB && zcr[frame] >= params.zcrThreshold);
+
+    // 発話フレームの連続区間を抽出
+    const rawSegments: Segment[] = [];
+    let speechStart = -1;
+    for (let frame = 0; frame <= numFrames; frame++) {
+        const speech = frame < numFrames && isSpeech(frame);
+        if (speech && speechStart < 0) {
+            speechStart = frame;
+        } else if (!speech && speechStart >= 0) {
+            rawSegments.push({ start: speechStart * frameDuration, end: frame * frameDuration });
+            speechStart = -1;
+        }
+    }
+
+    // 短い無音を挟んだ区間を結合
+    const minSilence = params.minSilenceMs / 1000;
+    const merged: Segment[] = [];
+    rawSegments.forEach(segment => {
+        const last = merged[merged.length - 1];
+        if (last && segment.start - last.end < minSilence) {
+            last.end = segment.end;
+        } else {
+            merged.push({ ...segment });
+        }
+    });
+
+    // 短い発話を除外し、余白を付ける（余白で重なった区間は結合）
+    const minSpeech = params.minSpeechMs / 1000;
+    const padding = params.paddingMs / 1000;
+    const result: Segment[] = [];
+    merged
+        .filter(segment => segment.end - segment.start >= minSpeech)
+        .forEach(segment => {
+            const padded = {
+                start: Math.max(0, segment.start - padding),
+                end: Math.min(totalDuration, segment.end + padding)
+            };
+            const last = result[result.length - 1];
+            if (last && padded.start <= last.end) {
+                last.end = padded.end;
+            } else {
+                result.push(padded);
+            }
+        });
+
+    return result;
+};
+
+// 既存の区間と重なる候補を除外
+export const excludeOverlappingSegments = (proposals: Segment[], existing: Segment[]): Segment[] =>
+    proposals.filter(proposal =>
+        !existing.some(segment => proposal.start < segment.end && segment.start < proposal.end)
+    );
@@ -0,0 +1,11 @@
+import { preprocessAudio, PreprocessWorkerRequest } from '../utils/preprocessUtils.ts';
+
+// ダウンミックスとリサンプリングは重いため、UIを止めないようワーカー内で行う
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<PreprocessWorkerRequest>) => {
+    const { channels, sampleRate, trimSeconds, downmixMode } = event.data;
+    const wav = preprocessAudio(channels, sampleRate, { trimSeconds, downmixMode });
+    ctx.postMessage(wav, [wav]);
+};
@@ -0,0 +1,16 @@
+import { computeSpectrogram, SpectrogramOptions } from '../utils/spectrogramUtils.ts';
+
+export interface SpectrogramWorkerRequest extends SpectrogramOptions {
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+// 長い音声でもUIが固まらないよう、スペクトログラムの計算はワーカー内で行う
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<SpectrogramWorkerRequest>) => {
+    const { samples, sampleRate, fftSize, melScale } = event.data;
+    const result = computeSpectrogram(samples, sampleRate, { fftSize, melScale });
+    ctx.postMessage(result, [result.data.buffer]);
+};